@@ -1,4 +1,9 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseCanvas, parsePlotSettings, parsePlotSpeeds, parseSeedingOptions } from './options.js';
+import { createProgram } from './program.js';
 
 // Basic sanity tests for CLI module imports
 describe('CLI', () => {
@@ -24,3 +29,119 @@ describe('CLI', () => {
     expect(svg).toContain('</svg>');
   });
 });
+
+describe('option parsing', () => {
+  it('should size the canvas from a paper or lengths with units', () => {
+    const paper = parseCanvas({ paper: 'a5', orientation: 'landscape' });
+    expect(paper.unit).toBe('mm');
+    expect(paper.width).toBeGreaterThan(paper.height);
+
+    const lengths = parseCanvas({ width: '100mm', height: '800' });
+    expect(lengths.unit).toBe('mm');
+    expect(lengths.width).toBeCloseTo((100 / 25.4) * 96);
+    expect(lengths.height).toBe(800);
+
+    expect(() => parseCanvas({ paper: 'a6' })).toThrow('Unknown paper size');
+    expect(() => parseCanvas({ width: '10furlongs', height: '800' })).toThrow();
+  });
+
+  it('should reject invalid seeding options', () => {
+    expect(() => parseSeedingOptions({ seeding: 'jittered-grid', seedJitter: '2' })).toThrow(
+      '--seed-jitter must be between 0 and 1'
+    );
+    expect(() => parseSeedingOptions({ seeding: 'jittered-grid', seedJitter: 'abc' })).toThrow('--seed-jitter');
+    expect(() => parseSeedingOptions({ seeding: 'polyline', seedJitter: '1' })).toThrow('needs a --seed-path');
+    expect(() => parseSeedingOptions({ seeding: 'edge', seedJitter: '1', seedEdges: 'top,middle' })).toThrow(
+      '--seed-edges'
+    );
+  });
+
+  it('should parse pens, their assignment and travel options', () => {
+    expect(parsePlotSettings({ pens: '#000,red:2', penStrategy: 'mapping', penMapping: '1,2', optimize: 'true' }))
+      .toMatchObject({
+        pens: [{ color: '#000' }, { color: 'red', width: 2 }],
+        assignment: { strategy: 'mapping', mapping: [0, 1] },
+        travel: { reverse: true },
+      });
+    expect(parsePlotSettings({})).toEqual({ pens: undefined, assignment: undefined, travel: undefined });
+  });
+
+  it('should reject plot settings that need other options', () => {
+    expect(() => parsePlotSettings({ splitPens: 'true' })).toThrow('--split-pens needs --pens');
+    expect(() => parsePlotSettings({ joinTolerance: '1' })).toThrow('need --optimize');
+    expect(() => parsePlotSettings({ pens: '#000', penThresholds: '0,x' })).toThrow('--pen-thresholds');
+  });
+
+  it('should reject plot speeds that are not positive numbers', () => {
+    const speeds = { drawSpeed: '40', travelSpeed: '100', penLiftTime: '0', penChangeTime: '30' };
+
+    expect(parsePlotSpeeds(speeds)).toMatchObject({ drawSpeed: 40, penLiftTime: 0 });
+    expect(() => parsePlotSpeeds({ ...speeds, drawSpeed: '0' })).toThrow('--draw-speed must be a positive number');
+    expect(() => parsePlotSpeeds({ ...speeds, penLiftTime: '-1' })).toThrow('--pen-lift-time');
+  });
+});
+
+describe('flow-lines program', () => {
+  let dir: string;
+
+  const run = (...args: string[]) => {
+    createProgram().parse(args, { from: 'user' });
+  };
+  const read = (name: string) => readFileSync(join(dir, name), 'utf-8');
+  const canvas = ['-w', '200', '-h', '200', '-l', '20', '-s', '7'];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'flow-lines-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should regenerate a drawing byte for byte', () => {
+    run('generate', ...canvas, '--clip-shape', 'circle', '--color-by', 'length', '--gradient', '#000000,#ff0000',
+      '-o', join(dir, 'drawing.svg'));
+    run('regenerate', join(dir, 'drawing.svg'));
+
+    expect(read('drawing-regenerated.svg')).toBe(read('drawing.svg'));
+  });
+
+  it('should regenerate pens, travel order and split pen files', () => {
+    run('generate', ...canvas, '--pens', '#000000,#ff0000', '--pen-strategy', 'region', '--optimize',
+      '--split-pens', '-o', join(dir, 'pens.svg'));
+    run('regenerate', join(dir, 'pens-pen2.svg'), '-o', join(dir, 'again.svg'));
+
+    expect(read('again.svg')).toBe(read('pens-pen2.svg'));
+    expect(read('pens-pen1.svg')).not.toBe(read('pens-pen2.svg'));
+  });
+
+  it('should write paper sizes in their unit', () => {
+    run('generate', '--paper', 'a5', '-l', '5', '-s', '1', '-o', join(dir, 'paper.svg'));
+
+    expect(read('paper.svg')).toContain('width="148mm"');
+  });
+
+  it('should write G-code and HPGL, one file per pen when split', () => {
+    run('generate', ...canvas, '--format', 'gcode', '-o', join(dir, 'plot.svg'));
+    run('generate', ...canvas, '--format', 'hpgl', '--pens', '#000,#f00', '--split-pens', '-o', join(dir, 'plot.svg'));
+
+    expect(readdirSync(dir).sort()).toEqual(['plot-pen1.hpgl', 'plot-pen2.hpgl', 'plot.gcode']);
+    expect(read('plot.gcode')).toContain('G21');
+    expect(read('plot-pen2.hpgl')).toMatch(/^IN;\nSP2;/);
+  });
+
+  it('should report invalid options and inputs', () => {
+    expect(() => run('generate', ...canvas, '--split-pens', '-o', join(dir, 'x.svg'))).toThrow(
+      '--split-pens needs --pens'
+    );
+    expect(() => run('generate', ...canvas, '--format', 'gcode', '--animate', 'smil', '-o', join(dir, 'x.svg')))
+      .toThrow('--animate only applies to SVG output');
+    expect(() => run('regenerate', join(dir, 'missing.svg'))).toThrow(`Could not load ${join(dir, 'missing.svg')}`);
+
+    writeFileSync(join(dir, 'plain.svg'), '<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+    expect(() => run('regenerate', join(dir, 'plain.svg'))).toThrow('Could not load');
+    expect(readdirSync(dir)).toEqual(['plain.svg']);
+  });
+});
@@ -0,0 +1,396 @@
+import { readFileSync } from 'node:fs';
+import { resolve, extname } from 'node:path';
+import {
+  parseNoiseLayers,
+  parseInfluences,
+  parseObstacles,
+  decodeImage,
+  CANVAS_EDGES,
+  parseSeedPath,
+  parseShape,
+  parseSVGShape,
+  presetShape,
+  fitShape,
+  parseHexColor,
+  parsePens,
+  parseLength,
+  parsePaperSize,
+  canvasSize,
+  toPixels,
+  type FlowLinesOptions,
+  type SVGOptions,
+  type PlotSettings,
+  type DirectionMapMode,
+  type SeedingOptions,
+  type SeedingStrategy,
+  type CanvasEdge,
+  type Shape,
+  type ShapePreset,
+  type ClipMode,
+  type Obstacle,
+  type LineStyles,
+  type LineAttribute,
+  type PenStrategy,
+  type Unit,
+  type Orientation,
+  type GCodeOptions,
+  type HPGLOptions,
+  type MachinePlacement,
+  type PlotSpeeds,
+  type PenLift,
+  type MachineUnit,
+  type Origin,
+  type AlgorithmVersion,
+} from '@flow-lines/core';
+
+export type CommonFlowOptions = Omit<FlowLinesOptions, 'lineCount' | 'startPoints'>;
+
+/** File extension of each output format */
+export const FORMAT_EXTENSIONS: Record<string, string> = {
+  svg: '.svg',
+  gcode: '.gcode',
+  hpgl: '.hpgl',
+};
+
+export function parseSeedingOptions(options: Record<string, string>): SeedingOptions {
+  const strategy = options.seeding as SeedingStrategy;
+  const edges = options.seedEdges?.split(',').map((edge) => edge.trim());
+  if (edges && !edges.every((edge) => CANVAS_EDGES.includes(edge as CanvasEdge))) {
+    throw new Error(`--seed-edges must list edges from: ${CANVAS_EDGES.join(', ')}`);
+  }
+  if (strategy === 'polyline' && !options.seedPath) {
+    throw new Error('--seeding polyline needs a --seed-path file');
+  }
+  const jitter = parseFloat(options.seedJitter);
+  if (!(jitter >= 0 && jitter <= 1)) {
+    throw new Error('--seed-jitter must be between 0 and 1');
+  }
+
+  const [cx, cy] = options.seedCenter?.split(',').map(parseFloat) ?? [];
+
+  return {
+    strategy,
+    spacing: options.seedSpacing ? parseFloat(options.seedSpacing) : undefined,
+    jitter,
+    center: options.seedCenter ? { x: cx, y: cy } : undefined,
+    edges: edges as CanvasEdge[] | undefined,
+    points: options.seedPath ? loadJSONFile(options.seedPath, parseSeedPath) : undefined,
+  };
+}
+
+/**
+ * Parse a length option such as --margin into canvas pixels
+ */
+function parseLengthOption(options: Record<string, string>, name: string, flag: string): number {
+  try {
+    return toPixels(parseLength(options[name]));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${flag}: ${message}`);
+  }
+}
+
+/**
+ * Canvas size in pixels, and the unit of the SVG document, from --paper
+ * or from --width and --height. Sizes given in pixels keep a unitless
+ * document.
+ */
+export function parseCanvas(options: Record<string, string>): { width: number; height: number; unit: Unit } {
+  if (options.paper) {
+    const paper = generate(() => parsePaperSize(options.paper, options.orientation as Orientation));
+    return { ...canvasSize(paper), unit: paper.unit };
+  }
+
+  const unit = [options.width, options.height]
+    .map((text) => generate(() => parseLength(text).unit))
+    .find((u) => u !== 'px') ?? 'px';
+  return {
+    width: parseLengthOption(options, 'width', '--width'),
+    height: parseLengthOption(options, 'height', '--height'),
+    unit,
+  };
+}
+
+/**
+ * The canvas size as given, e.g. "800x800" or "a4 (210x297mm)"
+ */
+export function describeSize(options: Record<string, string>): string {
+  if (!options.paper) {
+    return `${options.width}x${options.height}`;
+  }
+  const { width, height, unit } = generate(() => parsePaperSize(options.paper, options.orientation as Orientation));
+  return `${options.paper} (${width}x${height}${unit})`;
+}
+
+/**
+ * Build the clip shape from --clip-shape or --clip, if either is given
+ */
+function parseClipShape(options: Record<string, string>): Shape | undefined {
+  const { width, height } = parseCanvas(options);
+  const margin = parseLengthOption(options, 'margin', '--margin');
+
+  if (options.clipShape) {
+    const cornerRadius = options.cornerRadius ? parseFloat(options.cornerRadius) : undefined;
+    return presetShape(options.clipShape as ShapePreset, width, height, margin, cornerRadius);
+  }
+  if (!options.clip) {
+    return undefined;
+  }
+
+  const shape = extname(options.clip).toLowerCase() === '.svg'
+    ? loadFile(options.clip, (contents) => parseSVGShape(contents.toString('utf-8')))
+    : loadJSONFile(options.clip, parseShape);
+  return options.fitClip ? fitShape(shape, width, height, margin) : shape;
+}
+
+/**
+ * Load obstacles from a JSON file, or a single obstacle from the outlines of an SVG
+ */
+function loadObstacles(options: Record<string, string>): Obstacle[] {
+  if (extname(options.obstacles).toLowerCase() !== '.svg') {
+    return loadJSONFile(options.obstacles, parseObstacles);
+  }
+
+  return [{
+    shape: loadFile(options.obstacles, (contents) => parseSVGShape(contents.toString('utf-8'))),
+    influenceDistance: parseFloat(options.obstacleDistance),
+    enterable: Boolean(options.enterObstacles),
+  }];
+}
+
+export function parseCommonOptions(options: Record<string, string>): CommonFlowOptions {
+  const { width, height } = parseCanvas(options);
+
+  return {
+    width,
+    height,
+    seed: options.seed ? parseInt(options.seed, 10) : undefined,
+    algorithmVersion: parseInt(options.algorithmVersion, 10) as AlgorithmVersion,
+    stepLength: parseFloat(options.stepLength),
+    maxSteps: parseInt(options.maxSteps, 10),
+    integrator: options.integrator as FlowLinesOptions['integrator'],
+    tolerance: parseFloat(options.tolerance),
+    margin: parseLengthOption(options, 'margin', '--margin'),
+    clip: parseClipShape(options),
+    clipMode: options.clipMode as ClipMode,
+    minLineLength: parseInt(options.minLength, 10),
+    bidirectional: Boolean(options.bidirectional),
+    separation: options.separation ? parseFloat(options.separation) : undefined,
+    testDistance: parseFloat(options.testDistance),
+    selfIntersectionDistance: options.selfIntersection ? parseFloat(options.selfIntersection) : undefined,
+    maxLength: options.maxLength ? parseFloat(options.maxLength) : undefined,
+    maxTurnAngle: options.maxTurnAngle ? (parseFloat(options.maxTurnAngle) * Math.PI) / 180 : undefined,
+    stagnationDistance: options.stagnationDistance ? parseFloat(options.stagnationDistance) : undefined,
+    stagnationSteps: parseInt(options.stagnationSteps, 10),
+    lengthJitter: parseFloat(options.lengthJitter),
+    noiseScale: parseFloat(options.noiseScale),
+    octaves: parseInt(options.octaves, 10),
+    persistence: parseFloat(options.persistence),
+    lacunarity: parseFloat(options.lacunarity),
+    noiseType: options.noiseType as FlowLinesOptions['noiseType'],
+    worleyMode: options.worleyMode as FlowLinesOptions['worleyMode'],
+    curlBase: options.curlBase as FlowLinesOptions['curlBase'],
+    time: options.time ? parseFloat(options.time) : undefined,
+    loopDuration: options.loopDuration ? parseFloat(options.loopDuration) : undefined,
+    tileable: Boolean(options.tileable),
+    wrap: options.wrap ? undefined : false,
+    warp: parseFloat(options.warpStrength) > 0
+      ? {
+        strength: parseFloat(options.warpStrength),
+        scale: parseFloat(options.warpScale),
+        iterations: parseInt(options.warpIterations, 10),
+      }
+      : undefined,
+    sampling: options.sampling as FlowLinesOptions['sampling'],
+    layers: options.layers ? loadJSONFile(options.layers, parseNoiseLayers) : undefined,
+    influences: options.influences ? loadJSONFile(options.influences, parseInfluences) : undefined,
+    obstacles: options.obstacles ? loadObstacles(options) : undefined,
+    directionMap: options.directionMap
+      ? {
+        image: loadFile(options.directionMap, decodeImage),
+        mode: options.directionMode as DirectionMapMode,
+        strength: parseFloat(options.directionStrength),
+      }
+      : undefined,
+    densityMap: options.densityMap
+      ? {
+        image: loadFile(options.densityMap, decodeImage),
+        invert: Boolean(options.invertDensity),
+      }
+      : undefined,
+  };
+}
+
+/**
+ * Read and parse an input file, throwing a readable error on failure
+ */
+export function loadFile<T>(file: string, parse: (contents: Buffer) => T): T {
+  try {
+    return parse(readFileSync(resolve(process.cwd(), file)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not load ${file}: ${message}`);
+  }
+}
+
+export function loadJSONFile<T>(file: string, parse: (json: unknown) => T): T {
+  return loadFile(file, (contents) => parse(JSON.parse(contents.toString('utf-8'))));
+}
+
+export function parseSVGCliOptions(options: Record<string, string>): SVGOptions {
+  return {
+    strokeColor: options.strokeColor,
+    strokeWidth: parseLengthOption(options, 'strokeWidth', '--stroke-width'),
+    includeBackground: Boolean(options.background),
+    backgroundColor: options.backgroundColor,
+    styles: parseLineStyles(options),
+    unit: parseCanvas(options).unit,
+  };
+}
+
+/**
+ * Build per-line styles from --color-by, --width-by and --opacity-by
+ */
+function parseLineStyles(options: Record<string, string>): LineStyles | undefined {
+  const range = (value: string, flag: string): [number, number] => {
+    const [min, max] = value.split(',').map(parseFloat);
+    if (Number.isNaN(min) || Number.isNaN(max)) {
+      throw new Error(`${flag} must be two comma-separated numbers`);
+    }
+    return [min, max];
+  };
+  const styles: LineStyles = {};
+
+  if (options.colorBy) {
+    const colors = options.gradient ?? options.palette;
+    if (!colors) {
+      throw new Error('--color-by needs --gradient or --palette colors');
+    }
+    styles.color = {
+      attribute: options.colorBy as LineAttribute,
+      colors: colors.split(',').map((color) => color.trim()),
+      mode: options.gradient ? 'gradient' : 'palette',
+    };
+    if (options.gradient) {
+      generate(() => styles.color?.colors.forEach(parseHexColor));
+    }
+  }
+  if (options.widthBy) {
+    styles.width = {
+      attribute: options.widthBy as LineAttribute,
+      range: range(options.widthRange, '--width-range'),
+    };
+  }
+  if (options.opacityBy) {
+    styles.opacity = {
+      attribute: options.opacityBy as LineAttribute,
+      range: range(options.opacityRange, '--opacity-range'),
+    };
+  }
+
+  return Object.keys(styles).length > 0 ? styles : undefined;
+}
+
+/**
+ * The --pens and how lines are shared out between them, and the travel
+ * options with --optimize
+ */
+export function parsePlotSettings(options: Record<string, string>): PlotSettings {
+  if (!options.pens && options.splitPens) {
+    throw new Error('--split-pens needs --pens');
+  }
+  if (!options.optimize && (options.joinTolerance !== undefined || options.keepDirection)) {
+    throw new Error('--join-tolerance and --keep-direction need --optimize');
+  }
+
+  const numbers = (value: string | undefined, flag: string): number[] | undefined => {
+    if (value === undefined) return undefined;
+    const list = value.split(',').map(parseFloat);
+    if (list.some(Number.isNaN)) {
+      throw new Error(`${flag} must be comma-separated numbers`);
+    }
+    return list;
+  };
+
+  return {
+    pens: options.pens ? generate(() => parsePens(options.pens)) : undefined,
+    assignment: options.pens
+      ? {
+        strategy: options.penStrategy as PenStrategy,
+        axis: options.penAxis as 'x' | 'y',
+        thresholds: numbers(options.penThresholds, '--pen-thresholds'),
+        mapping: numbers(options.penMapping, '--pen-mapping')?.map((pen) => pen - 1),
+      }
+      : undefined,
+    travel: options.optimize
+      ? {
+        reverse: !options.keepDirection,
+        joinTolerance: options.joinTolerance === undefined ? undefined : parseFloat(options.joinTolerance),
+      }
+      : undefined,
+  };
+}
+
+function parseMachinePlacement(options: Record<string, string>): MachinePlacement {
+  return {
+    origin: options.origin as Origin,
+    flipX: Boolean(options.flipX),
+    flipY: Boolean(options.flipY),
+  };
+}
+
+export function parseGCodeOptions(options: Record<string, string>): GCodeOptions {
+  return {
+    ...parseMachinePlacement(options),
+    penLift: options.penLift as PenLift,
+    penUpZ: parseFloat(options.penUpZ),
+    penDownZ: parseFloat(options.penDownZ),
+    penUpCommand: options.penUpCommand,
+    penDownCommand: options.penDownCommand,
+    penDelay: parseFloat(options.penDelay),
+    drawFeed: parseFloat(options.drawFeed),
+    travelFeed: parseFloat(options.travelFeed),
+    units: options.machineUnits as MachineUnit,
+    scale: parseFloat(options.machineScale),
+  };
+}
+
+export function parseHPGLOptions(options: Record<string, string>): HPGLOptions {
+  return {
+    ...parseMachinePlacement(options),
+    unitsPerMm: parseFloat(options.hpglUnits),
+    chunkSize: options.chunkSize ? parseInt(options.chunkSize, 10) : undefined,
+    velocity: options.velocity ? parseFloat(options.velocity) : undefined,
+  };
+}
+
+/**
+ * Run a generator, throwing a readable error if the options are invalid
+ */
+export function generate<T>(run: () => T): T {
+  try {
+    return run();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not generate: ${message}`);
+  }
+}
+
+export function parsePlotSpeeds(options: Record<string, string>): PlotSpeeds {
+  // Speeds must be above zero; times may be zero
+  const number = (name: string, flag: string, minimum: 'positive' | 'non-negative'): number => {
+    const value = Number(options[name]);
+    if (options[name].trim() === '' || !(minimum === 'positive' ? value > 0 : value >= 0) || value === Infinity) {
+      throw new Error(`${flag} must be a ${minimum} number`);
+    }
+    return value;
+  };
+
+  return {
+    drawSpeed: number('drawSpeed', '--draw-speed', 'positive'),
+    travelSpeed: number('travelSpeed', '--travel-speed', 'positive'),
+    acceleration: options.acceleration ? number('acceleration', '--acceleration', 'positive') : undefined,
+    penLiftTime: number('penLiftTime', '--pen-lift-time', 'non-negative'),
+    penChangeTime: number('penChangeTime', '--pen-change-time', 'non-negative'),
+  };
+}
@@ -0,0 +1,146 @@
+import {
+  generateFlowLines,
+  toSVG,
+  toAnimatedSVG,
+  toLayeredSVG,
+  toGCode,
+  toLayeredGCode,
+  toHPGL,
+  toLayeredHPGL,
+  assignPens,
+  optimizeTravel,
+  optimizeLayers,
+  type FlowLinesOptions,
+  type FlowLinesResult,
+  type AnimatedSVGOptions,
+  type PlotSettings,
+  type SVGAnimation,
+  type PenLayer,
+  type SVGMetadata,
+} from '@flow-lines/core';
+import { generate, parseGCodeOptions, parseHPGLOptions, parseSVGCliOptions } from './options.js';
+
+/**
+ * A result ready to draw: its lines shared out between any pens and,
+ * when optimizing, put in drawing order
+ */
+export interface Plot {
+  result: FlowLinesResult;
+  /** Options the result was generated with, embedded in SVG output */
+  generationOptions?: FlowLinesOptions;
+  /** Pens and ordering the plot was made with, embedded alongside */
+  settings: PlotSettings;
+  layers?: PenLayer[];
+  /** Pen-up distance before and after optimizing */
+  travel?: { before: number; after: number };
+}
+
+export function planPlot(
+  result: FlowLinesResult,
+  settings: PlotSettings,
+  generationOptions?: FlowLinesOptions
+): Plot {
+  const { pens, assignment = { strategy: 'round-robin' }, travel: travelOptions } = settings;
+  const layers = pens ? generate(() => assignPens(result, pens, assignment)) : undefined;
+
+  if (!travelOptions) {
+    return { result, generationOptions, settings, layers };
+  }
+
+  if (layers) {
+    const { layers: ordered, ...travel } = optimizeLayers(layers, travelOptions);
+    return {
+      result: { ...result, lines: ordered.flatMap((layer) => layer.lines) },
+      generationOptions,
+      settings,
+      layers: ordered,
+      travel,
+    };
+  }
+
+  const { lines, ...travel } = optimizeTravel(result.lines, travelOptions);
+  return { result: { ...result, lines }, generationOptions, settings, travel };
+}
+
+/**
+ * Render a plot in the --format: a static, pen-layered or, with
+ * --animate, self-drawing SVG, G-code or HPGL. With --split-pens there is
+ * one file per pen, in pen order.
+ */
+export function renderOutputs(plot: Plot, options: Record<string, string>): string[] {
+  const { result, layers } = plot;
+
+  if (options.format !== 'svg' && options.animate) {
+    throw new Error('--animate only applies to SVG output');
+  }
+
+  if (options.format === 'hpgl') {
+    const hpglOptions = parseHPGLOptions(options);
+    if (!layers) {
+      return [generate(() => toHPGL(result, hpglOptions))];
+    }
+    // Split files each keep their own pen number
+    return options.splitPens
+      ? layers.map((layer, index) =>
+        generate(() => toHPGL({ ...result, lines: layer.lines }, { ...hpglOptions, pen: index + 1 })))
+      : [generate(() => toLayeredHPGL(result, layers, hpglOptions))];
+  }
+
+  if (options.format === 'gcode') {
+    const gcodeOptions = parseGCodeOptions(options);
+    if (!layers) {
+      return [toGCode(result, gcodeOptions)];
+    }
+    return options.splitPens
+      ? layers.map((layer) => toLayeredGCode(result, [layer], gcodeOptions))
+      : [toLayeredGCode(result, layers, gcodeOptions)];
+  }
+
+  const svgOptions: AnimatedSVGOptions = {
+    ...parseSVGCliOptions(options),
+    ...(options.animate && {
+      animation: options.animate as SVGAnimation,
+      duration: parseFloat(options.drawDuration),
+      stagger: parseFloat(options.drawStagger),
+    }),
+  };
+
+  return options.splitPens && layers
+    ? layers.map((_, layer) => renderSVGOutput(plot, svgOptions, layer))
+    : [renderSVGOutput(plot, svgOptions)];
+}
+
+/**
+ * An SVG of a plot with its settings embedded: pen-layered, self-drawing
+ * when the options have an `animation`, or plain. With `layer`, as in
+ * files written one per pen, only that pen layer is drawn.
+ */
+function renderSVGOutput(
+  { result, generationOptions, settings, layers }: Plot,
+  svgOptions: AnimatedSVGOptions,
+  layer = settings.layer
+): string {
+  const options = {
+    ...svgOptions,
+    generationOptions,
+    plotSettings: layer === undefined ? settings : { ...settings, layer },
+  };
+
+  if (layers) {
+    const drawn = layer === undefined ? layers : [layers[layer]];
+    if (drawn.some((group) => group === undefined)) {
+      throw new Error(`There is no pen layer ${layer}`);
+    }
+    return toLayeredSVG(result, drawn, options);
+  }
+  return options.animation ? toAnimatedSVG(result, options) : toSVG(result, options);
+}
+
+/**
+ * Draw an SVG again from the settings embedded in it, with the same pens,
+ * line order and SVG options
+ */
+export function regenerateSVG({ options, svg, plot }: SVGMetadata): string {
+  const result = generate(() => generateFlowLines(options));
+  return renderSVGOutput(planPlot(result, plot, options), svg);
+}
@@ -0,0 +1,452 @@
+import { Command, Option } from 'commander';
+import { writeFileSync } from 'node:fs';
+import { resolve, parse, join } from 'node:path';
+import {
+  generateFlowLines,
+  generateFlowLinesGrid,
+  gridSeeds,
+  generateFrames,
+  plotStats,
+  layeredPlotStats,
+  formatDuration,
+  parseSVGMetadata,
+  VERSION,
+  ALGORITHM_VERSIONS,
+  LATEST_ALGORITHM_VERSION,
+  PEN_LIFTS,
+  MACHINE_UNITS,
+  ORIGINS,
+  DIRECTION_MAP_MODES,
+  SAMPLING_MODES,
+  INTEGRATORS,
+  NOISE_TYPES,
+  WORLEY_MODES,
+  SVG_ANIMATIONS,
+  SEEDING_STRATEGIES,
+  CANVAS_EDGES,
+  SHAPE_PRESETS,
+  CLIP_MODES,
+  LINE_ATTRIBUTES,
+  PEN_STRATEGIES,
+  fromPixels,
+  PAPER_SIZES,
+  ORIENTATIONS,
+  type FlowLinesOptions,
+  type FlowLinesResult,
+  type Orientation,
+} from '@flow-lines/core';
+import {
+  FORMAT_EXTENSIONS,
+  describeSize,
+  generate,
+  loadFile,
+  parseCommonOptions,
+  parsePlotSettings,
+  parsePlotSpeeds,
+  parseSeedingOptions,
+} from './options.js';
+import { planPlot, renderOutputs, regenerateSVG, type Plot } from './plot.js';
+
+/**
+ * Register the options shared by every generating command
+ */
+function addCommonOptions(command: Command): Command {
+  return addPlotterOptions(command
+    .option('-w, --width <length>', 'Canvas width in pixels, or with a unit (mm, cm, in)', '800')
+    .option('-h, --height <length>', 'Canvas height in pixels, or with a unit (mm, cm, in)', '800')
+    .addOption(
+      new Option('--paper <size>', `Paper size (${PAPER_SIZES.join(', ')}) or a custom size like 200x150mm`)
+        .conflicts(['width', 'height'])
+    )
+    .addOption(
+      new Option('--orientation <orientation>', 'Orientation of a named --paper size')
+        .choices(ORIENTATIONS)
+        .default('portrait')
+    )
+    .option('-s, --seed <number>', 'Random seed for reproducibility')
+    .addOption(
+      new Option('--algorithm-version <version>', 'Algorithm version to draw with; pin it to keep seeds stable')
+        .choices(ALGORITHM_VERSIONS.map(String))
+        .default(String(LATEST_ALGORITHM_VERSION))
+    )
+    .option('--step-length <number>', 'Step length for line tracing', '2')
+    .option('--max-steps <number>', 'Maximum steps per line', '500')
+    .addOption(
+      new Option('--integrator <name>', 'Line tracing integrator')
+        .choices(INTEGRATORS)
+        .default('euler')
+    )
+    .option('--tolerance <number>', 'Per-step error tolerance for the adaptive integrator', '0.05')
+    .option('-m, --margin <length>', 'Margin from canvas edges, in pixels or with a unit', '20')
+    .addOption(
+      new Option('--clip-shape <shape>', 'Keep lines inside a shape filling the canvas within the margin')
+        .choices(SHAPE_PRESETS)
+        .conflicts('clip')
+    )
+    .option('--corner-radius <number>', 'Corner radius of the rounded-rect clip shape')
+    .option('--clip <file>', 'Keep lines inside the outlines of an SVG file, or a JSON shape')
+    .option('--fit-clip', 'Scale and centre the --clip outlines to fill the canvas within the margin')
+    .addOption(
+      new Option('--clip-mode <mode>', 'Stop lines at the clip edge, or split them into the pieces inside')
+        .choices(CLIP_MODES)
+        .default('stop')
+    )
+    .option('--min-length <number>', 'Minimum line length in points', '10')
+    .option('--bidirectional', 'Trace each line both ways from its start point')
+    .option('--separation <number>', 'Evenly space lines this far apart')
+    .option('--test-distance <ratio>', 'Fraction of separation at which lines stop', '0.5')
+    .option('--self-intersection <distance>', 'Stop lines coming this close to themselves')
+    .option('--max-length <number>', 'Longest line allowed, along the line')
+    .option('--max-turn-angle <degrees>', 'Stop lines turning more sharply than this in one step')
+    .option('--stagnation-distance <number>', 'Stop lines moving less than this over --stagnation-steps')
+    .option('--stagnation-steps <number>', 'Window for the stagnation rule', '20')
+    .option('--length-jitter <ratio>', 'Randomly shorten each line by up to this fraction of its steps and length', '0')
+    .option('--noise-scale <number>', 'Scale of the noise field', '0.005')
+    .option('--octaves <number>', 'Noise octaves for detail', '4')
+    .option('--persistence <number>', 'Noise persistence', '0.5')
+    .option('--lacunarity <number>', 'Noise lacunarity', '2')
+    .addOption(
+      new Option('--noise-type <type>', 'Noise algorithm behind the field')
+        .choices(NOISE_TYPES)
+        .default('simplex')
+    )
+    .addOption(
+      new Option('--worley-mode <mode>', 'Feature distance used by Worley noise')
+        .choices(WORLEY_MODES)
+        .default('f1')
+    )
+    .addOption(
+      new Option('--curl-base <type>', 'Noise whose curl drives curl noise')
+        .choices(NOISE_TYPES.filter((type) => type !== 'curl'))
+        .default('simplex')
+    )
+    .option('--time <number>', 'Moment to sample a time-varying field at, in noise units')
+    .option('--loop-duration <number>', 'Period after which the time-varying field repeats')
+    .option('--tileable', 'Make the field repeat seamlessly across opposite edges')
+    .option('--no-wrap', 'With --tileable, stop lines at the edges instead of wrapping')
+    .option('--warp-strength <number>', 'Domain warp offset in noise units (0 disables warping)', '0')
+    .option('--warp-scale <number>', 'Frequency of the warp noise relative to the field', '1')
+    .option('--warp-iterations <number>', 'Nested domain warp passes', '1')
+    .addOption(
+      new Option('--sampling <mode>', 'Field sampling between grid cells')
+        .choices(SAMPLING_MODES)
+        .default('nearest')
+    )
+    .option('--layers <file>', 'JSON file describing blended noise layers')
+    .option('--influences <file>', 'JSON file of attractors and repellers')
+    .option('--obstacles <file>', 'JSON file of obstacles, or an SVG whose outlines the flow bends around')
+    .option('--obstacle-distance <number>', 'Distance over which the flow bends around SVG obstacles', '20')
+    .option('--enter-obstacles', 'Let lines cross into SVG obstacles instead of stopping at them')
+    .option('--direction-map <file>', 'PNG or PGM image whose brightness or hue steers the field')
+    .addOption(
+      new Option('--direction-mode <mode>', 'How the direction map steers the field')
+        .choices(DIRECTION_MAP_MODES)
+        .default('contour')
+    )
+    .option('--direction-strength <number>', 'How strongly the direction map overrides the noise', '1')
+    .option('--density-map <file>', 'PNG or PGM image where dark areas get more and longer lines')
+    .option('--invert-density', 'Make light areas of the density map dense instead')
+    .option('--stroke-color <color>', 'SVG stroke color', '#000000')
+    .option('--stroke-width <length>', 'SVG stroke width in pixels, or with a unit (e.g. 0.3mm)', '1')
+    .option('--background', 'Include background rectangle')
+    .addOption(new Option('--color-by <attribute>', 'Line metadata driving the stroke color').choices(LINE_ATTRIBUTES))
+    .option('--gradient <colors>', 'Comma-separated hex colors blended across --color-by')
+    .addOption(
+      new Option('--palette <colors>', 'Comma-separated colors picked in bands across --color-by')
+        .conflicts('gradient')
+    )
+    .addOption(new Option('--width-by <attribute>', 'Line metadata driving the stroke width').choices(LINE_ATTRIBUTES))
+    .option('--width-range <min,max>', 'Stroke widths at either end of --width-by', '0.5,2')
+    .addOption(new Option('--opacity-by <attribute>', 'Line metadata driving the stroke opacity').choices(LINE_ATTRIBUTES))
+    .option('--opacity-range <min,max>', 'Opacities at either end of --opacity-by', '0.2,1')
+    .option('--pens <pens>', 'Comma-separated pens as color[:width], each drawn on its own Inkscape layer')
+    .addOption(
+      new Option('--pen-strategy <strategy>', 'How lines are shared out between pens')
+        .choices(PEN_STRATEGIES)
+        .default('round-robin')
+    )
+    .addOption(new Option('--pen-axis <axis>', 'Direction of the region bands').choices(['x', 'y']).default('x'))
+    .option('--pen-thresholds <values>', 'Comma-separated noise values where the noise strategy changes pen')
+    .option('--pen-mapping <pens>', 'Comma-separated pen numbers (from 1) for each line in turn, for the mapping strategy')
+    .option('--split-pens', 'Write one SVG per pen instead of one layered SVG')
+    .option('--optimize', 'Reorder and reverse lines to cut pen-up travel, per pen')
+    .option('--keep-direction', 'Never reverse lines when optimizing')
+    .option('--join-tolerance <distance>', 'Join lines whose ends are this close when optimizing')
+    .addOption(
+      new Option('--animate <style>', 'Write an SVG whose lines draw themselves')
+        .choices(SVG_ANIMATIONS)
+        .conflicts('pens')
+    )
+    .option('--draw-duration <seconds>', 'Seconds each line takes to draw when animated', '2')
+    .option('--draw-stagger <seconds>', 'Seconds between line starts when animated', '0.05')
+    .option('--background-color <color>', 'Background color', '#ffffff')
+    .addOption(
+      new Option('--format <format>', 'Output format; a .svg output path gets the format extension')
+        .choices(Object.keys(FORMAT_EXTENSIONS))
+        .default('svg')
+    )
+    .option('-o, --output <file>', 'Output file path', 'flow-lines.svg'));
+}
+
+/**
+ * Register the options of the G-code and HPGL output formats
+ */
+function addPlotterOptions(command: Command): Command {
+  return command
+    .addOption(new Option('--pen-lift <method>', 'How G-code raises the pen').choices(PEN_LIFTS).default('z'))
+    .option('--pen-up-z <number>', 'Z of the raised pen', '5')
+    .option('--pen-down-z <number>', 'Z of the lowered pen', '0')
+    .option('--pen-up-command <gcode>', 'Command raising a servo pen', 'M5')
+    .option('--pen-down-command <gcode>', 'Command lowering a servo pen', 'M3 S1000')
+    .option('--pen-delay <seconds>', 'Dwell after each pen move', '0')
+    .option('--draw-feed <rate>', 'Drawing feed rate in machine units per minute', '1500')
+    .option('--travel-feed <rate>', 'Pen-up feed rate in machine units per minute', '3000')
+    .addOption(
+      new Option('--origin <corner>', 'Canvas corner placed at machine 0,0').choices(ORIGINS).default('bottom-left')
+    )
+    .option('--flip-x', 'Negate machine X')
+    .option('--flip-y', 'Negate machine Y')
+    .addOption(new Option('--machine-units <unit>', 'Machine units').choices(MACHINE_UNITS).default('mm'))
+    .option('--machine-scale <factor>', 'Extra scale applied to machine coordinates', '1')
+    .option('--hpgl-units <number>', 'HPGL plotter units per millimetre', '40')
+    .option('--chunk-size <points>', 'Most points per HPGL PD command, for small plotter buffers')
+    .option('--velocity <cm/s>', 'HPGL pen speed')
+    .option('--draw-speed <mm/s>', 'Pen-down speed for the plot time estimate', '40')
+    .option('--travel-speed <mm/s>', 'Pen-up speed for the plot time estimate', '100')
+    .option('--acceleration <mm/s2>', 'Acceleration for the plot time estimate')
+    .option('--pen-lift-time <seconds>', 'Time to lower and raise the pen once, for the plot time estimate', '0.15')
+    .option('--pen-change-time <seconds>', 'Time to swap pens between --pens layers, for the plot time estimate', '30');
+}
+
+/**
+ * Register the start point placement options of commands that seed lines themselves
+ */
+function addSeedingOptions(command: Command): Command {
+  return command
+    .addOption(
+      new Option('--seeding <name>', 'How start points are placed')
+        .choices(SEEDING_STRATEGIES)
+        .default('random')
+    )
+    .option('--seed-spacing <number>', 'Distance between seeds (default from the line count)')
+    .option('--seed-jitter <ratio>', 'Fraction of a cell jittered-grid seeds may move', '1')
+    .option('--seed-center <x,y>', 'Centre of rings and spiral seeding')
+    .option('--seed-edges <list>', `Comma-separated edges for edge seeding (${CANVAS_EDGES.join(', ')})`)
+    .option('--seed-path <file>', 'JSON file of {x, y} points for polyline seeding');
+}
+
+/**
+ * Write a plot to `path`, or with --split-pens one file per pen beside
+ * it (flow-lines.svg becomes flow-lines-pen1.svg, ...)
+ */
+function writeOutputs(plot: Plot, options: Record<string, string>, path: string): string {
+  const outputs = renderOutputs(plot, options);
+
+  if (!options.splitPens) {
+    writeFileSync(path, outputs[0], 'utf-8');
+    return path;
+  }
+
+  const { dir, name, ext } = parse(path);
+  outputs.forEach((output, index) => {
+    writeFileSync(join(dir, `${name}-pen${index + 1}${ext || FORMAT_EXTENSIONS[options.format]}`), output, 'utf-8');
+  });
+  return join(dir, `${name}-pen*${ext || FORMAT_EXTENSIONS[options.format]}`);
+}
+
+/**
+ * The --output path, with a .svg extension swapped for the --format's
+ */
+function outputPath(options: Record<string, string>): string {
+  const path = resolve(process.cwd(), options.output);
+  const { dir, name, ext } = parse(path);
+  return ext.toLowerCase() === '.svg' ? join(dir, name + FORMAT_EXTENSIONS[options.format]) : path;
+}
+
+/**
+ * Count the lines ended by each rule, most common first, e.g. "bounds 80, max-steps 20"
+ */
+function summarizeStopReasons(result: FlowLinesResult): string {
+  const counts = new Map<string, number>();
+  for (const line of result.lines) {
+    const reason = line.stopReason ?? 'unknown';
+    counts.set(reason, (counts.get(reason) ?? 0) + 1);
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => `${reason} ${count}`)
+    .join(', ') || 'none';
+}
+
+/**
+ * Print what plotting the result involves, in drawing order
+ */
+function printPlotStats({ result, layers }: Plot, options: Record<string, string>): void {
+  const speeds = parsePlotSpeeds(options);
+  const stats = layers ? layeredPlotStats(layers, speeds) : plotStats(result, speeds);
+  const mm = (n: number) => `${n.toFixed(1)}mm`;
+  const changes = stats.penChanges > 0 ? `, ${stats.penChanges} pen change${stats.penChanges === 1 ? '' : 's'}` : '';
+
+  console.log(`  Paths: ${stats.paths} (${stats.points} points, ${stats.penLifts} pen lifts${changes})`);
+  console.log(`  Pen down: ${mm(stats.penDownLength)}, pen up: ${mm(stats.penUpDistance)}`);
+  if (stats.bounds) {
+    const { minX, minY, maxX, maxY } = stats.bounds;
+    console.log(`  Bounds: ${minX.toFixed(1)},${minY.toFixed(1)} to ${maxX.toFixed(1)},${maxY.toFixed(1)}mm`);
+  }
+  console.log(`  Estimated plot time: ${formatDuration(stats.duration)}`);
+}
+
+function writeResult(
+  result: FlowLinesResult,
+  options: Record<string, string>,
+  generationOptions: FlowLinesOptions
+): void {
+  console.log(`  Seed: ${result.seed}`);
+  console.log(`  Generated ${result.lines.length} lines`);
+  console.log(`  Stopped by: ${summarizeStopReasons(result)}`);
+
+  const plot = planPlot(result, parsePlotSettings(options), generationOptions);
+  if (plot.travel) {
+    const { before, after } = plot.travel;
+    const saved = before > 0 ? Math.round((1 - after / before) * 100) : 0;
+    const mm = (pixels: number) => `${fromPixels(pixels, 'mm').toFixed(1)}mm`;
+    console.log(`  Pen-up travel: ${mm(before)} -> ${mm(after)} (${saved}% less)`);
+  }
+  printPlotStats(plot, options);
+
+  const savedPath = writeOutputs(plot, options, outputPath(options));
+  console.log(`\nSaved to: ${savedPath}`);
+}
+
+/**
+ * The flow-lines command line program. Actions throw an Error for invalid
+ * options or input files, for the caller to report.
+ */
+export function createProgram(): Command {
+  const program = new Command();
+
+  program
+    .name('flow-lines')
+    .description('Generate beautiful flow line art for pen plotters')
+    .version('0.1.0');
+
+  addSeedingOptions(addCommonOptions(
+    program
+      .command('generate')
+      .description('Generate a flow lines SVG')
+      .option('-l, --lines <number>', 'Number of flow lines', '100')
+  )).action((options) => {
+    const flowOptions: FlowLinesOptions = {
+      ...parseCommonOptions(options),
+      lineCount: parseInt(options.lines, 10),
+      seeding: parseSeedingOptions(options),
+    };
+
+    console.log('Generating flow lines...');
+    console.log(`  Size: ${describeSize(options)}`);
+    console.log(`  Lines: ${flowOptions.lineCount}`);
+    console.log(`  Seeding: ${options.seeding}`);
+
+    const result = generate(() => generateFlowLines(flowOptions));
+    writeResult(result, options, flowOptions);
+  });
+
+  addCommonOptions(
+    program
+      .command('grid')
+      .description('Generate flow lines from a grid of starting points')
+      .option('-g, --grid-spacing <number>', 'Spacing between grid points', '20')
+  ).action((options) => {
+    console.log('Generating flow lines from grid...');
+    console.log(`  Size: ${describeSize(options)}`);
+    console.log(`  Grid spacing: ${options.gridSpacing}`);
+
+    const commonOptions = parseCommonOptions(options);
+    const gridSpacing = parseInt(options.gridSpacing, 10);
+    const result = generate(() => generateFlowLinesGrid({ ...commonOptions, gridSpacing }));
+
+    // Embedded as the grid's start points, so the SVG regenerates like any other
+    const startPoints = gridSeeds(commonOptions.width, commonOptions.height, commonOptions.margin ?? 20, gridSpacing);
+    writeResult(result, options, { ...commonOptions, lineCount: startPoints.length, startPoints });
+  });
+
+  addSeedingOptions(addCommonOptions(
+    program
+      .command('frames')
+      .description('Render a time-varying field as a numbered sequence of SVG frames')
+      .option('-l, --lines <number>', 'Number of flow lines', '100')
+      .option('--frames <number>', 'Number of frames', '60')
+      .option('--time-step <number>', 'Field time advanced per frame', '0.01')
+      .option('--loop', 'Make the last frame lead seamlessly back into the first')
+  )).action((options) => {
+    const flowOptions: FlowLinesOptions = {
+      ...parseCommonOptions(options),
+      lineCount: parseInt(options.lines, 10),
+      seeding: parseSeedingOptions(options),
+    };
+    const frameCount = parseInt(options.frames, 10);
+    const plotSettings = parsePlotSettings(options);
+
+    console.log('Generating flow line frames...');
+    console.log(`  Size: ${describeSize(options)}`);
+    console.log(`  Frames: ${frameCount}`);
+
+    const frames = generate(() => generateFrames(flowOptions, {
+      frames: frameCount,
+      timeStep: parseFloat(options.timeStep),
+      loop: Boolean(options.loop),
+    }));
+
+    // flow-lines.svg becomes flow-lines-0001.svg, flow-lines-0002.svg, ...
+    const { dir, name, ext } = parse(outputPath(options));
+    const digits = Math.max(4, String(frameCount).length);
+    frames.forEach((result, index) => {
+      const framePath = join(dir, `${name}-${String(index + 1).padStart(digits, '0')}${ext || FORMAT_EXTENSIONS[options.format]}`);
+      writeOutputs(planPlot(result, plotSettings), options, framePath);
+    });
+
+    console.log(`  Seed: ${frames[0]?.seed}`);
+    console.log(`\nSaved ${frames.length} frames to: ${join(dir, `${name}-*${ext || FORMAT_EXTENSIONS[options.format]}`)}`);
+  });
+
+  program
+    .command('regenerate')
+    .description('Generate an SVG again from the settings embedded in it')
+    .argument('<file>', 'SVG written by the generate or grid command')
+    .option('-o, --output <file>', 'Output file (default: the input name with -regenerated)')
+    .action((file: string, options) => {
+      const metadata = loadFile(file, (contents) => parseSVGMetadata(contents.toString('utf-8')));
+      const { options: flowOptions, svg, plot: plotSettings } = metadata;
+
+      if (metadata.version !== VERSION) {
+        console.log(`Note: written by flow-lines ${metadata.version}, regenerating with ${VERSION}; the drawing may differ`);
+      }
+      if (metadata.omitted.length > 0) {
+        console.log(`Note: ${metadata.omitted.join(', ')} could not be embedded; the drawing will differ`);
+      }
+
+      console.log('Regenerating flow lines...');
+      const unit = svg.unit ?? 'px';
+      const size = (pixels: number) => Number(fromPixels(pixels, unit).toFixed(2));
+      console.log(`  Size: ${size(flowOptions.width)}x${size(flowOptions.height)}${unit === 'px' ? '' : unit}`);
+      console.log(`  Lines: ${flowOptions.lineCount}`);
+      console.log(`  Seed: ${flowOptions.seed}`);
+      console.log(`  Algorithm version: ${flowOptions.algorithmVersion ?? LATEST_ALGORITHM_VERSION}`);
+      if (plotSettings.pens) {
+        const layer = plotSettings.layer === undefined ? '' : `, layer ${plotSettings.layer + 1} only`;
+        console.log(`  Pens: ${plotSettings.pens.map((pen) => pen.color).join(', ')}${layer}`);
+      }
+      if (plotSettings.travel) {
+        console.log('  Optimized for pen travel');
+      }
+
+      const output = regenerateSVG(metadata);
+
+      const { dir, name } = parse(resolve(process.cwd(), file));
+      const path = options.output ? resolve(process.cwd(), options.output) : join(dir, `${name}-regenerated.svg`);
+      writeFileSync(path, output, 'utf-8');
+      console.log(`\nSaved to: ${path}`);
+    });
+
+  return program;
+}
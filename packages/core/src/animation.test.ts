@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { generateFrames } from './animation.js';
+import { generateFlowLines } from './flow-lines.js';
+import { FlowField } from './flow-field.js';
+
+const options = { width: 200, height: 200, lineCount: 10, seed: 42, maxSteps: 50 };
+
+describe('generateFrames', () => {
+  it('should render one result per frame with a shared seed', () => {
+    const frames = generateFrames({ ...options, seed: undefined }, { frames: 3 });
+
+    expect(frames).toHaveLength(3);
+    expect(new Set(frames.map((frame) => frame.seed)).size).toBe(1);
+  });
+
+  it('should advance time by the time step', () => {
+    const frames = generateFrames(options, { frames: 2, timeStep: 0.5, startTime: 1 });
+
+    expect(frames[1]).toEqual(generateFlowLines({ ...options, time: 1.5 }));
+  });
+
+  it('should evolve lines gradually from a shared start', () => {
+    const [first, second] = generateFrames(options, { frames: 2, timeStep: 0.01 });
+
+    expect(second.lines[0].points[0]).toEqual(first.lines[0].points[0]);
+    expect(second.lines[0].points[10]).not.toEqual(first.lines[0].points[10]);
+    expect(Math.hypot(
+      second.lines[0].points[10].x - first.lines[0].points[10].x,
+      second.lines[0].points[10].y - first.lines[0].points[10].y
+    )).toBeLessThan(5);
+  });
+
+  it('should loop back to the first frame', () => {
+    const frames = generateFrames(options, { frames: 4, timeStep: 0.25, loop: true });
+    const next = generateFlowLines({ ...options, time: 1, loopDuration: 1 });
+
+    expect(next.lines[0].points[20].x).toBeCloseTo(frames[0].lines[0].points[20].x, 2);
+    expect(next.lines[0].points[20].y).toBeCloseTo(frames[0].lines[0].points[20].y, 2);
+  });
+
+  it('should refuse a prebuilt field', () => {
+    const field = new FlowField({ width: 200, height: 200, resolution: 10 });
+
+    expect(() => generateFrames({ ...options, field }, { frames: 2 })).toThrow();
+  });
+});
@@ -0,0 +1,47 @@
+import { generateFlowLines, FlowLinesOptions, FlowLinesResult } from './flow-lines.js';
+
+export interface FrameOptions {
+  /** Number of frames to render */
+  frames: number;
+  /** Field time advanced per frame, in noise units (default 0.01) */
+  timeStep?: number;
+  /** Field time of the first frame (default `options.time` or 0) */
+  startTime?: number;
+  /**
+   * Make the sequence loop: the frame after the last one matches the
+   * first, so it can repeat without a jump
+   */
+  loop?: boolean;
+}
+
+/**
+ * Render flow lines at successive moments of a time-varying field.
+ * Every frame shares one seed and therefore the same start points, so
+ * lines morph smoothly from frame to frame.
+ */
+export function generateFrames(
+  options: FlowLinesOptions,
+  frameOptions: FrameOptions
+): FlowLinesResult[] {
+  if (options.field) {
+    throw new Error('Frames are generated from field options, not a prebuilt field');
+  }
+
+  const { frames, timeStep = 0.01, startTime = options.time ?? 0, loop = false } = frameOptions;
+  const seed = options.seed ?? Math.floor(Math.random() * 1000000);
+  const loopDuration = loop ? frames * timeStep : options.loopDuration;
+  const results: FlowLinesResult[] = [];
+
+  for (let frame = 0; frame < frames; frame++) {
+    results.push(
+      generateFlowLines({
+        ...options,
+        seed,
+        time: startTime + frame * timeStep,
+        loopDuration,
+      })
+    );
+  }
+
+  return results;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { CurlNoise } from './curl-noise.js';
+import { SimplexNoise } from './noise.js';
+import { PerlinNoise } from './perlin-noise.js';
+
+function divergence(noise: CurlNoise, x: number, y: number): number {
+  const h = 1e-2;
+  const dx = (noise.curl(x + h, y, 2).x - noise.curl(x - h, y, 2).x) / (2 * h);
+  const dy = (noise.curl(x, y + h, 2).y - noise.curl(x, y - h, 2).y) / (2 * h);
+  return dx + dy;
+}
+
+describe('CurlNoise', () => {
+  it('should be deterministic for a seeded base', () => {
+    const curl1 = new CurlNoise(new SimplexNoise(7)).curl(0.4, 0.9);
+    const curl2 = new CurlNoise(new SimplexNoise(7)).curl(0.4, 0.9);
+
+    expect(curl1).toEqual(curl2);
+  });
+
+  it('should be perpendicular to the gradient of its base', () => {
+    const base = new PerlinNoise(3);
+    const noise = new CurlNoise(base);
+    const h = 1e-4;
+    const gx = (base.fbm(1.2 + h, 0.7) - base.fbm(1.2 - h, 0.7)) / (2 * h);
+    const gy = (base.fbm(1.2, 0.7 + h) - base.fbm(1.2, 0.7 - h)) / (2 * h);
+    const curl = noise.curl(1.2, 0.7);
+
+    expect(curl.x * gx + curl.y * gy).toBeCloseTo(0, 4);
+  });
+
+  it('should be divergence free', () => {
+    const noise = new CurlNoise(new SimplexNoise(11));
+
+    for (let i = 0; i < 10; i++) {
+      const curl = noise.curl(i * 0.31, i * 0.17, 2);
+      const magnitude = Math.hypot(curl.x, curl.y);
+      expect(Math.abs(divergence(noise, i * 0.31, i * 0.17))).toBeLessThan(0.05 * (1 + magnitude));
+    }
+  });
+
+  it('should pass scalar noise through from its base', () => {
+    const base = new SimplexNoise(5);
+
+    expect(new CurlNoise(base).noise2D(0.3, 0.4)).toBe(base.noise2D(0.3, 0.4));
+  });
+});
@@ -0,0 +1,49 @@
+import type { Noise } from './noise-base.js';
+import type { Vector2D } from './flow-field.js';
+
+// Finite difference step in noise space
+const EPSILON = 1e-4;
+
+/**
+ * Divergence-free curl noise: the direction is the curl of another noise
+ * used as a stream function, so lines swirl without sources or sinks.
+ * As a scalar noise it returns the stream function itself.
+ */
+export class CurlNoise implements Noise {
+  readonly base: Noise;
+
+  constructor(base: Noise) {
+    this.base = base;
+  }
+
+  noise2D(x: number, y: number): number {
+    return this.base.noise2D(x, y);
+  }
+
+  fbm(
+    x: number,
+    y: number,
+    octaves?: number,
+    persistence?: number,
+    lacunarity?: number,
+    scale?: number
+  ): number {
+    return this.base.fbm(x, y, octaves, persistence, lacunarity, scale);
+  }
+
+  /**
+   * Curl of the fbm stream function at (x, y): (dψ/dy, -dψ/dx)
+   */
+  curl(
+    x: number,
+    y: number,
+    octaves?: number,
+    persistence?: number,
+    lacunarity?: number
+  ): Vector2D {
+    const psi = (px: number, py: number) => this.base.fbm(px, py, octaves, persistence, lacunarity);
+    const dx = (psi(x + EPSILON, y) - psi(x - EPSILON, y)) / (2 * EPSILON);
+    const dy = (psi(x, y + EPSILON) - psi(x, y - EPSILON)) / (2 * EPSILON);
+    return { x: dy, y: -dx };
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { warpPoint, warpedFbm, parseDomainWarp } from './domain-warp.js';
+import { SimplexNoise } from './noise.js';
+
+describe('warpPoint', () => {
+  it('should leave points alone with zero strength', () => {
+    const noise = new SimplexNoise(42);
+
+    expect(warpPoint(noise, 1.5, 2.5, { strength: 0 })).toEqual({ x: 1.5, y: 2.5 });
+  });
+
+  it('should offset by the warp noise', () => {
+    const noise = new SimplexNoise(42);
+    const point = warpPoint(noise, 1.5, 2.5, { strength: 2, scale: 0.5 }, 3);
+
+    expect(point.x).toBeCloseTo(1.5 + 2 * noise.fbm(0.75, 1.25, 3));
+    expect(point.y).toBeCloseTo(2.5 + 2 * noise.fbm(0.75 + 5.2, 1.25 + 1.3, 3));
+  });
+
+  it('should nest further passes', () => {
+    const noise = new SimplexNoise(42);
+    const once = warpPoint(noise, 1.5, 2.5, { iterations: 1 });
+    const twice = warpPoint(noise, 1.5, 2.5, { iterations: 2 });
+
+    expect(twice).not.toEqual(once);
+    expect(twice.x).toBeCloseTo(1.5 + noise.fbm(once.x + 1.7, once.y + 9.2));
+  });
+
+  it('should be deterministic for a seed', () => {
+    const a = warpedFbm(new SimplexNoise(7), 0.3, 0.9, { strength: 4, iterations: 2 });
+    const b = warpedFbm(new SimplexNoise(7), 0.3, 0.9, { strength: 4, iterations: 2 });
+
+    expect(a).toBe(b);
+  });
+});
+
+describe('parseDomainWarp', () => {
+  it('should keep numbers and drop other types', () => {
+    expect(parseDomainWarp({ strength: 2, scale: 'big', iterations: 2 })).toEqual({
+      strength: 2,
+      scale: undefined,
+      iterations: 2,
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import type { Noise } from './noise-base.js';
+import type { Vector2D } from './flow-field.js';
+
+/**
+ * Domain warping, after Inigo Quilez: noise coordinates are pushed around
+ * by further fbm passes before the noise is sampled, giving marbled,
+ * folded fields. With one iteration the field samples f(p + s·q(p));
+ * two iterations sample f(p + s·r(p + s·q(p))), and so on.
+ */
+export interface DomainWarp {
+  /** Offset applied per unit of warp noise, in noise-space units (default 1) */
+  strength?: number;
+  /** Frequency of the warp noise relative to the field noise (default 1) */
+  scale?: number;
+  /** Number of nested warp passes (default 1) */
+  iterations?: number;
+}
+
+/**
+ * Warped position of noise-space point (x, y)
+ */
+export function warpPoint(
+  noise: Noise,
+  x: number,
+  y: number,
+  warp: DomainWarp,
+  octaves?: number,
+  persistence?: number,
+  lacunarity?: number
+): Vector2D {
+  const strength = warp.strength ?? 1;
+  const scale = warp.scale ?? 1;
+  const iterations = warp.iterations ?? 1;
+  let wx = x;
+  let wy = y;
+
+  for (let i = 0; i < iterations; i++) {
+    // Distinct offsets decorrelate the two components and each pass
+    const qx = noise.fbm(wx * scale + 1.7 * i, wy * scale + 9.2 * i, octaves, persistence, lacunarity);
+    const qy = noise.fbm(
+      wx * scale + 5.2 + 8.3 * i,
+      wy * scale + 1.3 + 2.8 * i,
+      octaves,
+      persistence,
+      lacunarity
+    );
+    wx = x + strength * qx;
+    wy = y + strength * qy;
+  }
+
+  return { x: wx, y: wy };
+}
+
+/**
+ * Fractal Brownian Motion sampled at the warped position of (x, y)
+ */
+export function warpedFbm(
+  noise: Noise,
+  x: number,
+  y: number,
+  warp: DomainWarp,
+  octaves?: number,
+  persistence?: number,
+  lacunarity?: number
+): number {
+  const point = warpPoint(noise, x, y, warp, octaves, persistence, lacunarity);
+  return noise.fbm(point.x, point.y, octaves, persistence, lacunarity);
+}
+
+/**
+ * Read warp settings from JSON, ignoring values of the wrong type
+ */
+export function parseDomainWarp(json: Record<string, unknown>): DomainWarp {
+  return {
+    strength: typeof json.strength === 'number' ? json.strength : undefined,
+    scale: typeof json.scale === 'number' ? json.scale : undefined,
+    iterations: typeof json.iterations === 'number' ? json.iterations : undefined,
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { FlowField } from './flow-field.js';
+import { CurlNoise } from './curl-noise.js';
+import { PerlinNoise } from './perlin-noise.js';
+import { SimplexNoise } from './noise.js';
+import { warpedFbm } from './domain-warp.js';
+
+const baseOptions = {
+  width: 200,
+  height: 200,
+  resolution: 20,
+  seed: 42,
+  noiseScale: 0.01,
+};
+
+function angleDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % (Math.PI * 2);
+  return Math.min(d, Math.PI * 2 - d);
+}
+
+describe('FlowField', () => {
+  it('should default to nearest-cell sampling', () => {
+    const field = new FlowField(baseOptions);
+
+    expect(field.sampling).toBe('nearest');
+    expect(field.getAngle(21, 21)).toBe(field.getAngle(39, 39));
+  });
+
+  it('should match the cell angle at grid points when bilinear', () => {
+    const nearest = new FlowField(baseOptions);
+    const bilinear = new FlowField({ ...baseOptions, sampling: 'bilinear' });
+
+    expect(angleDistance(bilinear.getAngle(40, 60), nearest.getAngle(40, 60))).toBeLessThan(1e-9);
+  });
+
+  it('should match the cell angle at grid points when bicubic', () => {
+    const nearest = new FlowField(baseOptions);
+    const bicubic = new FlowField({ ...baseOptions, sampling: 'bicubic' });
+
+    expect(angleDistance(bicubic.getAngle(80, 100), nearest.getAngle(80, 100))).toBeLessThan(1e-9);
+  });
+
+  it('should vary smoothly across cell boundaries when interpolated', () => {
+    for (const sampling of ['bilinear', 'bicubic', 'direct'] as const) {
+      const field = new FlowField({ ...baseOptions, noiseScale: 0.002, sampling });
+
+      for (let x = 10; x < 190; x += 0.5) {
+        expect(angleDistance(field.getAngle(x, 90), field.getAngle(x + 0.5, 90))).toBeLessThan(0.2);
+      }
+    }
+  });
+
+  it('should evaluate the noise at the exact point when direct', () => {
+    const direct = new FlowField({ ...baseOptions, sampling: 'direct' });
+    const nearest = new FlowField(baseOptions);
+
+    // Grid points coincide with the cell origin used by the grid
+    expect(angleDistance(direct.getAngle(60, 60), nearest.getAngle(60, 60))).toBeLessThan(1e-9);
+  });
+
+  it('should keep bounds to the clip shape inside the margin', () => {
+    const field = new FlowField({
+      ...baseOptions,
+      clip: { type: 'circle', center: { x: 100, y: 100 }, radius: 50 },
+    });
+
+    expect(field.isInBounds(100, 100, 20)).toBe(true);
+    expect(field.isInBounds(30, 30, 20)).toBe(false);
+    expect(field.isInCanvas(30, 30, 20)).toBe(true);
+    expect(field.isInBounds(100, 145, 60)).toBe(false);
+  });
+
+  it('should return unit vectors', () => {
+    const field = new FlowField({ ...baseOptions, sampling: 'bicubic' });
+    const vector = field.getVector(33, 77);
+
+    expect(Math.hypot(vector.x, vector.y)).toBeCloseTo(1);
+  });
+
+  it('should build the field from the selected noise type', () => {
+    const field = new FlowField({ ...baseOptions, noiseType: 'perlin', sampling: 'direct' });
+    const expected = new PerlinNoise(42).fbm(0.33, 0.77, 4, 0.5, 2) * Math.PI * 2;
+
+    expect(angleDistance(field.getAngle(33, 77), expected)).toBeLessThan(1e-9);
+  });
+
+  it('should follow the curl of its base for curl noise', () => {
+    const field = new FlowField({ ...baseOptions, noiseType: 'curl', curlBase: 'perlin', sampling: 'direct' });
+    const curl = new CurlNoise(new PerlinNoise(42)).curl(0.33, 0.77, 4, 0.5, 2);
+
+    expect(angleDistance(field.getAngle(33, 77), Math.atan2(curl.y, curl.x))).toBeLessThan(1e-9);
+  });
+
+  it('should sample the noise at warped coordinates', () => {
+    const warp = { strength: 2, scale: 0.5, iterations: 2 };
+    const field = new FlowField({ ...baseOptions, warp, sampling: 'direct' });
+    const noise = new SimplexNoise(42);
+    const expected = warpedFbm(noise, 0.33, 0.77, warp, 4, 0.5, 2) * Math.PI * 2;
+
+    expect(angleDistance(field.getAngle(33, 77), expected)).toBeLessThan(1e-9);
+    expect(angleDistance(field.getAngle(33, 77), new FlowField(baseOptions).getAngle(33, 77)))
+      .toBeGreaterThan(0);
+  });
+
+  it('should evolve smoothly with time', () => {
+    const before = new FlowField({ ...baseOptions, time: 1 });
+    const after = new FlowField({ ...baseOptions, time: 1.01 });
+
+    expect(before.getAngle(33, 77)).not.toBe(after.getAngle(33, 77));
+    expect(angleDistance(before.getAngle(33, 77), after.getAngle(33, 77))).toBeLessThan(0.2);
+  });
+
+  it('should match across opposite edges when tileable', () => {
+    for (const sampling of ['nearest', 'direct'] as const) {
+      const field = new FlowField({ ...baseOptions, tileable: true, sampling });
+
+      expect(angleDistance(field.getAngle(0, 55), field.getAngle(200, 55))).toBeLessThan(1e-9);
+      expect(angleDistance(field.getAngle(45, 0), field.getAngle(45, 200))).toBeLessThan(1e-9);
+    }
+  });
+
+  it('should keep bilinear sampling continuous across the seam when tileable', () => {
+    const field = new FlowField({ ...baseOptions, tileable: true, sampling: 'bilinear' });
+
+    expect(angleDistance(field.getAngle(199.9, 55), field.getAngle(0, 55))).toBeLessThan(0.05);
+  });
+});
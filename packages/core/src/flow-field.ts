@@ -1,4 +1,25 @@
-import { SimplexNoise, createNoise } from './noise.js';
+import { VERSIONED_NOISE, noiseAngle, NoiseType } from './noise.js';
+import type { Noise } from './noise-base.js';
+import type { WorleyMode } from './worley-noise.js';
+import { warpedFbm, DomainWarp } from './domain-warp.js';
+import { LayeredNoise, NoiseLayer } from './layers.js';
+import { applyInfluences, Influence } from './influences.js';
+import { applyGuides, Guide } from './guides.js';
+import { ImageMap, DirectionMap, DirectionMapMode, applyDirectionMap } from './image-map.js';
+import { containsPoint, Shape } from './shapes.js';
+import { applyObstacles, isBlocked, Obstacle } from './obstacles.js';
+import { resolveAlgorithmVersion, AlgorithmVersion } from './version.js';
+
+/**
+ * How the field is sampled between grid cells
+ * - nearest: angle of the cell containing the point
+ * - bilinear: blend of the four surrounding cells
+ * - bicubic: Catmull-Rom blend of the surrounding 4x4 cells
+ * - direct: evaluate the noise at the exact point, bypassing the grid
+ */
+export type SamplingMode = 'nearest' | 'bilinear' | 'bicubic' | 'direct';
+
+export const SAMPLING_MODES: readonly SamplingMode[] = ['nearest', 'bilinear', 'bicubic', 'direct'];
 
 export interface FlowFieldOptions {
   width: number;
@@ -9,6 +30,45 @@ export interface FlowFieldOptions {
   octaves?: number;
   persistence?: number;
   lacunarity?: number;
+  /** Noise algorithm behind the field (default simplex) */
+  noiseType?: NoiseType;
+  /** Feature distance for Worley noise (default f1) */
+  worleyMode?: WorleyMode;
+  /** Stream function noise for curl noise (default simplex) */
+  curlBase?: Exclude<NoiseType, 'curl'>;
+  /**
+   * Moment to sample the noise at, in noise units along a third noise
+   * dimension. Small steps (around 0.01) evolve the field smoothly.
+   */
+  time?: number;
+  /** Period after which the field returns to its state at time 0 */
+  loopDuration?: number;
+  /**
+   * Make the noise repeat across the canvas so opposite edges match.
+   * Grid sampling only tiles exactly when the canvas size is a multiple
+   * of the resolution; direct sampling always does.
+   */
+  tileable?: boolean;
+  /** Offset noise coordinates by further fbm passes before sampling */
+  warp?: DomainWarp;
+  sampling?: SamplingMode;
+  /**
+   * Noise layers blended into the field. When given they replace the
+   * single noise, and the noise options above become layer defaults.
+   */
+  layers?: NoiseLayer[];
+  /** Attractors and repellers bending the field near them */
+  influences?: Influence[];
+  /** Strokes whose direction the field follows near them */
+  guides?: Guide[];
+  /** Image whose gradient or hue steers the field */
+  directionMap?: DirectionMap;
+  /** Region of the canvas lines are kept to, on top of the margin */
+  clip?: Shape;
+  /** Shapes the field flows around */
+  obstacles?: Obstacle[];
+  /** Version of the noise algorithms (default the latest) */
+  algorithmVersion?: AlgorithmVersion;
 }
 
 export interface Vector2D {
@@ -25,12 +85,22 @@ export class FlowField {
   readonly resolution: number;
   readonly cols: number;
   readonly rows: number;
+  readonly sampling: SamplingMode;
+  readonly tileable: boolean;
+  readonly clip?: Shape;
+  readonly obstacles: Obstacle[];
+  readonly algorithmVersion: AlgorithmVersion;
 
-  private noise: SimplexNoise;
+  private noise: Noise;
   private noiseScale: number;
   private octaves: number;
   private persistence: number;
   private lacunarity: number;
+  private warp?: DomainWarp;
+  private layers?: LayeredNoise;
+  private influences: Influence[];
+  private guides: Guide[];
+  private directionMap?: { map: ImageMap; mode: DirectionMapMode; strength: number };
   private field: number[][];
 
   constructor(options: FlowFieldOptions) {
@@ -41,11 +111,52 @@ export class FlowField {
     this.octaves = options.octaves ?? 4;
     this.persistence = options.persistence ?? 0.5;
     this.lacunarity = options.lacunarity ?? 2;
+    this.sampling = options.sampling ?? 'nearest';
+    this.warp = options.warp;
+    this.tileable = options.tileable ?? false;
+    this.clip = options.clip;
+    this.algorithmVersion = resolveAlgorithmVersion(options.algorithmVersion);
 
     this.cols = Math.ceil(this.width / this.resolution);
     this.rows = Math.ceil(this.height / this.resolution);
 
-    this.noise = createNoise(options.seed);
+    this.influences = options.influences ?? [];
+    this.guides = options.guides ?? [];
+    this.obstacles = options.obstacles ?? [];
+    if (options.directionMap) {
+      this.directionMap = {
+        map: new ImageMap(options.directionMap.image, this.width, this.height),
+        mode: options.directionMap.mode ?? 'contour',
+        strength: options.directionMap.strength ?? 1,
+      };
+    }
+
+    this.noise = VERSIONED_NOISE[this.algorithmVersion](options.seed, {
+      type: options.noiseType,
+      worleyMode: options.worleyMode,
+      curlBase: options.curlBase,
+      time: options.time,
+      loopDuration: options.loopDuration,
+      tile: this.tileable
+        ? { width: this.width * this.noiseScale, height: this.height * this.noiseScale }
+        : undefined,
+    });
+    if (options.layers && options.layers.length > 0) {
+      this.layers = new LayeredNoise(options.layers, {
+        seed: options.seed,
+        noiseScale: this.noiseScale,
+        octaves: this.octaves,
+        persistence: this.persistence,
+        lacunarity: this.lacunarity,
+        noiseType: options.noiseType,
+        worleyMode: options.worleyMode,
+        curlBase: options.curlBase,
+        warp: options.warp,
+        time: options.time,
+        loopDuration: options.loopDuration,
+        tileSize: this.tileable ? { width: this.width, height: this.height } : undefined,
+      }, this.algorithmVersion);
+    }
     this.field = this.generateField();
   }
 
@@ -55,15 +166,12 @@ export class FlowField {
     for (let y = 0; y < this.rows; y++) {
       field[y] = [];
       for (let x = 0; x < this.cols; x++) {
-        const noiseValue = this.noise.fbm(
-          x * this.noiseScale * this.resolution,
-          y * this.noiseScale * this.resolution,
-          this.octaves,
-          this.persistence,
-          this.lacunarity
-        );
-        // Map noise to angle (0 to 2*PI)
-        field[y][x] = noiseValue * Math.PI * 2;
+        field[y][x] = this.layers
+          ? this.layers.angle(x * this.resolution, y * this.resolution)
+          : this.noiseAngle(
+            x * this.noiseScale * this.resolution,
+            y * this.noiseScale * this.resolution
+          );
       }
     }
 
@@ -71,19 +179,144 @@ export class FlowField {
   }
 
   /**
-   * Get the angle at a given position
+   * Map noise at the given noise-space coordinates to an angle (0 to 2*PI)
    */
-  getAngle(x: number, y: number): number {
-    const col = Math.floor(x / this.resolution);
-    const row = Math.floor(y / this.resolution);
+  private noiseAngle(nx: number, ny: number): number {
+    return noiseAngle(
+      this.noise,
+      nx,
+      ny,
+      this.octaves,
+      this.persistence,
+      this.lacunarity,
+      this.warp
+    );
+  }
+
+  private cellAngle(col: number, row: number): number {
+    if (this.tileable) {
+      const wrappedCol = ((col % this.cols) + this.cols) % this.cols;
+      const wrappedRow = ((row % this.rows) + this.rows) % this.rows;
+      return this.field[wrappedRow][wrappedCol];
+    }
 
-    // Clamp to bounds
     const clampedCol = Math.max(0, Math.min(col, this.cols - 1));
     const clampedRow = Math.max(0, Math.min(row, this.rows - 1));
-
     return this.field[clampedRow][clampedCol];
   }
 
+  /**
+   * Get the angle at a given position
+   */
+  getAngle(x: number, y: number): number {
+    const angle = this.sampleAngle(x, y);
+
+    if (
+      !this.directionMap &&
+      this.guides.length === 0 &&
+      this.influences.length === 0 &&
+      this.obstacles.length === 0
+    ) {
+      return angle;
+    }
+
+    let vector: Vector2D = { x: Math.cos(angle), y: Math.sin(angle) };
+    if (this.directionMap) {
+      const { map, mode, strength } = this.directionMap;
+      vector = applyDirectionMap(map, mode, strength, x, y, vector);
+    }
+    vector = applyGuides(this.guides, x, y, vector);
+    vector = applyInfluences(this.influences, x, y, vector);
+    vector = applyObstacles(this.obstacles, x, y, vector);
+    return Math.atan2(vector.y, vector.x);
+  }
+
+  /**
+   * Noise value behind the field at the exact point, about -1 to 1,
+   * before it is turned into an angle. With layers, the bottom layer's.
+   */
+  getNoise(x: number, y: number): number {
+    if (this.layers) {
+      return this.layers.value(x, y);
+    }
+    const nx = x * this.noiseScale;
+    const ny = y * this.noiseScale;
+    return this.warp
+      ? warpedFbm(this.noise, nx, ny, this.warp, this.octaves, this.persistence, this.lacunarity)
+      : this.noise.fbm(nx, ny, this.octaves, this.persistence, this.lacunarity);
+  }
+
+  /**
+   * Angle of the noise field alone, sampled per `sampling`
+   */
+  private sampleAngle(x: number, y: number): number {
+    switch (this.sampling) {
+      case 'direct':
+        return this.layers
+          ? this.layers.angle(x, y)
+          : this.noiseAngle(x * this.noiseScale, y * this.noiseScale);
+      case 'bilinear':
+        return this.sampleBilinear(x / this.resolution, y / this.resolution);
+      case 'bicubic':
+        return this.sampleBicubic(x / this.resolution, y / this.resolution);
+      default:
+        return this.cellAngle(Math.floor(x / this.resolution), Math.floor(y / this.resolution));
+    }
+  }
+
+  /**
+   * Blend the four surrounding cells as unit vectors so angles
+   * near the 0/2*PI seam don't average to the opposite direction
+   */
+  private sampleBilinear(gx: number, gy: number): number {
+    const col = Math.floor(gx);
+    const row = Math.floor(gy);
+    const tx = gx - col;
+    const ty = gy - row;
+
+    let sx = 0;
+    let sy = 0;
+    for (let j = 0; j <= 1; j++) {
+      for (let i = 0; i <= 1; i++) {
+        const weight = (i ? tx : 1 - tx) * (j ? ty : 1 - ty);
+        const angle = this.cellAngle(col + i, row + j);
+        sx += weight * Math.cos(angle);
+        sy += weight * Math.sin(angle);
+      }
+    }
+
+    return Math.atan2(sy, sx);
+  }
+
+  /**
+   * Catmull-Rom interpolation of the surrounding 4x4 cells as unit vectors
+   */
+  private sampleBicubic(gx: number, gy: number): number {
+    const col = Math.floor(gx);
+    const row = Math.floor(gy);
+    const tx = gx - col;
+    const ty = gy - row;
+
+    const rowsX: number[] = [];
+    const rowsY: number[] = [];
+    for (let j = -1; j <= 2; j++) {
+      const cx: number[] = [];
+      const cy: number[] = [];
+      for (let i = -1; i <= 2; i++) {
+        const angle = this.cellAngle(col + i, row + j);
+        cx.push(Math.cos(angle));
+        cy.push(Math.sin(angle));
+      }
+      rowsX.push(catmullRom(cx[0], cx[1], cx[2], cx[3], tx));
+      rowsY.push(catmullRom(cy[0], cy[1], cy[2], cy[3], tx));
+    }
+
+    const sx = catmullRom(rowsX[0], rowsX[1], rowsX[2], rowsX[3], ty);
+    const sy = catmullRom(rowsY[0], rowsY[1], rowsY[2], rowsY[3], ty);
+
+    return Math.atan2(sy, sx);
+  }
+
   /**
    * Get the direction vector at a given position
    */
@@ -96,9 +329,17 @@ export class FlowField {
   }
 
   /**
-   * Check if a point is within the field bounds
+   * Check if a point is within the field bounds and the clip shape,
+   * and outside obstacles lines may not enter
    */
   isInBounds(x: number, y: number, margin: number = 0): boolean {
+    return this.isInCanvas(x, y, margin) && this.isInClip(x, y) && !this.isBlocked(x, y);
+  }
+
+  /**
+   * Check if a point is within the canvas rectangle shrunk by `margin`
+   */
+  isInCanvas(x: number, y: number, margin: number = 0): boolean {
     return (
       x >= margin &&
       x < this.width - margin &&
@@ -106,4 +347,32 @@ export class FlowField {
       y < this.height - margin
     );
   }
+
+  /**
+   * Check if a point is inside the clip shape, if there is one
+   */
+  isInClip(x: number, y: number): boolean {
+    return !this.clip || containsPoint(this.clip, x, y);
+  }
+
+  /**
+   * Check if a point is inside an obstacle lines may not enter
+   */
+  isBlocked(x: number, y: number): boolean {
+    return isBlocked(this.obstacles, x, y);
+  }
+}
+
+/**
+ * Catmull-Rom spline through p1..p2 with p0 and p3 as neighbours
+ */
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * (
+    2 * p1 +
+    (p2 - p0) * t +
+    (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 +
+    (3 * p1 - p0 - 3 * p2 + p3) * t3
+  );
 }
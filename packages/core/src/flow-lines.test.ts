@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { generateFlowLines, generateFlowLinesGrid } from './flow-lines.js';
+import { FlowField } from './flow-field.js';
+import { resolveAlgorithmVersion, LATEST_ALGORITHM_VERSION } from './version.js';
 
 describe('generateFlowLines', () => {
   it('should generate flow lines', () => {
@@ -112,6 +114,399 @@ describe('generateFlowLines', () => {
   });
 });
 
+describe('composed fields', () => {
+  it('should trace through noise layers', () => {
+    const result = generateFlowLines({
+      width: 400,
+      height: 400,
+      lineCount: 10,
+      seed: 42,
+      layers: [{ noiseScale: 0.002 }, { noiseScale: 0.02, weight: 0.2 }],
+    });
+
+    expect(result.lines.length).toBeGreaterThan(0);
+  });
+
+  it('should accept a prebuilt field', () => {
+    const field = new FlowField({
+      width: 400,
+      height: 400,
+      resolution: 10,
+      layers: [{ seed: 1 }, { seed: 2, blend: 'lerp' }],
+    });
+    const options = { width: 400, height: 400, lineCount: 10, seed: 42 };
+
+    const withField = generateFlowLines({ ...options, field });
+    const again = generateFlowLines({ ...options, field });
+    const plain = generateFlowLines(options);
+
+    expect(withField.lines).toEqual(again.lines);
+    expect(withField.lines).not.toEqual(plain.lines);
+  });
+});
+
+describe('bidirectional tracing', () => {
+  it('should place the start point inside the line', () => {
+    const start = { x: 200, y: 200 };
+    const forward = generateFlowLines({
+      width: 400,
+      height: 400,
+      lineCount: 1,
+      startPoints: [start],
+      seed: 42,
+      minLineLength: 1,
+    });
+    const both = generateFlowLines({
+      width: 400,
+      height: 400,
+      lineCount: 1,
+      startPoints: [start],
+      seed: 42,
+      minLineLength: 1,
+      bidirectional: true,
+    });
+
+    const points = both.lines[0].points;
+    const startIndex = points.findIndex((p) => p.x === start.x && p.y === start.y);
+
+    expect(startIndex).toBeGreaterThan(0);
+    expect(startIndex).toBeLessThan(points.length - 1);
+    expect(points.slice(startIndex, startIndex + 5)).toEqual(forward.lines[0].points.slice(0, 5));
+  });
+
+  it('should apply maxSteps to the combined line', () => {
+    const result = generateFlowLines({
+      width: 400,
+      height: 400,
+      lineCount: 20,
+      seed: 42,
+      maxSteps: 40,
+      bidirectional: true,
+    });
+
+    for (const line of result.lines) {
+      expect(line.points.length).toBeLessThanOrEqual(41);
+    }
+  });
+
+  it('should be supported by grid generation', () => {
+    const result = generateFlowLinesGrid({
+      width: 200,
+      height: 200,
+      gridSpacing: 50,
+      margin: 25,
+      seed: 42,
+      minLineLength: 1,
+      bidirectional: true,
+    });
+
+    const gridCoordinates = [25, 75, 125, 175];
+    const startsOnGrid = result.lines.map(
+      ({ points }) => gridCoordinates.includes(points[0].x) && gridCoordinates.includes(points[0].y)
+    );
+
+    expect(startsOnGrid).toContain(false);
+  });
+});
+
+describe('integrators', () => {
+  it('should trace lines with every integrator', () => {
+    for (const integrator of ['euler', 'midpoint', 'rk4', 'adaptive'] as const) {
+      const result = generateFlowLines({
+        width: 400,
+        height: 400,
+        lineCount: 10,
+        seed: 42,
+        integrator,
+      });
+
+      expect(result.lines.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should start each line at its start point regardless of integrator', () => {
+    const result = generateFlowLines({
+      width: 400,
+      height: 400,
+      lineCount: 1,
+      startPoints: [{ x: 200, y: 200 }],
+      seed: 42,
+      minLineLength: 1,
+      integrator: 'rk4',
+    });
+
+    expect(result.lines[0].points[0]).toEqual({ x: 200, y: 200 });
+  });
+});
+
+describe('evenly-spaced placement', () => {
+  it('should keep lines at least the test distance apart', () => {
+    const separation = 12;
+    const testDistance = 0.5;
+    const result = generateFlowLines({
+      width: 300,
+      height: 300,
+      lineCount: 5,
+      seed: 42,
+      separation,
+      testDistance,
+    });
+
+    expect(result.lines.length).toBeGreaterThan(5);
+
+    let closest = Infinity;
+    for (let i = 0; i < result.lines.length; i++) {
+      for (let j = i + 1; j < result.lines.length; j++) {
+        for (const a of result.lines[i].points) {
+          for (const b of result.lines[j].points) {
+            closest = Math.min(closest, Math.hypot(a.x - b.x, a.y - b.y));
+          }
+        }
+      }
+    }
+
+    expect(closest).toBeGreaterThanOrEqual(separation * testDistance);
+  });
+
+  it('should grow new lines beyond the initial seeds', () => {
+    const result = generateFlowLines({
+      width: 300,
+      height: 300,
+      lineCount: 1,
+      startPoints: [{ x: 150, y: 150 }],
+      seed: 7,
+      separation: 15,
+    });
+
+    expect(result.lines.length).toBeGreaterThan(1);
+  });
+
+  it('should be deterministic with same seed', () => {
+    const options = { width: 300, height: 300, lineCount: 3, seed: 99, separation: 10 };
+
+    expect(generateFlowLines(options)).toEqual(generateFlowLines(options));
+  });
+});
+
+describe('wrap-around tracing', () => {
+  const options = {
+    width: 200,
+    height: 200,
+    lineCount: 30,
+    seed: 42,
+    margin: 0,
+    maxSteps: 300,
+    tileable: true,
+    sampling: 'direct' as const,
+  };
+
+  it('should keep every wrapped piece on the canvas', () => {
+    const result = generateFlowLines(options);
+    const points = result.lines.flatMap((line) => line.points);
+
+    expect(points.every((p) => p.x >= 0 && p.x <= 200 && p.y >= 0 && p.y <= 200)).toBe(true);
+  });
+
+  it('should continue lines from the opposite edge', () => {
+    const wrapped = generateFlowLines(options);
+    const clipped = generateFlowLines({ ...options, wrap: false });
+    const onEdge = (p: { x: number; y: number }) => p.x === 0 || p.y === 0 || p.x === 200 || p.y === 200;
+    const startsOnEdge = wrapped.lines.filter((line) => onEdge(line.points[0]));
+
+    expect(wrapped.lines.length).toBeGreaterThan(clipped.lines.length);
+    expect(startsOnEdge.length).toBeGreaterThan(0);
+  });
+
+  it('should join pieces seamlessly at the seam', () => {
+    const result = generateFlowLines({ ...options, lineCount: 1 });
+    const [first, second] = result.lines;
+    const end = first.points[first.points.length - 1];
+    const start = second.points[0];
+
+    expect([end.x % 200, end.y % 200]).toEqual([start.x % 200, start.y % 200]);
+  });
+
+  it('should drop wrapped pieces shorter than the minimum length', () => {
+    const result = generateFlowLines({ ...options, minLineLength: 20 });
+
+    expect(result.lines.every((line) => line.points.length >= 20)).toBe(true);
+  });
+
+  it('should only trace within bounds without wrap', () => {
+    const result = generateFlowLines({ ...options, wrap: false, margin: 10 });
+    const points = result.lines.flatMap((line) => line.points.slice(1));
+
+    expect(points.every((p) => p.x >= 10 && p.x < 190 && p.y >= 10 && p.y < 190)).toBe(true);
+  });
+});
+
+describe('seeding strategies', () => {
+  it('should place start points with the chosen strategy', () => {
+    const result = generateFlowLines({
+      width: 200,
+      height: 200,
+      lineCount: 0,
+      seed: 42,
+      margin: 0,
+      minLineLength: 1,
+      seeding: { strategy: 'edge', edges: ['left'], spacing: 20 },
+    });
+
+    expect(result.lines).toHaveLength(10);
+    expect(result.lines.every((line) => line.points[0].x === 0.5)).toBe(true);
+  });
+
+  it('should keep the default random placement', () => {
+    const options = { width: 200, height: 200, lineCount: 10, seed: 42 };
+
+    expect(generateFlowLines({ ...options, seeding: { strategy: 'random' } }))
+      .toEqual(generateFlowLines(options));
+  });
+});
+
+describe('clip shapes', () => {
+  const circle = { type: 'circle' as const, center: { x: 100, y: 100 }, radius: 60 };
+  const distance = (p: { x: number; y: number }) => Math.hypot(p.x - 100, p.y - 100);
+
+  it('should seed and stop lines inside the shape', () => {
+    const result = generateFlowLines({ width: 200, height: 200, lineCount: 40, seed: 42, clip: circle });
+
+    expect(result.lines.length).toBeGreaterThan(0);
+    for (const line of result.lines) {
+      expect(distance(line.points[0])).toBeLessThan(60);
+      for (const point of line.points) {
+        expect(distance(point)).toBeLessThan(60);
+      }
+    }
+  });
+
+  it('should drop start points outside the shape', () => {
+    const result = generateFlowLines({
+      width: 200,
+      height: 200,
+      lineCount: 2,
+      seed: 42,
+      minLineLength: 1,
+      clip: circle,
+      startPoints: [{ x: 30, y: 30 }, { x: 100, y: 100 }],
+    });
+
+    expect(result.lines).toHaveLength(1);
+  });
+
+  it('should split lines at the edge in split mode', () => {
+    const options = { width: 200, height: 200, lineCount: 40, seed: 42, maxSteps: 1000, clip: circle };
+    const stopped = generateFlowLines(options);
+    const split = generateFlowLines({ ...options, clipMode: 'split' });
+
+    expect(split.lines.length).toBeGreaterThan(stopped.lines.length);
+    for (const line of split.lines) {
+      for (const point of line.points) {
+        expect(distance(point)).toBeLessThanOrEqual(60);
+      }
+    }
+    // Pieces end on the circle rather than a step short of it
+    const ends = split.lines.flatMap((line) => [line.points[0], line.points[line.points.length - 1]]);
+    expect(ends.some((point) => distance(point) > 59.9)).toBe(true);
+  });
+
+  it('should drop split pieces shorter than the minimum length', () => {
+    const options = { width: 200, height: 200, lineCount: 40, seed: 42, maxSteps: 1000, clip: circle };
+    const split = generateFlowLines({ ...options, clipMode: 'split', minLineLength: 15 });
+
+    expect(split.lines.length).toBeGreaterThan(0);
+    expect(split.lines.every((line) => line.points.length >= 15)).toBe(true);
+  });
+
+  it('should leave unclipped output unchanged', () => {
+    const options = { width: 200, height: 200, lineCount: 10, seed: 42 };
+
+    expect(generateFlowLines({ ...options, clipMode: 'split' })).toEqual(generateFlowLines(options));
+  });
+});
+
+describe('termination rules', () => {
+  // A spiral sink that lines would otherwise wind into
+  const sink = {
+    width: 200,
+    height: 200,
+    lineCount: 20,
+    seed: 42,
+    maxSteps: 2000,
+    influences: [{ type: 'attractor' as const, points: [{ x: 100, y: 100 }], radius: 200, strength: 0.7 }],
+  };
+
+  it('should report why each line ended', () => {
+    const result = generateFlowLines({ width: 200, height: 200, lineCount: 20, seed: 42, maxSteps: 50 });
+    const reasons = new Set(result.lines.map((line) => line.stopReason));
+
+    expect(reasons.has('max-steps')).toBe(true);
+    expect([...reasons].every((reason) => reason === 'max-steps' || reason === 'bounds')).toBe(true);
+  });
+
+  it('should stop lines spiralling into a sink', () => {
+    const piled = generateFlowLines(sink);
+    const stopped = generateFlowLines({ ...sink, selfIntersectionDistance: 3, stagnationDistance: 4 });
+    const count = (result: typeof piled) => result.lines.reduce((n, line) => n + line.points.length, 0);
+
+    expect(stopped.lines.some((line) => line.stopReason === 'self-intersection' || line.stopReason === 'stagnation'))
+      .toBe(true);
+    expect(count(stopped)).toBeLessThan(count(piled) / 2);
+  });
+
+  it('should limit the arc length of each line', () => {
+    const result = generateFlowLines({ ...sink, maxLength: 50 });
+
+    for (const line of result.lines) {
+      let length = 0;
+      for (let i = 1; i < line.points.length; i++) {
+        length += Math.hypot(line.points[i].x - line.points[i - 1].x, line.points[i].y - line.points[i - 1].y);
+      }
+      expect(length).toBeLessThanOrEqual(50);
+    }
+    expect(result.lines.some((line) => line.stopReason === 'max-length')).toBe(true);
+  });
+
+  it('should vary line lengths deterministically with length jitter', () => {
+    const options = { ...sink, maxSteps: 40 };
+    const lengths = generateFlowLines({ ...options, lengthJitter: 0.5 }).lines
+      .filter((line) => line.stopReason === 'max-steps')
+      .map((line) => line.points.length);
+
+    expect(new Set(lengths).size).toBeGreaterThan(5);
+    expect(Math.min(...lengths)).toBeGreaterThanOrEqual(21);
+    expect(Math.max(...lengths)).toBeLessThanOrEqual(41);
+    expect(generateFlowLines({ ...options, lengthJitter: 0.5 }))
+      .toEqual(generateFlowLines({ ...options, lengthJitter: 0.5 }));
+  });
+
+  it('should reject length jitter outside 0 to 1', () => {
+    for (const lengthJitter of [-0.1, 1.5, NaN]) {
+      expect(() => generateFlowLines({ ...sink, lengthJitter })).toThrow('Length jitter must be between 0 and 1');
+    }
+  });
+});
+
+describe('algorithm versions', () => {
+  const options = { width: 200, height: 200, lineCount: 10, seed: 42 };
+
+  it('should draw with the latest version by default', () => {
+    expect(new FlowField({ ...options, resolution: 10 }).algorithmVersion).toBe(LATEST_ALGORITHM_VERSION);
+    expect(generateFlowLines(options)).toEqual(
+      generateFlowLines({ ...options, algorithmVersion: LATEST_ALGORITHM_VERSION })
+    );
+  });
+
+  it('should build the field with a pinned version', () => {
+    expect(new FlowField({ ...options, resolution: 10, algorithmVersion: 1 }).algorithmVersion).toBe(1);
+  });
+
+  it('should reject versions this release does not have', () => {
+    const version: number = LATEST_ALGORITHM_VERSION + 1;
+    expect(() => resolveAlgorithmVersion(version)).toThrow(`Unknown algorithm version ${version}`);
+  });
+});
+
 describe('generateFlowLinesGrid', () => {
   it('should generate flow lines from grid points', () => {
     const result = generateFlowLinesGrid({
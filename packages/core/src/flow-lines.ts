@@ -1,4 +1,13 @@
 import { FlowField, FlowFieldOptions } from './flow-field.js';
+import { SpatialHash } from './spatial-hash.js';
+import { integrate, IntegratorType, AdaptiveOptions, VectorSampler } from './integrators.js';
+import { ImageMap, DensityMap } from './image-map.js';
+import { splitAtSeams, wrapPoint } from './geometry.js';
+import { generateSeeds, gridSeeds, createRandom, SeedingOptions, Seeder } from './seeding.js';
+import { LineMonitor, StopReason, TerminationRules } from './termination.js';
+import { describeLine, LineMetadata } from './line-metadata.js';
+import { clipPolyline, ClipMode } from './shapes.js';
+import { resolveAlgorithmVersion, AlgorithmVersion } from './version.js';
 
 export interface Point {
   x: number;
@@ -7,16 +16,74 @@ export interface Point {
 
 export interface FlowLine {
   points: Point[];
+  /**
+   * Rule that ended tracing: for bidirectional lines, the one stopping
+   * the later of the two ends. Pieces of a split line share it.
+   */
+  stopReason?: StopReason;
+  /** Measurements of the line, set on generated lines */
+  metadata?: LineMetadata;
 }
 
-export interface FlowLinesOptions extends Omit<FlowFieldOptions, 'resolution'> {
+export interface FlowLinesOptions extends Omit<FlowFieldOptions, 'resolution'>, TerminationRules {
   lineCount: number;
   stepLength?: number;
   maxSteps?: number;
   margin?: number;
   minLineLength?: number;
   fieldResolution?: number;
+  /**
+   * A prebuilt field to trace through, e.g. one composed from noise
+   * layers elsewhere. The noise options are ignored when given.
+   */
+  field?: FlowField;
   startPoints?: Point[];
+  /**
+   * How start points are placed when `startPoints` isn't given: a
+   * built-in strategy or a custom seeder (default random)
+   */
+  seeding?: SeedingOptions | Seeder;
+  /**
+   * Minimum distance between lines. When set, lines are placed with
+   * Jobard-Lefer evenly-spaced seeding instead of independently.
+   */
+  separation?: number;
+  /**
+   * Fraction of `separation` at which a growing line stops near another line
+   */
+  testDistance?: number;
+  /**
+   * Also trace backward from each start point, so seeds end up
+   * in the middle of their line rather than at one end
+   */
+  bidirectional?: boolean;
+  integrator?: IntegratorType;
+  /**
+   * Position error allowed per step by the adaptive integrator. Its step
+   * length then varies between 1/16 and 4 times `stepLength`.
+   */
+  tolerance?: number;
+  /**
+   * Image controlling where seeds are placed and how far lines run.
+   * Lines get `maxSteps` scaled by the density at their start point.
+   */
+  densityMap?: DensityMap;
+  /**
+   * Continue lines that leave one edge from the opposite edge, splitting
+   * them into separate lines at the seam. Lines still stop at
+   * `maxSteps`; `margin` only affects start points. Defaults to `tileable`.
+   */
+  wrap?: boolean;
+  /**
+   * Whether lines stop at the edge of the `clip` shape or carry on and
+   * are cut into the pieces inside it (default stop)
+   */
+  clipMode?: ClipMode;
+  /**
+   * Version of the algorithms to draw with (default the latest). Pin it
+   * so a seed keeps drawing the same lines in later releases.
+   */
+  algorithmVersion?: AlgorithmVersion;
 }
 
 export interface FlowLinesResult {
@@ -40,42 +107,83 @@ export function generateFlowLines(options: FlowLinesOptions): FlowLinesResult {
     minLineLength = 10,
     fieldResolution = 10,
     seed = Math.floor(Math.random() * 1000000),
-    noiseScale,
-    octaves,
-    persistence,
-    lacunarity,
     startPoints,
+    separation,
+    testDistance = 0.5,
+    bidirectional = false,
+    integrator = 'euler',
+    tolerance = 0.05,
+    densityMap,
+    tileable = false,
+    wrap = tileable,
+    clipMode = 'stop',
+    lengthJitter = 0,
   } = options;
 
-  const field = new FlowField({
-    width,
-    height,
+  const algorithmVersion = resolveAlgorithmVersion(options.algorithmVersion);
+  if (!(lengthJitter >= 0 && lengthJitter <= 1)) {
+    throw new Error('Length jitter must be between 0 and 1');
+  }
+
+  const field = options.field ?? new FlowField({
+    ...options,
     resolution: fieldResolution,
     seed,
-    noiseScale,
-    octaves,
-    persistence,
-    lacunarity,
+    algorithmVersion,
   });
 
-  const lines: FlowLine[] = [];
+  let density: ((x: number, y: number) => number) | undefined;
+  if (densityMap) {
+    const map = new ImageMap(densityMap.image, width, height);
+    density = (x, y) => map.density(x, y, densityMap.invert);
+  }
+
+  // Seeds outside the clip shape or inside obstacles are rejected like zero-density ones
+  const isOpen = (x: number, y: number) => field.isInClip(x, y) && !field.isBlocked(x, y);
+  const seedDensity = field.clip || field.obstacles.length > 0
+    ? (x: number, y: number) => (isOpen(x, y) ? density?.(x, y) ?? 1 : 0)
+    : density;
 
   // Determine starting points
-  const starts: Point[] = startPoints ?? generateStartPoints(
+  const starts: Point[] = (startPoints ?? generateSeeds(
+    options.seeding ?? { strategy: 'random' },
     width,
     height,
     lineCount,
     margin,
-    seed
-  );
+    seed,
+    seedDensity,
+    algorithmVersion
+  )).filter((point) => isOpen(point.x, point.y));
 
-  for (const start of starts) {
-    const line = traceLine(field, start, stepLength, maxSteps, margin);
+  const trace: TraceOptions = {
+    stepLength,
+    maxSteps,
+    margin,
+    bidirectional,
+    integrator,
+    density,
+    wrap,
+    clipMode,
+    algorithmVersion,
+    rules: {
+      selfIntersectionDistance: options.selfIntersectionDistance,
+      maxLength: options.maxLength,
+      maxTurnAngle: options.maxTurnAngle,
+      stagnationDistance: options.stagnationDistance,
+      stagnationSteps: options.stagnationSteps,
+    },
+    jitter: lengthJitter > 0 ? jitterRandom(seed, lengthJitter, algorithmVersion) : undefined,
+    adaptive: {
+      tolerance,
+      minStepLength: stepLength / 16,
+      maxStepLength: stepLength * 4,
+    },
+  };
 
-    if (line.points.length >= minLineLength) {
-      lines.push(line);
-    }
-  }
+  const lines = separation !== undefined && separation > 0
+    ? placeEvenlySpaced(field, starts, trace, minLineLength, separation, testDistance)
+    : placeIndependently(field, starts, trace, minLineLength);
 
   return {
     lines,
@@ -86,67 +194,287 @@ export function generateFlowLines(options: FlowLinesOptions): FlowLinesResult {
 }
 
 /**
- * Generate random starting points for flow lines
+ * Per-line random cut of up to `amount`, from a stream independent of
+ * the one placing seeds
+ */
+function jitterRandom(seed: number, amount: number, version: AlgorithmVersion): () => number {
+  const random = createRandom(seed + 1, version);
+  return () => amount * random();
+}
+
+interface TraceOptions {
+  stepLength: number;
+  maxSteps: number;
+  margin: number;
+  bidirectional?: boolean;
+  integrator: IntegratorType;
+  adaptive: AdaptiveOptions;
+  /** Scales each line's step budget by the density at its start */
+  density?: (x: number, y: number) => number;
+  /** Points of already accepted lines the traced line must keep clear of */
+  occupied?: SpatialHash;
+  /** Distance to `occupied` points at which tracing stops */
+  minDistance?: number;
+  /** Wrap around the canvas edges instead of stopping at them */
+  wrap?: boolean;
+  /** What happens at the edge of the field's clip shape */
+  clipMode?: ClipMode;
+  algorithmVersion: AlgorithmVersion;
+  rules: TerminationRules;
+  /** Fraction each line's step budget and length limit are cut by */
+  jitter?: () => number;
+}
+
+/**
+ * Trace every start point on its own
  */
-function generateStartPoints(
-  width: number,
-  height: number,
-  count: number,
-  margin: number,
-  seed: number
-): Point[] {
-  const points: Point[] = [];
-
-  // Simple seeded random
-  let s = seed;
-  const random = () => {
-    s = (s * 1103515245 + 12345) & 0x7fffffff;
-    return s / 0x7fffffff;
+function placeIndependently(
+  field: FlowField,
+  starts: Point[],
+  trace: TraceOptions,
+  minLineLength: number
+): FlowLine[] {
+  const lines: FlowLine[] = [];
+
+  starts.forEach((start, seedIndex) => {
+    const line = traceLine(field, start, trace);
+
+    if (line.points.length >= minLineLength) {
+      lines.push(...describePieces(field, splitLine(field, line, trace, minLineLength), start, seedIndex));
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Place lines with the Jobard-Lefer evenly-spaced streamline algorithm.
+ * Each start point is tried in turn, then new seeds are grown from the
+ * sides of every accepted line until no more lines fit.
+ */
+function placeEvenlySpaced(
+  field: FlowField,
+  starts: Point[],
+  trace: TraceOptions,
+  minLineLength: number,
+  separation: number,
+  testDistance: number
+): FlowLine[] {
+  const occupied = new SpatialHash(separation);
+  const lineTrace: TraceOptions = {
+    ...trace,
+    occupied,
+    minDistance: separation * testDistance,
+  };
+  const lines: FlowLine[] = [];
+  let nextToGrow = 0;
+  let traced = 0;
+
+  const tryLine = (candidate: Point) => {
+    const seed = trace.wrap ? wrapPoint(candidate, field.width, field.height) : candidate;
+    if (
+      (!trace.wrap && !field.isInCanvas(seed.x, seed.y, trace.margin)) ||
+      !field.isInClip(seed.x, seed.y) ||
+      field.isBlocked(seed.x, seed.y) ||
+      occupied.hasPointWithin(seed.x, seed.y, separation)
+    ) {
+      return;
+    }
+
+    const seedIndex = traced++;
+    const line = traceLine(field, seed, lineTrace);
+
+    if (line.points.length >= minLineLength) {
+      for (const piece of describePieces(field, splitLine(field, line, trace, minLineLength), seed, seedIndex)) {
+        occupied.insertAll(piece.points);
+        lines.push(piece);
+      }
+    }
   };
 
-  for (let i = 0; i < count; i++) {
-    points.push({
-      x: margin + random() * (width - 2 * margin),
-      y: margin + random() * (height - 2 * margin),
-    });
+  for (const start of starts) {
+    tryLine(start);
+
+    while (nextToGrow < lines.length) {
+      const { points } = lines[nextToGrow++];
+
+      for (let i = 0; i < points.length; i++) {
+        const prev = points[Math.max(0, i - 1)];
+        const next = points[Math.min(points.length - 1, i + 1)];
+        const dx = next.x - prev.x;
+        const dy = next.y - prev.y;
+        const length = Math.sqrt(dx * dx + dy * dy);
+        if (length === 0) continue;
+
+        const nx = (-dy / length) * separation;
+        const ny = (dx / length) * separation;
+
+        tryLine({ x: points[i].x + nx, y: points[i].y + ny });
+        tryLine({ x: points[i].x - nx, y: points[i].y - ny });
+      }
+    }
   }
 
-  return points;
+  return lines;
 }
 
 /**
- * Trace a single flow line through the field
+ * Trace a single flow line through the field. When bidirectional, the
+ * forward and backward halves advance alternately so `maxSteps` is
+ * shared fairly between them.
  */
-function traceLine(
-  field: FlowField,
-  start: Point,
-  stepLength: number,
-  maxSteps: number,
-  margin: number
-): FlowLine {
-  const points: Point[] = [{ ...start }];
-  let current = { ...start };
-
-  for (let i = 0; i < maxSteps; i++) {
-    const vector = field.getVector(current.x, current.y);
-
-    const next: Point = {
-      x: current.x + vector.x * stepLength,
-      y: current.y + vector.y * stepLength,
-    };
-
-    // Stop if out of bounds
-    if (!field.isInBounds(next.x, next.y, margin)) {
-      break;
+function traceLine(field: FlowField, start: Point, options: TraceOptions): FlowLine {
+  const { stepLength, bidirectional = false, density, jitter, rules } = options;
+  const scale = 1 - (jitter?.() ?? 0);
+  const maxSteps = density || jitter
+    ? Math.round(options.maxSteps * (density ? density(start.x, start.y) : 1) * scale)
+    : options.maxSteps;
+  const monitor = new LineMonitor(rules, start, (rules.maxLength ?? Infinity) * scale);
+  const forward: Point[] = [];
+  const backward: Point[] = [];
+  let head: TraceCursor | null = { point: { ...start }, stepLength };
+  let tail: TraceCursor | null = bidirectional ? { point: { ...start }, stepLength } : null;
+  let steps = 0;
+  let stopReason: StopReason = 'max-steps';
+
+  const step = STEPS[options.algorithmVersion];
+  const advance = (cursor: TraceCursor, direction: 1 | -1, points: Point[]) => {
+    const next = step(field, cursor, direction, options, monitor);
+    if (typeof next === 'string') {
+      stopReason = next;
+      return null;
+    }
+    points.push(next.point);
+    steps++;
+    return next;
+  };
+
+  while (steps < maxSteps && (head || tail)) {
+    if (head) {
+      head = advance(head, 1, forward);
+    }
+
+    if (tail && steps < maxSteps) {
+      tail = advance(tail, -1, backward);
     }
+  }
+
+  return {
+    points: [...backward.reverse(), { ...start }, ...forward],
+    // An end still growing ran out of steps
+    stopReason: head || tail ? 'max-steps' : stopReason,
+  };
+}
+
+/**
+ * Cut a wrapped line, traced on the unbounded repeating plane, into
+ * pieces on the canvas, and a line run past the clip shape into the
+ * pieces inside it. Pieces shorter than `minLineLength` points are
+ * dropped, so seams and clip edges leave no stubs. Other lines are
+ * returned as they are.
+ */
+function splitLine(field: FlowField, line: FlowLine, options: TraceOptions, minLineLength: number): FlowLine[] {
+  if (!options.wrap && (!field.clip || options.clipMode !== 'split')) {
+    return [line];
+  }
+
+  const seams = options.wrap
+    ? splitAtSeams(line.points, field.width, field.height)
+    : [line.points];
+  const clip = field.clip;
+  const pieces = clip && options.clipMode === 'split'
+    ? seams.flatMap((points) => clipPolyline(clip, points))
+    : seams;
+
+  return pieces
+    .filter((points) => points.length >= minLineLength)
+    .map((points) => ({ ...line, points }));
+}
+
+/**
+ * Attach metadata to the pieces of a line traced from `seed`
+ */
+function describePieces(field: FlowField, pieces: FlowLine[], seed: Point, seedIndex: number): FlowLine[] {
+  return pieces.map((piece) => ({ ...piece, metadata: describeLine(field, seed, seedIndex, piece.points) }));
+}
+
+/**
+ * The moving end of a line being traced
+ */
+interface TraceCursor {
+  point: Point;
+  stepLength: number;
+}
+
+/**
+ * Advance one step along the field, or in the opposite direction when
+ * `direction` is -1. Returns the reason when the line must stop.
+ */
+function stepLine(
+  field: FlowField,
+  cursor: TraceCursor,
+  direction: 1 | -1,
+  options: TraceOptions,
+  monitor: LineMonitor
+): TraceCursor | StopReason {
+  const {
+    margin,
+    integrator,
+    adaptive,
+    occupied,
+    minDistance = 0,
+    wrap = false,
+    clipMode = 'stop',
+  } = options;
+  const sample: VectorSampler = (x, y) => {
+    const at = wrap ? wrapPoint({ x, y }, field.width, field.height) : { x, y };
+    const vector = field.getVector(at.x, at.y);
+    return { x: vector.x * direction, y: vector.y * direction };
+  };
+
+  const { point: next, nextStepLength } = integrate(
+    integrator,
+    sample,
+    cursor.point,
+    cursor.stepLength,
+    adaptive
+  );
 
-    points.push(next);
-    current = next;
+  // Stop if out of bounds
+  if (!wrap && !field.isInCanvas(next.x, next.y, margin)) {
+    return 'bounds';
   }
 
-  return { points };
+  // Stop at the clip shape, unless the line is cut there afterwards
+  const onCanvas = wrap ? wrapPoint(next, field.width, field.height) : next;
+  if (clipMode === 'stop' && !field.isInClip(onCanvas.x, onCanvas.y)) {
+    return 'clip';
+  }
+
+  // Stop at obstacles lines may not enter
+  if (field.isBlocked(onCanvas.x, onCanvas.y)) {
+    return 'obstacle';
+  }
+
+  // Stop when running into an existing line
+  if (occupied && occupied.hasPointWithin(onCanvas.x, onCanvas.y, minDistance)) {
+    return 'collision';
+  }
+
+  // Stop when a termination rule says so
+  const stopReason = monitor.step(direction === 1 ? 0 : 1, cursor.point, next, onCanvas);
+  if (stopReason) {
+    return stopReason;
+  }
+
+  return { point: next, stepLength: nextStepLength };
 }
 
+// Line stepping of each algorithm version
+const STEPS: Record<AlgorithmVersion, typeof stepLine> = {
+  1: stepLine,
+};
+
 /**
  * Generate flow lines with grid-based starting points
  */
@@ -155,13 +483,7 @@ export function generateFlowLinesGrid(options: Omit<FlowLinesOptions, 'startPoin
 }): FlowLinesResult {
   const { gridSpacing, margin = 20, ...rest } = options;
 
-  const startPoints: Point[] = [];
-
-  for (let y = margin; y < rest.height - margin; y += gridSpacing) {
-    for (let x = margin; x < rest.width - margin; x += gridSpacing) {
-      startPoints.push({ x, y });
-    }
-  }
+  const startPoints = gridSeeds(rest.width, rest.height, margin, gridSpacing);
 
   return generateFlowLines({
     ...rest,
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { simulateGCode } from './gcode-simulator.js';
+
+describe('simulateGCode', () => {
+  it('should follow relative moves in inches', () => {
+    const { strokes, penUpDistance } = simulateGCode(
+      ['G20', 'G91', 'G1 X1 F10', 'G0 Z-5', 'G1 Y1', '(corner) G1 X-1', 'G0 Z5'].join('\n')
+    );
+
+    expect(penUpDistance).toBeCloseTo(25.4);
+    expect(strokes).toEqual([[{ x: 25.4, y: 0 }, { x: 25.4, y: 25.4 }, { x: 0, y: 25.4 }]]);
+  });
+
+  it('should stop at the end of the program', () => {
+    expect(simulateGCode('G0 Z0\nG1 X1 F100\nM2\nG1 X5').strokes).toEqual([[{ x: 0, y: 0 }, { x: 1, y: 0 }]]);
+  });
+
+  it('should count dwells and pauses', () => {
+    const { duration, pauses } = simulateGCode('G4 P1.5\nM0\nG1 X10 F600\nM1');
+
+    expect(duration).toBeCloseTo(2.5);
+    expect(pauses).toBe(2);
+  });
+
+  it('should reject what it cannot run', () => {
+    expect(() => simulateGCode('G1 X10')).toThrow('Line 1: move before any feed rate');
+    expect(() => simulateGCode('G28')).toThrow('Line 1: unsupported command "G28"');
+    expect(() => simulateGCode('G1 X1 Y')).toThrow('Line 1: cannot read "Y"');
+  });
+});
@@ -0,0 +1,124 @@
+import type { Point } from './flow-lines.js';
+import { penCommands, type GCodeOptions } from './gcode.js';
+
+/**
+ * What a G-code program would draw, in millimetres
+ */
+export interface GCodeSimulation {
+  /** Polylines drawn with the pen down, in order */
+  strokes: Point[][];
+  /** Distance moved with the pen down */
+  penDownDistance: number;
+  /** Distance moved with the pen up */
+  penUpDistance: number;
+  /** Seconds of moves and dwells at the programmed feed rates, ignoring acceleration */
+  duration: number;
+  /** M0 and M1 pauses, e.g. for pen changes */
+  pauses: number;
+}
+
+/**
+ * Run the subset of G-code written by `toGCode` on a simulated plotter:
+ * G0/G1 moves, G4 dwells, G20/G21 units, G90/G91 positioning, M0/M1
+ * pauses, M2/M30 program end and the pen commands of `options`. Anything
+ * else is an error, so a test catches output a machine might reject.
+ */
+export function simulateGCode(gcode: string, options: GCodeOptions = {}): GCodeSimulation {
+  const { penLift = 'z', penUpZ = 5, penDownZ = 0, travelFeed = 3000 } = options;
+  const pen = penCommands(options);
+  const normalize = (command: string) => command.trim().replace(/\s+/g, ' ').toUpperCase();
+  const [upCommand, downCommand] = [normalize(pen.up), normalize(pen.down)];
+
+  const simulation: GCodeSimulation = { strokes: [], penDownDistance: 0, penUpDistance: 0, duration: 0, pauses: 0 };
+  let position: Point = { x: 0, y: 0 };
+  let z = penUpZ;
+  let down = false;
+  let stroke: Point[] | null = null;
+  let millimetres = 1;
+  let relative = false;
+  let feed: number | undefined;
+  let ended = false;
+
+  const setPen = (lowered: boolean) => {
+    if (lowered && !down) {
+      stroke = [position];
+      simulation.strokes.push(stroke);
+    } else if (!lowered) {
+      stroke = null;
+    }
+    down = lowered;
+  };
+
+  gcode.split('\n').forEach((text, index) => {
+    const block = normalize(text.replace(/;.*$/, '').replace(/\([^)]*\)/g, ''));
+    if (block === '' || ended) return;
+    const fail = (message: string): never => {
+      throw new Error(`Line ${index + 1}: ${message}`);
+    };
+
+    if (penLift === 'servo' && (block === upCommand || block === downCommand)) {
+      setPen(block === downCommand);
+      return;
+    }
+
+    const words = new Map<string, number>();
+    for (const word of block.split(/\s*(?=[A-Z])/)) {
+      const match = /^([A-Z])\s*([-+]?\d*\.?\d+)$/.exec(word);
+      if (!match) fail(`cannot read "${word}"`);
+      words.set(match![1], parseFloat(match![2]));
+    }
+
+    const g = words.get('G');
+    const m = words.get('M');
+    if (words.has('F')) {
+      feed = words.get('F')! * millimetres;
+    }
+
+    if (m !== undefined) {
+      if (m === 0 || m === 1) {
+        simulation.pauses++;
+      } else if (m === 2 || m === 30) {
+        ended = true;
+      } else {
+        fail(`unsupported command M${m}`);
+      }
+    } else if (g === 0 || g === 1) {
+      const axis = (letter: 'X' | 'Y', current: number) => {
+        const value = words.get(letter);
+        if (value === undefined) return current;
+        return relative ? current + value * millimetres : value * millimetres;
+      };
+      const to = { x: axis('X', position.x), y: axis('Y', position.y) };
+
+      if (words.has('Z') && penLift === 'z') {
+        z = relative ? z + words.get('Z')! : words.get('Z')!;
+        setPen(Math.abs(z - penDownZ) < Math.abs(z - penUpZ));
+      }
+
+      const distance = Math.hypot(to.x - position.x, to.y - position.y);
+      if (distance > 0) {
+        const rate = g === 0 ? travelFeed * millimetres : feed;
+        if (rate === undefined || rate <= 0) fail('move before any feed rate');
+        simulation.duration += (distance / rate!) * 60;
+        if (down) {
+          simulation.penDownDistance += distance;
+          stroke!.push(to);
+        } else {
+          simulation.penUpDistance += distance;
+        }
+      }
+      position = to;
+    } else if (g === 4) {
+      simulation.duration += words.get('P') ?? 0;
+    } else if (g === 20 || g === 21) {
+      millimetres = g === 20 ? 25.4 : 1;
+    } else if (g === 90 || g === 91) {
+      relative = g === 91;
+    } else {
+      fail(`unsupported command "${block}"`);
+    }
+  });
+
+  simulation.strokes = simulation.strokes.filter((points) => points.length > 1);
+  return simulation;
+}
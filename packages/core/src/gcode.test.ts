@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { toGCode, toLayeredGCode } from './gcode.js';
+import { simulateGCode } from './gcode-simulator.js';
+import { generateFlowLines, type FlowLinesResult } from './flow-lines.js';
+import { assignPens } from './pens.js';
+
+// 96 px is an inch, 25.4mm
+const square: FlowLinesResult = {
+  width: 192,
+  height: 96,
+  seed: 1,
+  lines: [
+    {
+      points: [
+        { x: 0, y: 0 },
+        { x: 96, y: 0 },
+        { x: 96, y: 96 },
+      ],
+    },
+    { points: [{ x: 192, y: 96 }, { x: 192, y: 0 }] },
+  ],
+};
+
+describe('toGCode', () => {
+  it('should write millimetres from the bottom-left corner by default', () => {
+    const gcode = toGCode(square);
+    const { strokes, penDownDistance } = simulateGCode(gcode);
+
+    expect(gcode).toContain('G21');
+    expect(strokes).toEqual([
+      [{ x: 0, y: 25.4 }, { x: 25.4, y: 25.4 }, { x: 25.4, y: 0 }],
+      [{ x: 50.8, y: 0 }, { x: 50.8, y: 25.4 }],
+    ]);
+    expect(penDownDistance).toBeCloseTo(76.2);
+  });
+
+  it('should place, flip and scale the drawing', () => {
+    const gcode = toGCode(square, { origin: 'top-right', flipX: true, units: 'in', scale: 2 });
+
+    expect(gcode).toContain('G20');
+    expect(gcode).toContain('G1 X-4 Y0 F3000');
+    expect(simulateGCode(gcode).strokes[0][2]).toEqual({ x: -50.8, y: 50.8 });
+  });
+
+  it('should lift the pen with Z moves or servo commands', () => {
+    expect(toGCode(square, { penUpZ: 3, penDownZ: -1 })).toContain('G0 Z-1');
+
+    const servo = { penLift: 'servo' as const, penUpCommand: 'M3 S30', penDownCommand: 'M3 S90', penDelay: 0.2 };
+    const gcode = toGCode(square, servo);
+    expect(gcode).toContain('M3 S90\nG4 P0.2');
+    expect(simulateGCode(gcode, servo).strokes).toHaveLength(2);
+    // Read with the default commands, the servo codes aren't understood
+    expect(() => simulateGCode(gcode)).toThrow('unsupported command M3');
+  });
+
+  it('should draw and travel at their feed rates', () => {
+    const { duration, penDownDistance, penUpDistance } = simulateGCode(
+      toGCode(square, { drawFeed: 600, travelFeed: 1200 })
+    );
+
+    expect(duration).toBeCloseTo((penDownDistance / 600) * 60 + (penUpDistance / 1200) * 60);
+  });
+
+  it('should keep every generated line', () => {
+    const result = generateFlowLines({ width: 300, height: 300, lineCount: 30, seed: 7 });
+
+    expect(simulateGCode(toGCode(result)).strokes).toHaveLength(result.lines.length);
+  });
+});
+
+describe('toLayeredGCode', () => {
+  it('should pause for a pen change between layers', () => {
+    const layers = assignPens(square, [{ color: 'black' }, { color: 'red', name: 'Fine' }]);
+    const gcode = toLayeredGCode(square, layers);
+
+    expect(gcode).toContain('; Pen 1 (black)');
+    expect(gcode).toContain('M0 ; change to Pen 2: Fine (red)');
+    expect(simulateGCode(gcode).pauses).toBe(1);
+  });
+});
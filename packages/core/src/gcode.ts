@@ -0,0 +1,150 @@
+import type { FlowLinesResult, FlowLine } from './flow-lines.js';
+import type { PenLayer } from './pens.js';
+import { optimizePoints } from './svg.js';
+import { fromPixels } from './paper.js';
+import { machineTransform, type MachinePlacement } from './machine.js';
+
+/**
+ * How the pen is raised and lowered
+ * - z: moves of the Z axis
+ * - servo: spindle M-codes driving a pen servo, as in GRBL servo builds
+ */
+export type PenLift = 'z' | 'servo';
+
+export const PEN_LIFTS: readonly PenLift[] = ['z', 'servo'];
+
+/**
+ * Units of the machine's coordinates and feed rates
+ */
+export type MachineUnit = 'mm' | 'in';
+
+export const MACHINE_UNITS: readonly MachineUnit[] = ['mm', 'in'];
+
+export interface GCodeOptions extends MachinePlacement {
+  penLift?: PenLift;
+  /** Z of the raised pen (default 5) */
+  penUpZ?: number;
+  /** Z of the lowered pen (default 0) */
+  penDownZ?: number;
+  /** Command raising a servo pen (default "M5") */
+  penUpCommand?: string;
+  /** Command lowering a servo pen (default "M3 S1000") */
+  penDownCommand?: string;
+  /** Seconds to dwell after each pen move, letting a servo settle (default 0) */
+  penDelay?: number;
+  /** Drawing feed rate in units per minute (default 1500) */
+  drawFeed?: number;
+  /** Pen-up travel feed rate in units per minute (default 3000) */
+  travelFeed?: number;
+  /** Default mm, converting canvas pixels at 96 per inch */
+  units?: MachineUnit;
+  /** Extra factor applied after unit conversion (default 1) */
+  scale?: number;
+  /** Decimal places of coordinates (default 3) */
+  precision?: number;
+  /** Simplify lines as the SVG writer does (default true) */
+  optimizePaths?: boolean;
+}
+
+/**
+ * The commands raising and lowering the pen
+ */
+export function penCommands(options: GCodeOptions = {}): { up: string; down: string } {
+  const {
+    penLift = 'z',
+    penUpZ = 5,
+    penDownZ = 0,
+    penUpCommand = 'M5',
+    penDownCommand = 'M3 S1000',
+  } = options;
+
+  return penLift === 'servo'
+    ? { up: penUpCommand, down: penDownCommand }
+    : { up: `G0 Z${penUpZ}`, down: `G0 Z${penDownZ}` };
+}
+
+/**
+ * Convert flow lines result to a G-code program for a GRBL-style plotter
+ */
+export function toGCode(result: FlowLinesResult, options: GCodeOptions = {}): string {
+  return renderGCode(result, [{ lines: result.lines }], options);
+}
+
+/**
+ * Convert pen layers to a G-code program drawing one pen after another,
+ * pausing with M0 for a pen change before each layer after the first
+ */
+export function toLayeredGCode(
+  result: FlowLinesResult,
+  layers: PenLayer[],
+  options: GCodeOptions = {}
+): string {
+  return renderGCode(result, layers, options);
+}
+
+function renderGCode(
+  result: FlowLinesResult,
+  groups: { pen?: PenLayer['pen']; lines: FlowLine[] }[],
+  options: GCodeOptions
+): string {
+  const {
+    penDelay = 0,
+    drawFeed = 1500,
+    travelFeed = 3000,
+    units = 'mm',
+    scale = 1,
+    precision = 3,
+    optimizePaths = true,
+  } = options;
+
+  const pen = penCommands(options);
+  const unitsPerPixel = fromPixels(1, units) * scale;
+  const toMachine = machineTransform(result.width, result.height, options, unitsPerPixel);
+  const format = (n: number) => `${Number(n.toFixed(precision))}`;
+  const size = `${format(result.width * unitsPerPixel)}x${format(result.height * unitsPerPixel)}${units}`;
+  const output: string[] = [
+    `; flow-lines ${size}, seed ${result.seed}`,
+    units === 'mm' ? 'G21 ; millimetres' : 'G20 ; inches',
+    'G90 ; absolute positioning',
+  ];
+  let feed: number | undefined;
+
+  const move = (point: { x: number; y: number }, rate: number) => {
+    const f = rate === feed ? '' : ` F${rate}`;
+    feed = rate;
+    output.push(`G1 X${format(point.x)} Y${format(point.y)}${f}`);
+  };
+  const lift = (command: string) => {
+    output.push(command);
+    if (penDelay > 0) {
+      output.push(`G4 P${penDelay}`);
+    }
+  };
+
+  lift(pen.up);
+
+  groups.forEach((group, index) => {
+    if (group.pen) {
+      const label = `Pen ${index + 1}${group.pen.name ? `: ${group.pen.name}` : ''} (${group.pen.color})`;
+      output.push(index === 0 ? `; ${label}` : `M0 ; change to ${label}`);
+    }
+
+    for (const line of group.lines) {
+      const points = optimizePaths ? optimizePoints(line.points, 0.5) : line.points;
+      if (points.length < 2) continue;
+
+      const [first, ...rest] = points.map(toMachine);
+      move(first, travelFeed);
+      lift(pen.down);
+      for (const point of rest) {
+        move(point, drawFeed);
+      }
+      lift(pen.up);
+    }
+  });
+
+  move({ x: 0, y: 0 }, travelFeed);
+  output.push('M2');
+
+  return output.join('\n') + '\n';
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { closestPointOnPolyline, wrapPoint, splitAtSeams } from './geometry.js';
+
+describe('closestPointOnPolyline', () => {
+  it('should find the closest segment and point', () => {
+    const closest = closestPointOnPolyline([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }], 12, 4);
+
+    expect(closest).toEqual({ point: { x: 10, y: 4 }, distance: 2, segment: 1 });
+  });
+});
+
+describe('wrapPoint', () => {
+  it('should wrap into the canvas from either side', () => {
+    expect(wrapPoint({ x: 105, y: -5 }, 100, 50)).toEqual({ x: 5, y: 45 });
+  });
+});
+
+describe('splitAtSeams', () => {
+  it('should keep a line on the canvas whole', () => {
+    const points = [{ x: 10, y: 10 }, { x: 20, y: 15 }];
+
+    expect(splitAtSeams(points, 100, 100)).toEqual([points]);
+  });
+
+  it('should split at the right edge and continue from the left', () => {
+    const pieces = splitAtSeams([{ x: 90, y: 50 }, { x: 110, y: 60 }, { x: 120, y: 60 }], 100, 100);
+
+    expect(pieces).toEqual([
+      [{ x: 90, y: 50 }, { x: 100, y: 55 }],
+      [{ x: 0, y: 55 }, { x: 10, y: 60 }, { x: 20, y: 60 }],
+    ]);
+  });
+
+  it('should split when leaving through the top', () => {
+    const pieces = splitAtSeams([{ x: 50, y: 5 }, { x: 50, y: -5 }], 100, 100);
+
+    expect(pieces).toEqual([
+      [{ x: 50, y: 5 }, { x: 50, y: 0 }],
+      [{ x: 50, y: 100 }, { x: 50, y: 95 }],
+    ]);
+  });
+
+  it('should handle a step through a corner and points on an edge', () => {
+    const corner = splitAtSeams([{ x: 95, y: 95 }, { x: 105, y: 105 }], 100, 100);
+
+    expect(corner).toEqual([
+      [{ x: 95, y: 95 }, { x: 100, y: 100 }],
+      [{ x: 0, y: 0 }, { x: 5, y: 5 }],
+    ]);
+
+    const onEdge = splitAtSeams([{ x: 90, y: 50 }, { x: 100, y: 50 }, { x: 110, y: 50 }], 100, 100);
+
+    expect(onEdge).toEqual([
+      [{ x: 90, y: 50 }, { x: 100, y: 50 }],
+      [{ x: 0, y: 50 }, { x: 10, y: 50 }],
+    ]);
+  });
+});
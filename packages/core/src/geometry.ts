@@ -0,0 +1,107 @@
+import type { Point } from './flow-lines.js';
+
+export interface ClosestPoint {
+  /** Closest point on the polyline */
+  point: Point;
+  distance: number;
+  /** Index of the segment holding the closest point */
+  segment: number;
+}
+
+/**
+ * Closest point on a polyline to (x, y). A single point counts as a
+ * zero-length polyline.
+ */
+export function closestPointOnPolyline(points: Point[], x: number, y: number): ClosestPoint {
+  if (points.length === 1) {
+    const [only] = points;
+    return { point: only, distance: Math.hypot(x - only.x, y - only.y), segment: 0 };
+  }
+
+  let best: ClosestPoint = { point: points[0], distance: Infinity, segment: 0 };
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSq));
+    const px = a.x + t * dx;
+    const py = a.y + t * dy;
+    const distance = Math.hypot(x - px, y - py);
+
+    if (distance < best.distance) {
+      best = { point: { x: px, y: py }, distance, segment: i };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Wrap a point into [0, width) x [0, height), as on a torus
+ */
+export function wrapPoint(point: Point, width: number, height: number): Point {
+  return {
+    x: ((point.x % width) + width) % width,
+    y: ((point.y % height) + height) % height,
+  };
+}
+
+/**
+ * Split a polyline traced on the unbounded, repeating plane into pieces
+ * that each lie on the canvas. Where the line crosses an edge, one piece
+ * ends on that edge and the next starts at the matching point of the
+ * opposite edge, so the pieces join up seamlessly when tiled.
+ */
+export function splitAtSeams(points: Point[], width: number, height: number): Point[][] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const pieces: Point[][] = [];
+  let tileX = Math.floor(points[0].x / width);
+  let tileY = Math.floor(points[0].y / height);
+  const local = (p: Point): Point => ({ x: p.x - tileX * width, y: p.y - tileY * height });
+  let current = [local(points[0])];
+
+  for (let i = 1; i < points.length; i++) {
+    let p = points[i - 1];
+    const q = points[i];
+
+    for (;;) {
+      const left = tileX * width;
+      const top = tileY * height;
+      const dx = q.x - p.x;
+      const dy = q.y - p.y;
+
+      // Fraction of the way to q at which each edge of the tile is crossed
+      const tx = q.x >= left + width ? (left + width - p.x) / dx : q.x < left ? (left - p.x) / dx : Infinity;
+      const ty = q.y >= top + height ? (top + height - p.y) / dy : q.y < top ? (top - p.y) / dy : Infinity;
+      const t = Math.min(tx, ty);
+
+      if (t === Infinity) {
+        current.push(local(q));
+        break;
+      }
+
+      const crossing = { x: p.x + dx * t, y: p.y + dy * t };
+      if (t > 0) current.push(local(crossing));
+      pieces.push(current);
+
+      if (tx === t) tileX += dx > 0 ? 1 : -1;
+      if (ty === t) tileY += dy > 0 ? 1 : -1;
+      current = [local(crossing)];
+
+      // q sits exactly on the edge and is already the new piece's start
+      if (t >= 1) break;
+      p = crossing;
+    }
+  }
+
+  pieces.push(current);
+  return pieces.filter((piece) => piece.length >= 2);
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { generateFlowLines, FlowLinesOptions } from './flow-lines.js';
+import { toSVG, SVGOptions } from './svg.js';
+import { ALGORITHM_VERSIONS } from './version.js';
+
+/**
+ * Golden outputs: the exact SVG every fixture draws under every algorithm
+ * version, kept in golden/v<version>/<name>.svg. A failure means a change
+ * altered what a seed draws. Ship that as a new algorithm version instead
+ * of editing the files, so reprints of earlier drawings stay exact.
+ *
+ * Run with UPDATE_GOLDEN=1 to record fixtures that have no file yet, e.g.
+ * for a new fixture or version. Existing files are never overwritten.
+ */
+interface GoldenFixture {
+  name: string;
+  options: FlowLinesOptions;
+  svg?: SVGOptions;
+}
+
+const canvas = { width: 240, height: 180, lineCount: 24 };
+
+const FIXTURES: GoldenFixture[] = [
+  { name: 'simplex', options: { ...canvas, seed: 1 } },
+  { name: 'perlin-poisson', options: { ...canvas, seed: 2, noiseType: 'perlin', seeding: { strategy: 'poisson' } } },
+  { name: 'value-grid', options: { ...canvas, seed: 3, noiseType: 'value', seeding: { strategy: 'grid' } } },
+  { name: 'worley-f2', options: { ...canvas, seed: 4, noiseType: 'worley', worleyMode: 'f2' } },
+  {
+    name: 'curl-rk4',
+    options: { ...canvas, seed: 5, noiseType: 'curl', integrator: 'rk4', bidirectional: true, maxSteps: 150 },
+  },
+  { name: 'adaptive', options: { ...canvas, seed: 6, integrator: 'adaptive', sampling: 'bilinear' } },
+  { name: 'evenly-spaced', options: { ...canvas, seed: 7, separation: 12 } },
+  {
+    name: 'clip-split',
+    options: {
+      ...canvas,
+      seed: 8,
+      clip: { type: 'circle', center: { x: 120, y: 90 }, radius: 70 },
+      clipMode: 'split',
+    },
+  },
+  { name: 'tileable', options: { ...canvas, seed: 9, tileable: true, maxSteps: 150 } },
+  { name: 'time', options: { ...canvas, seed: 14, time: 0.3, loopDuration: 2 } },
+  {
+    name: 'layers-warp',
+    options: {
+      ...canvas,
+      seed: 10,
+      warp: { strength: 0.8, iterations: 2 },
+      layers: [{ noiseType: 'perlin' }, { noiseType: 'worley', weight: 0.5, blend: 'add' }],
+    },
+  },
+  {
+    name: 'influences-obstacles',
+    options: {
+      ...canvas,
+      seed: 11,
+      influences: [{ type: 'attractor', points: [{ x: 60, y: 60 }], radius: 80, strength: 0.7 }],
+      obstacles: [{ shape: { type: 'circle', center: { x: 170, y: 110 }, radius: 30 }, influenceDistance: 20 }],
+    },
+  },
+  { name: 'termination-jitter', options: { ...canvas, seed: 12, maxTurnAngle: 0.8, lengthJitter: 0.4 } },
+  {
+    name: 'styled',
+    options: { ...canvas, seed: 13 },
+    svg: { styles: { color: { attribute: 'length', colors: ['#ff0000', '#0000ff'], mode: 'gradient' } } },
+  },
+];
+
+describe('golden outputs', () => {
+  for (const version of ALGORITHM_VERSIONS) {
+    describe(`algorithm version ${version}`, () => {
+      const directory = new URL(`./golden/v${version}/`, import.meta.url);
+
+      for (const fixture of FIXTURES) {
+        it(`should draw ${fixture.name} exactly`, () => {
+          const file = new URL(`${fixture.name}.svg`, directory);
+          const svg = toSVG(generateFlowLines({ ...fixture.options, algorithmVersion: version }), fixture.svg);
+
+          if (!existsSync(file)) {
+            if (!process.env.UPDATE_GOLDEN) {
+              throw new Error(`No golden output for ${fixture.name}; run with UPDATE_GOLDEN=1 to record it`);
+            }
+            mkdirSync(directory, { recursive: true });
+            writeFileSync(file, svg, 'utf-8');
+          }
+
+          expect(svg).toBe(readFileSync(file, 'utf-8'));
+        });
+      }
+    });
+  }
+});
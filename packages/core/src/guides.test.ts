@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { applyGuides, type Guide } from './guides.js';
+import { FlowField } from './flow-field.js';
+
+const east = { x: 1, y: 0 };
+
+// A stroke drawn straight down the canvas
+const downStroke: Guide = {
+  points: [{ x: 100, y: 0 }, { x: 100, y: 100 }, { x: 100, y: 200 }],
+  falloffDistance: 40,
+};
+
+describe('applyGuides', () => {
+  it('should follow the stroke tangent on the stroke', () => {
+    const vector = applyGuides([downStroke], 100, 50, east);
+
+    expect(vector.x).toBeCloseTo(0);
+    expect(vector.y).toBeCloseTo(1);
+  });
+
+  it('should blend back to the field with distance', () => {
+    const near = applyGuides([downStroke], 110, 50, east);
+    const far = applyGuides([downStroke], 130, 50, east);
+
+    expect(near.y).toBeGreaterThan(far.y);
+    expect(far.y).toBeGreaterThan(0);
+    expect(applyGuides([downStroke], 150, 50, east)).toEqual(east);
+  });
+
+  it('should follow the segment closest to the point', () => {
+    const corner: Guide = {
+      points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }],
+      falloffDistance: 20,
+    };
+
+    expect(applyGuides([corner], 50, 0, { x: 0, y: 1 }).x).toBeCloseTo(1);
+    expect(applyGuides([corner], 100, 60, east).y).toBeCloseTo(1);
+  });
+
+  it('should scale with strength', () => {
+    const weak = applyGuides([{ ...downStroke, strength: 0.3 }], 100, 50, east);
+
+    expect(weak.x).toBeGreaterThan(0.5);
+    expect(weak.y).toBeGreaterThan(0);
+  });
+
+  it('should ignore single-point guides', () => {
+    expect(applyGuides([{ points: [{ x: 0, y: 0 }], falloffDistance: 50 }], 1, 1, east)).toEqual(east);
+  });
+
+  it('should steer a FlowField', () => {
+    const field = new FlowField({ width: 200, height: 200, resolution: 10, seed: 3, guides: [downStroke] });
+
+    expect(field.getVector(100, 120).y).toBeCloseTo(1);
+  });
+});
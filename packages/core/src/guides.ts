@@ -0,0 +1,47 @@
+import type { Point } from './flow-lines.js';
+import type { Vector2D } from './flow-field.js';
+import { closestPointOnPolyline } from './geometry.js';
+
+/**
+ * A drawn stroke whose direction overrides the field near it
+ */
+export interface Guide {
+  /** Stroke vertices in drawing order; the field follows this direction */
+  points: Point[];
+  /** Distance from the stroke over which the field blends back to noise */
+  falloffDistance: number;
+  /** 1 follows the stroke exactly on it, lower values only nudge the field */
+  strength?: number;
+}
+
+/**
+ * Turn a field direction toward the tangent of every guide in reach of (x, y)
+ */
+export function applyGuides(guides: Guide[], x: number, y: number, vector: Vector2D): Vector2D {
+  let { x: vx, y: vy } = vector;
+
+  for (const guide of guides) {
+    if (guide.points.length < 2) continue;
+
+    const { distance, segment } = closestPointOnPolyline(guide.points, x, y);
+    if (distance >= guide.falloffDistance) continue;
+
+    const a = guide.points[segment];
+    const b = guide.points[segment + 1];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) continue;
+
+    const t = 1 - distance / guide.falloffDistance;
+    const weight = (guide.strength ?? 1) * t * t * (3 - 2 * t);
+    const bx = vx + ((b.x - a.x) / length - vx) * weight;
+    const by = vy + ((b.y - a.y) / length - vy) * weight;
+    const blended = Math.hypot(bx, by);
+
+    if (blended > 0) {
+      vx = bx / blended;
+      vy = by / blended;
+    }
+  }
+
+  return { x: vx, y: vy };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { toHPGL, toLayeredHPGL } from './hpgl.js';
+import { generateFlowLines, type FlowLinesResult } from './flow-lines.js';
+import { assignPens } from './pens.js';
+
+// 96 px is 25.4mm, 1016 plotter units
+const result: FlowLinesResult = {
+  width: 192,
+  height: 96,
+  seed: 1,
+  lines: [
+    {
+      points: [
+        { x: 0, y: 0 },
+        { x: 96, y: 0 },
+        { x: 96, y: 96 },
+        { x: 192, y: 96 },
+      ],
+    },
+    // Collinear points are dropped
+    { points: [{ x: 0, y: 48 }, { x: 48, y: 48 }, { x: 96, y: 48 }] },
+  ],
+};
+
+/**
+ * Pen-down polylines of an HPGL program, in plotter units
+ */
+function strokes(hpgl: string): number[][][] {
+  const drawn: number[][][] = [];
+  for (const command of hpgl.split(';').map((c) => c.trim())) {
+    const coordinates = command.slice(2).split(',').filter(Boolean).map(Number);
+    const points = Array.from({ length: coordinates.length / 2 }, (_, i) => coordinates.slice(2 * i, 2 * i + 2));
+    if (command.startsWith('PU') && points.length > 0) {
+      drawn.push(points);
+    } else if (command.startsWith('PD')) {
+      drawn[drawn.length - 1].push(...points);
+    }
+  }
+  return drawn;
+}
+
+describe('toHPGL', () => {
+  it('should draw each line in plotter units from the bottom-left corner', () => {
+    const hpgl = toHPGL(result);
+
+    expect(hpgl.startsWith('IN;\nSP1;\n')).toBe(true);
+    expect(hpgl.endsWith('PU;\nSP0;\n')).toBe(true);
+    expect(strokes(hpgl)).toEqual([
+      [[0, 1016], [1016, 1016], [1016, 0], [2032, 0]],
+      [[0, 508], [1016, 508]],
+    ]);
+  });
+
+  it('should split long pen-down runs into chunks', () => {
+    const hpgl = toHPGL(result, { chunkSize: 2 });
+
+    expect(hpgl).toContain('PU0,1016;\nPD1016,1016,1016,0;\nPD2032,0;');
+    expect(strokes(hpgl)).toEqual(strokes(toHPGL(result)));
+    expect(() => toHPGL(result, { chunkSize: 0 })).toThrow('at least 1');
+  });
+
+  it('should scale, place and set the velocity', () => {
+    const hpgl = toHPGL(result, { unitsPerMm: 10, origin: 'top-left', velocity: 20, pen: 3 });
+
+    expect(hpgl).toContain('VS20;\nSP3;');
+    expect(strokes(hpgl)[1]).toEqual([[0, 127], [254, 127]]);
+  });
+
+  it('should keep every generated line', () => {
+    const generated = generateFlowLines({ width: 300, height: 300, lineCount: 30, seed: 7 });
+
+    expect(strokes(toHPGL(generated))).toHaveLength(generated.lines.length);
+  });
+});
+
+describe('toLayeredHPGL', () => {
+  it('should select a pen per layer', () => {
+    const layers = assignPens(result, [{ color: 'black' }, { color: 'red' }]);
+    const hpgl = toLayeredHPGL(result, layers);
+
+    expect(hpgl.indexOf('SP2;')).toBeGreaterThan(hpgl.indexOf('SP1;'));
+    expect(hpgl.split('\n').filter((command) => command.startsWith('SP'))).toEqual(['SP1;', 'SP2;', 'SP0;']);
+  });
+});
@@ -0,0 +1,79 @@
+import type { FlowLinesResult, FlowLine } from './flow-lines.js';
+import type { PenLayer } from './pens.js';
+import { optimizePoints } from './svg.js';
+import { fromPixels } from './paper.js';
+import { machineTransform, type MachinePlacement } from './machine.js';
+
+export interface HPGLOptions extends MachinePlacement {
+  /** Plotter units per millimetre (default 40, as on HP plotters) */
+  unitsPerMm?: number;
+  /**
+   * Most points per PD command. Longer lines continue in further PD
+   * commands with the pen kept down, so each fits the plotter's buffer.
+   * Unlimited when unset.
+   */
+  chunkSize?: number;
+  /** Pen speed in cm/s, sent with VS; the plotter's default when unset */
+  velocity?: number;
+  /** Pen drawing an unlayered result (default 1) */
+  pen?: number;
+  /** Simplify lines as the SVG writer does (default true) */
+  optimizePaths?: boolean;
+}
+
+/**
+ * Convert flow lines result to HPGL for pen plotters such as the HP
+ * 7475A and 7550 or Roland DXY series
+ */
+export function toHPGL(result: FlowLinesResult, options: HPGLOptions = {}): string {
+  return renderHPGL(result, [{ pen: options.pen ?? 1, lines: result.lines }], options);
+}
+
+/**
+ * Convert pen layers to HPGL, selecting pen 1 for the first layer, pen 2
+ * for the second and so on
+ */
+export function toLayeredHPGL(result: FlowLinesResult, layers: PenLayer[], options: HPGLOptions = {}): string {
+  return renderHPGL(
+    result,
+    layers.map((layer, index) => ({ pen: index + 1, lines: layer.lines })),
+    options
+  );
+}
+
+function renderHPGL(
+  result: FlowLinesResult,
+  groups: { pen: number; lines: FlowLine[] }[],
+  options: HPGLOptions
+): string {
+  const { unitsPerMm = 40, chunkSize, velocity, optimizePaths = true } = options;
+
+  if (chunkSize !== undefined && !(chunkSize >= 1)) {
+    throw new Error('HPGL chunk size must be at least 1 point');
+  }
+
+  const toMachine = machineTransform(result.width, result.height, options, fromPixels(1, 'mm') * unitsPerMm);
+  const output = ['IN;'];
+  if (velocity !== undefined) {
+    output.push(`VS${velocity};`);
+  }
+
+  for (const group of groups) {
+    output.push(`SP${group.pen};`);
+
+    for (const line of group.lines) {
+      const points = optimizePaths ? optimizePoints(line.points, 0.5) : line.points;
+      if (points.length < 2) continue;
+
+      const [first, ...rest] = points.map(toMachine).map(({ x, y }) => `${Math.round(x)},${Math.round(y)}`);
+      output.push(`PU${first};`);
+      const size = chunkSize ?? rest.length;
+      for (let i = 0; i < rest.length; i += size) {
+        output.push(`PD${rest.slice(i, i + size).join(',')};`);
+      }
+    }
+  }
+
+  output.push('PU;', 'SP0;');
+  return output.join('\n') + '\n';
+}
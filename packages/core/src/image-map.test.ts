@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { ImageMap, applyDirectionMap } from './image-map.js';
+import type { RasterImage } from './image.js';
+import { FlowField } from './flow-field.js';
+import { generateFlowLines } from './flow-lines.js';
+
+function makeImage(width: number, height: number, rgb: (x: number, y: number) => number[]): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...rgb(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+// Black on the left fading to white on the right
+const horizontalRamp = makeImage(32, 32, (x) => {
+  const v = Math.round((x / 31) * 255);
+  return [v, v, v];
+});
+
+describe('ImageMap', () => {
+  it('should stretch the image over the canvas', () => {
+    const map = new ImageMap(horizontalRamp, 320, 100);
+
+    expect(map.luminance(2, 50)).toBeLessThan(0.05);
+    expect(map.luminance(318, 50)).toBeGreaterThan(0.95);
+  });
+
+  it('should point the gradient from dark to light', () => {
+    const map = new ImageMap(horizontalRamp, 100, 100);
+    const { vector } = map.direction(50, 50, 'gradient');
+
+    expect(vector.x).toBeCloseTo(1);
+    expect(vector.y).toBeCloseTo(0);
+  });
+
+  it('should run contours across the gradient', () => {
+    const map = new ImageMap(horizontalRamp, 100, 100);
+    const { vector } = map.direction(50, 50, 'contour');
+
+    expect(Math.abs(vector.y)).toBeCloseTo(1);
+  });
+
+  it('should map hue to angle and ignore gray pixels', () => {
+    const green = new ImageMap(makeImage(4, 4, () => [0, 255, 0]), 40, 40);
+    const gray = new ImageMap(makeImage(4, 4, () => [128, 128, 128]), 40, 40);
+    const { vector, weight } = green.direction(20, 20, 'hue');
+
+    expect(Math.atan2(vector.y, vector.x)).toBeCloseTo((Math.PI * 2) / 3);
+    expect(weight).toBeCloseTo(1);
+    expect(gray.direction(20, 20, 'hue').weight).toBe(0);
+  });
+
+  it('should treat dark areas as dense', () => {
+    const map = new ImageMap(horizontalRamp, 100, 100);
+
+    expect(map.density(2, 50)).toBeGreaterThan(0.9);
+    expect(map.density(2, 50, true)).toBeLessThan(0.1);
+  });
+});
+
+describe('direction maps', () => {
+  it('should leave flat areas to the noise', () => {
+    const flat = new ImageMap(makeImage(8, 8, () => [90, 90, 90]), 80, 80);
+
+    expect(applyDirectionMap(flat, 'gradient', 1, 40, 40, { x: 0, y: 1 })).toEqual({ x: 0, y: 1 });
+  });
+
+  it('should steer a FlowField', () => {
+    const field = new FlowField({
+      width: 100,
+      height: 100,
+      resolution: 10,
+      seed: 1,
+      directionMap: { image: horizontalRamp, mode: 'gradient' },
+    });
+
+    expect(field.getVector(50, 50).x).toBeCloseTo(1);
+  });
+});
+
+describe('density maps', () => {
+  it('should place seeds in dense areas only', () => {
+    // Left half black, right half white
+    const halves = makeImage(8, 1, (x) => (x < 4 ? [0, 0, 0] : [255, 255, 255]));
+    const result = generateFlowLines({
+      width: 400,
+      height: 400,
+      lineCount: 40,
+      seed: 42,
+      minLineLength: 1,
+      maxSteps: 1,
+      densityMap: { image: halves },
+    });
+
+    expect(result.lines.length).toBeGreaterThan(20);
+    for (const line of result.lines) {
+      // Pixel centres at 175 (black) and 225 (white) blend in between
+      expect(line.points[0].x).toBeLessThan(225);
+    }
+  });
+
+  it('should shorten lines in sparse areas', () => {
+    const gray = makeImage(1, 1, () => [191, 191, 191]);
+    const result = generateFlowLines({
+      width: 400,
+      height: 400,
+      lineCount: 20,
+      seed: 42,
+      minLineLength: 1,
+      maxSteps: 100,
+      densityMap: { image: gray },
+    });
+
+    for (const line of result.lines) {
+      expect(line.points.length).toBeLessThanOrEqual(26);
+    }
+  });
+});
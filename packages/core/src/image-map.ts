@@ -0,0 +1,196 @@
+import type { RasterImage } from './image.js';
+import type { Vector2D } from './flow-field.js';
+
+/**
+ * How a direction map turns pixels into field directions
+ * - gradient: point from dark toward light
+ * - contour: run along lines of equal brightness
+ * - hue: map the pixel's hue around the circle, ignoring gray pixels
+ */
+export type DirectionMapMode = 'gradient' | 'contour' | 'hue';
+
+export const DIRECTION_MAP_MODES: readonly DirectionMapMode[] = ['gradient', 'contour', 'hue'];
+
+export interface DirectionMap {
+  image: RasterImage;
+  mode?: DirectionMapMode;
+  /** How strongly the image overrides the noise, 0 to 1 (default 1) */
+  strength?: number;
+}
+
+export interface DensityMap {
+  image: RasterImage;
+  /** Treat light areas as dense instead of dark ones */
+  invert?: boolean;
+}
+
+/**
+ * An image stretched over the canvas and sampled with bilinear filtering
+ */
+export class ImageMap {
+  readonly image: RasterImage;
+
+  private scaleX: number;
+  private scaleY: number;
+  private meanGradient: number;
+
+  constructor(image: RasterImage, width: number, height: number) {
+    this.image = image;
+    this.scaleX = image.width / width;
+    this.scaleY = image.height / height;
+    this.meanGradient = this.computeMeanGradient();
+  }
+
+  private pixel(px: number, py: number, channel: number): number {
+    const x = Math.max(0, Math.min(px, this.image.width - 1));
+    const y = Math.max(0, Math.min(py, this.image.height - 1));
+    return this.image.data[(y * this.image.width + x) * 4 + channel] / 255;
+  }
+
+  private pixelLuminance(px: number, py: number): number {
+    return (
+      0.2126 * this.pixel(px, py, 0) +
+      0.7152 * this.pixel(px, py, 1) +
+      0.0722 * this.pixel(px, py, 2)
+    );
+  }
+
+  /**
+   * Bilinear sample of a channel at image coordinates, pixel centres at +0.5
+   */
+  private sample(ix: number, iy: number, read: (px: number, py: number) => number): number {
+    const gx = ix - 0.5;
+    const gy = iy - 0.5;
+    const x0 = Math.floor(gx);
+    const y0 = Math.floor(gy);
+    const tx = gx - x0;
+    const ty = gy - y0;
+
+    const top = read(x0, y0) * (1 - tx) + read(x0 + 1, y0) * tx;
+    const bottom = read(x0, y0 + 1) * (1 - tx) + read(x0 + 1, y0 + 1) * tx;
+    return top * (1 - ty) + bottom * ty;
+  }
+
+  /**
+   * Relative luminance at canvas position (x, y), 0 (black) to 1 (white)
+   */
+  luminance(x: number, y: number): number {
+    return this.sample(x * this.scaleX, y * this.scaleY, (px, py) => this.pixelLuminance(px, py));
+  }
+
+  /**
+   * RGB at canvas position (x, y), each 0 to 1
+   */
+  color(x: number, y: number): [number, number, number] {
+    const ix = x * this.scaleX;
+    const iy = y * this.scaleY;
+    return [0, 1, 2].map((channel) =>
+      this.sample(ix, iy, (px, py) => this.pixel(px, py, channel))
+    ) as [number, number, number];
+  }
+
+  /**
+   * Sobel luminance gradient at canvas position (x, y), per image pixel
+   */
+  gradient(x: number, y: number): Vector2D {
+    const ix = x * this.scaleX;
+    const iy = y * this.scaleY;
+    const l = (dx: number, dy: number) =>
+      this.sample(ix + dx, iy + dy, (px, py) => this.pixelLuminance(px, py));
+
+    return {
+      x: (l(1, -1) + 2 * l(1, 0) + l(1, 1) - l(-1, -1) - 2 * l(-1, 0) - l(-1, 1)) / 8,
+      y: (l(-1, 1) + 2 * l(0, 1) + l(1, 1) - l(-1, -1) - 2 * l(0, -1) - l(1, -1)) / 8,
+    };
+  }
+
+  /**
+   * Mean gradient magnitude over the whole image, used to judge which
+   * edges are strong enough to steer the field
+   */
+  private computeMeanGradient(): number {
+    const { width, height } = this.image;
+    let total = 0;
+
+    for (let py = 0; py < height; py++) {
+      for (let px = 0; px < width; px++) {
+        const gx = this.pixelLuminance(px + 1, py) - this.pixelLuminance(px - 1, py);
+        const gy = this.pixelLuminance(px, py + 1) - this.pixelLuminance(px, py - 1);
+        total += Math.hypot(gx, gy) / 2;
+      }
+    }
+
+    return total / (width * height);
+  }
+
+  /**
+   * Field direction from the image and how much it should count, 0 to 1
+   */
+  direction(x: number, y: number, mode: DirectionMapMode): { vector: Vector2D; weight: number } {
+    if (mode === 'hue') {
+      const [r, g, b] = this.color(x, y);
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      const chroma = max - min;
+      if (chroma === 0) {
+        return { vector: { x: 1, y: 0 }, weight: 0 };
+      }
+
+      let hue: number;
+      if (max === r) {
+        hue = ((g - b) / chroma + 6) % 6;
+      } else if (max === g) {
+        hue = (b - r) / chroma + 2;
+      } else {
+        hue = (r - g) / chroma + 4;
+      }
+      const angle = (hue / 6) * Math.PI * 2;
+      return { vector: { x: Math.cos(angle), y: Math.sin(angle) }, weight: max === 0 ? 0 : chroma / max };
+    }
+
+    const g = this.gradient(x, y);
+    const magnitude = Math.hypot(g.x, g.y);
+    if (magnitude === 0 || this.meanGradient === 0) {
+      return { vector: { x: 1, y: 0 }, weight: 0 };
+    }
+
+    const weight = Math.min(1, magnitude / this.meanGradient);
+    const vector = mode === 'contour'
+      ? { x: -g.y / magnitude, y: g.x / magnitude }
+      : { x: g.x / magnitude, y: g.y / magnitude };
+    return { vector, weight };
+  }
+
+  /**
+   * Line density at canvas position (x, y): 1 for black, 0 for white,
+   * or the other way round when inverted
+   */
+  density(x: number, y: number, invert: boolean = false): number {
+    const luminance = this.luminance(x, y);
+    return invert ? luminance : 1 - luminance;
+  }
+}
+
+/**
+ * Blend a field direction toward the direction map at (x, y)
+ */
+export function applyDirectionMap(
+  map: ImageMap,
+  mode: DirectionMapMode,
+  strength: number,
+  x: number,
+  y: number,
+  vector: Vector2D
+): Vector2D {
+  const { vector: target, weight } = map.direction(x, y, mode);
+  const t = strength * weight;
+  if (t === 0) {
+    return vector;
+  }
+
+  const bx = vector.x + (target.x - vector.x) * t;
+  const by = vector.y + (target.y - vector.y) * t;
+  const length = Math.hypot(bx, by);
+
+  return length > 0 ? { x: bx / length, y: by / length } : target;
+}
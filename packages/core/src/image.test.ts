@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'node:zlib';
+import { decodeImage, decodePNG, decodePNM } from './image.js';
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(new TextEncoder().encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+/**
+ * Build a PNG from already-filtered scanlines (each starting with its filter byte)
+ */
+function encodePNG(
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number,
+  scanlines: number[][],
+  extra: Uint8Array[] = []
+): Uint8Array {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = colorType;
+
+  const parts = [
+    new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk('IHDR', header),
+    ...extra,
+    chunk('IDAT', deflateSync(new Uint8Array(scanlines.flat()))),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function pixel(image: { width: number; data: Uint8ClampedArray }, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+describe('decodePNG', () => {
+  it('should decode 8-bit RGB', () => {
+    const image = decodePNG(encodePNG(2, 1, 8, 2, [[0, 255, 0, 0, 0, 0, 255]]));
+
+    expect(image.width).toBe(2);
+    expect(image.height).toBe(1);
+    expect(pixel(image, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(image, 1, 0)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('should decode grayscale with alpha and 16-bit samples', () => {
+    const grayAlpha = decodePNG(encodePNG(1, 1, 8, 4, [[0, 100, 50]]));
+    const gray16 = decodePNG(encodePNG(1, 1, 16, 0, [[0, 0x80, 0xff]]));
+
+    expect(pixel(grayAlpha, 0, 0)).toEqual([100, 100, 100, 50]);
+    expect(pixel(gray16, 0, 0)).toEqual([128, 128, 128, 255]);
+  });
+
+  it('should decode sub-byte palette images with transparency', () => {
+    const palette = chunk('PLTE', new Uint8Array([0, 0, 0, 255, 255, 255]));
+    const trns = chunk('tRNS', new Uint8Array([0]));
+    // 1-bit indices 0,1,1,0 packed MSB first
+    const image = decodePNG(encodePNG(4, 1, 1, 3, [[0, 0b01100000]], [palette, trns]));
+
+    expect(pixel(image, 0, 0)).toEqual([0, 0, 0, 0]);
+    expect(pixel(image, 1, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(image, 3, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should scale low bit depth grayscale', () => {
+    const image = decodePNG(encodePNG(2, 1, 2, 0, [[0, 0b11010000]]));
+
+    expect(pixel(image, 0, 0)[0]).toBe(255);
+    expect(pixel(image, 1, 0)[0]).toBe(85);
+  });
+
+  it('should reverse every scanline filter', () => {
+    // Gray 8-bit, 3 pixels per row; every row decodes to [10, 20, 30] + 10 * row
+    const image = decodePNG(encodePNG(3, 5, 8, 0, [
+      [0, 10, 20, 30],
+      [1, 20, 10, 10], // sub
+      [2, 10, 10, 10], // up
+      [3, 25, 10, 10], // average
+      [4, 10, 10, 10], // paeth
+    ]));
+
+    for (let row = 0; row < 5; row++) {
+      expect([0, 1, 2].map((x) => pixel(image, x, row)[0])).toEqual([10, 20, 30].map((v) => v + 10 * row));
+    }
+  });
+
+  it('should reject interlaced and malformed files', () => {
+    const png = encodePNG(1, 1, 8, 0, [[0, 0]]);
+    const interlaced = png.slice();
+    interlaced[8 + 8 + 12] = 1;
+
+    expect(() => decodePNG(interlaced)).toThrow('Interlaced');
+    expect(() => decodePNG(new Uint8Array([1, 2, 3]))).toThrow('Not a PNG');
+  });
+});
+
+describe('decodePNM', () => {
+  it('should decode ASCII PGM with comments', () => {
+    const image = decodePNM(new TextEncoder().encode('P2\n# a comment\n2 1\n15\n0 15\n'));
+
+    expect(pixel(image, 0, 0)).toEqual([0, 0, 0, 255]);
+    expect(pixel(image, 1, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should decode binary PGM and PPM', () => {
+    const pgm = new Uint8Array([...new TextEncoder().encode('P5 2 1 255\n'), 10, 200]);
+    const ppm = new Uint8Array([...new TextEncoder().encode('P6 1 1 255\n'), 1, 2, 3]);
+
+    expect(pixel(decodePNM(pgm), 1, 0)).toEqual([200, 200, 200, 255]);
+    expect(pixel(decodePNM(ppm), 0, 0)).toEqual([1, 2, 3, 255]);
+  });
+
+  it('should reject truncated data', () => {
+    expect(() => decodePNM(new TextEncoder().encode('P5 4 4 255\n'))).toThrow('truncated');
+    expect(() => decodePNM(new TextEncoder().encode('P2 2 2 255\n1 2'))).toThrow('truncated');
+  });
+});
+
+describe('decodeImage', () => {
+  it('should detect the format from the file contents', () => {
+    expect(decodeImage(encodePNG(1, 1, 8, 0, [[0, 7]])).data[0]).toBe(7);
+    expect(decodeImage(new TextEncoder().encode('P2 1 1 255 9')).data[0]).toBe(9);
+    expect(() => decodeImage(new Uint8Array([0xff, 0xd8, 0xff]))).toThrow('Unsupported');
+  });
+});
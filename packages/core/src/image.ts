@@ -0,0 +1,252 @@
+import { inflate } from './inflate.js';
+
+/**
+ * Decoded image as RGBA bytes, row-major from the top left.
+ * Structurally compatible with the browser's ImageData.
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/**
+ * Decode a PNG, PGM or PPM file, detected from its leading bytes
+ */
+export function decodeImage(bytes: Uint8Array): RasterImage {
+  if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+    return decodePNG(bytes);
+  }
+  if (bytes[0] === 0x50 && bytes[1] >= 0x32 && bytes[1] <= 0x36 && bytes[1] !== 0x34) {
+    return decodePNM(bytes);
+  }
+  throw new Error('Unsupported image format: expected PNG, PGM or PPM');
+}
+
+/**
+ * Decode a non-interlaced PNG of any color type and bit depth
+ */
+export function decodePNG(bytes: Uint8Array): RasterImage {
+  if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let pos = 8;
+  while (pos + 8 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const start = pos + 8;
+    const chunk = bytes.subarray(start, start + length);
+    pos = start + length + 4;
+
+    if (type === 'IHDR') {
+      width = view.getUint32(start);
+      height = view.getUint32(start + 4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) {
+        throw new Error('Interlaced PNG images are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (width === 0 || height === 0) {
+    throw new Error('PNG is missing its IHDR header');
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (channels === undefined) {
+    throw new Error(`Unsupported PNG color type ${colorType}`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('Palette PNG is missing its PLTE chunk');
+  }
+
+  const compressed = new Uint8Array(idat.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const pixels = unfilter(inflate(compressed), height, stride, Math.max(1, bitsPerPixel >> 3));
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const maxValue = (1 << Math.min(bitDepth, 8)) - 1;
+
+  // Read the nth sample of a row, scaled to 8 bits
+  const sample = (row: number, index: number): number => {
+    const base = row * stride;
+    if (bitDepth === 16) return pixels[base + index * 2];
+    if (bitDepth === 8) return pixels[base + index];
+    const bit = index * bitDepth;
+    const raw = (pixels[base + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxValue;
+    return colorType === 3 ? raw : Math.round((raw * 255) / maxValue);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const i = x * channels;
+
+      if (colorType === 3) {
+        const entry = sample(y, x);
+        data[out] = palette![entry * 3];
+        data[out + 1] = palette![entry * 3 + 1];
+        data[out + 2] = palette![entry * 3 + 2];
+        data[out + 3] = transparency && entry < transparency.length ? transparency[entry] : 255;
+      } else if (channels <= 2) {
+        const gray = sample(y, i);
+        data[out] = data[out + 1] = data[out + 2] = gray;
+        data[out + 3] = channels === 2 ? sample(y, i + 1) : 255;
+      } else {
+        data[out] = sample(y, i);
+        data[out + 1] = sample(y, i + 1);
+        data[out + 2] = sample(y, i + 2);
+        data[out + 3] = channels === 4 ? sample(y, i + 3) : 255;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Reverse the per-scanline PNG filters
+ */
+function unfilter(raw: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+  if (raw.length < height * (stride + 1)) {
+    throw new Error('PNG image data is truncated');
+  }
+
+  const out = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+      let value = raw[src + x];
+
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          value += a;
+          break;
+        case 2:
+          value += b;
+          break;
+        case 3:
+          value += (a + b) >> 1;
+          break;
+        case 4: {
+          const p = a + b - c;
+          const pa = Math.abs(p - a);
+          const pb = Math.abs(p - b);
+          const pc = Math.abs(p - c);
+          value += pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+          break;
+        }
+        default:
+          throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+
+      out[row + x] = value & 0xff;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Decode a PGM (P2/P5) or PPM (P3/P6) image
+ */
+export function decodePNM(bytes: Uint8Array): RasterImage {
+  let pos = 0;
+
+  // Header tokens are whitespace separated, with # comments to end of line
+  const token = (): string => {
+    for (;;) {
+      while (pos < bytes.length && /\s/.test(String.fromCharCode(bytes[pos]))) pos++;
+      if (bytes[pos] !== 0x23) break;
+      while (pos < bytes.length && bytes[pos] !== 0x0a) pos++;
+    }
+    const start = pos;
+    while (pos < bytes.length && !/\s/.test(String.fromCharCode(bytes[pos]))) pos++;
+    return String.fromCharCode(...bytes.subarray(start, pos));
+  };
+
+  const magic = token();
+  if (!['P2', 'P3', 'P5', 'P6'].includes(magic)) {
+    throw new Error(`Unsupported PNM format ${magic}`);
+  }
+
+  const width = parseInt(token(), 10);
+  const height = parseInt(token(), 10);
+  const maxValue = parseInt(token(), 10);
+  if (!(width > 0 && height > 0 && maxValue > 0 && maxValue < 65536)) {
+    throw new Error('Invalid PNM header');
+  }
+
+  const channels = magic === 'P2' || magic === 'P5' ? 1 : 3;
+  const count = width * height * channels;
+  const values = new Array<number>(count);
+
+  if (magic === 'P2' || magic === 'P3') {
+    for (let i = 0; i < count; i++) {
+      values[i] = parseInt(token(), 10);
+    }
+  } else {
+    // A single whitespace byte separates the header from binary data
+    pos++;
+    const wide = maxValue > 255;
+    if (pos + count * (wide ? 2 : 1) > bytes.length) {
+      throw new Error('PNM image data is truncated');
+    }
+    for (let i = 0; i < count; i++) {
+      values[i] = wide ? (bytes[pos] << 8) | bytes[pos + 1] : bytes[pos];
+      pos += wide ? 2 : 1;
+    }
+  }
+
+  if (values.some((v) => Number.isNaN(v))) {
+    throw new Error('PNM image data is truncated');
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < 3; c++) {
+      data[p * 4 + c] = Math.round((values[p * channels + (channels === 1 ? 0 : c)] * 255) / maxValue);
+    }
+    data[p * 4 + 3] = 255;
+  }
+
+  return { width, height, data };
+}
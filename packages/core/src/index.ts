@@ -1,15 +1,157 @@
 // Noise generation
-export { SimplexNoise, createNoise } from './noise.js';
-export type { NoiseOptions } from './noise.js';
+export { SimplexNoise, createNoise, noiseAngle, NOISE_TYPES } from './noise.js';
+export type { NoiseOptions, NoiseType, NoiseTypeOptions } from './noise.js';
+export { NoiseBase, seededPermutation } from './noise-base.js';
+export type { Noise } from './noise-base.js';
+export { PerlinNoise } from './perlin-noise.js';
+export { ValueNoise } from './value-noise.js';
+export { WorleyNoise, WORLEY_MODES } from './worley-noise.js';
+export type { WorleyMode } from './worley-noise.js';
+export { CurlNoise } from './curl-noise.js';
+export { TimeSliceNoise } from './time-noise.js';
+export { TorusNoise } from './torus-noise.js';
+export { warpPoint, warpedFbm, parseDomainWarp } from './domain-warp.js';
+export type { DomainWarp } from './domain-warp.js';
+
+// Noise layers
+export { LayeredNoise, parseNoiseLayers, BLEND_MODES } from './layers.js';
+export type { NoiseLayer, NoiseParameters, BlendMode } from './layers.js';
+
+// Field influences
+export { applyInfluences, parseInfluences, FALLOFFS } from './influences.js';
+export type { Influence, InfluenceType, Falloff } from './influences.js';
+
+// Obstacles
+export { applyObstacles, isBlocked, parseObstacles } from './obstacles.js';
+export type { Obstacle } from './obstacles.js';
+
+// Direction guides
+export { applyGuides } from './guides.js';
+export type { Guide } from './guides.js';
+
+// Images
+export { decodeImage, decodePNG, decodePNM } from './image.js';
+export type { RasterImage } from './image.js';
+export { ImageMap, applyDirectionMap, DIRECTION_MAP_MODES } from './image-map.js';
+export type { DirectionMap, DirectionMapMode, DensityMap } from './image-map.js';
 
 // Flow field
-export { FlowField } from './flow-field.js';
-export type { FlowFieldOptions, Vector2D } from './flow-field.js';
+export { FlowField, SAMPLING_MODES } from './flow-field.js';
+export type { FlowFieldOptions, SamplingMode, Vector2D } from './flow-field.js';
 
 // Flow lines generation
 export { generateFlowLines, generateFlowLinesGrid } from './flow-lines.js';
 export type { FlowLinesOptions, FlowLinesResult, FlowLine, Point } from './flow-lines.js';
 
+// Seeding
+export {
+  generateSeeds,
+  gridSeeds,
+  createRandom,
+  parseSeedPath,
+  SEEDING_STRATEGIES,
+  CANVAS_EDGES,
+} from './seeding.js';
+export type {
+  SeedingStrategy,
+  SeedingOptions,
+  SeedingContext,
+  Seeder,
+  CanvasEdge,
+} from './seeding.js';
+
+// Clip shapes
+export {
+  containsPoint,
+  signedDistance,
+  outwardNormal,
+  boundaryCrossing,
+  clipPolyline,
+  presetShape,
+  fitShape,
+  parseShape,
+  SHAPE_TYPES,
+  SHAPE_PRESETS,
+  CLIP_MODES,
+} from './shapes.js';
+export type { Shape, ShapeType, ShapePreset, ClipMode } from './shapes.js';
+export { parseSVGPath, parseSVGShape } from './svg-path.js';
+
+// Line termination
+export { LineMonitor, STOP_REASONS } from './termination.js';
+export type { StopReason, TerminationRules } from './termination.js';
+
+// Line integration
+export { INTEGRATORS, eulerStep, midpointStep, rk4Step, adaptiveStep } from './integrators.js';
+export type { IntegratorType, VectorSampler, AdaptiveOptions, IntegratorStep } from './integrators.js';
+
+// Spatial queries
+export { SpatialHash } from './spatial-hash.js';
+
+// Animation
+export { generateFrames } from './animation.js';
+export type { FrameOptions } from './animation.js';
+
+// Line metadata and styling
+export { describeLine, measureLine } from './line-metadata.js';
+export type { LineMetadata } from './line-metadata.js';
+export { styleLines, parseHexColor, LINE_ATTRIBUTES, COLOR_MODES } from './styling.js';
+export type {
+  LineAttribute,
+  ColorMode,
+  ColorMapping,
+  RangeMapping,
+  LineStyles,
+  LineStyle,
+} from './styling.js';
+
+// Pens
+export { assignPens, parsePens, PEN_STRATEGIES } from './pens.js';
+export type { Pen, PenLayer, PenStrategy, PenAssignment } from './pens.js';
+
+// Pen travel
+export { optimizeTravel, optimizeLayers, penUpDistance } from './travel.js';
+export type { TravelOptions, OptimizedLines, OptimizedLayers } from './travel.js';
+
+// Physical units and paper
+export {
+  toPixels,
+  fromPixels,
+  parseLength,
+  paperSize,
+  parsePaperSize,
+  canvasSize,
+  UNITS,
+  PAPER_SIZES,
+  ORIENTATIONS,
+} from './paper.js';
+export type { Unit, Length, PhysicalSize, PaperSize, Orientation } from './paper.js';
+
+// Plotter output
+export { ORIGINS, machineTransform } from './machine.js';
+export type { Origin, MachinePlacement } from './machine.js';
+export { toGCode, toLayeredGCode, penCommands, PEN_LIFTS, MACHINE_UNITS } from './gcode.js';
+export type { GCodeOptions, PenLift, MachineUnit } from './gcode.js';
+export { simulateGCode } from './gcode-simulator.js';
+export { toHPGL, toLayeredHPGL } from './hpgl.js';
+export type { HPGLOptions } from './hpgl.js';
+export type { GCodeSimulation } from './gcode-simulator.js';
+
+// Plot statistics
+export { plotStats, layeredPlotStats, formatDuration } from './stats.js';
+export type { PlotStats, PlotSpeeds, PlotStatsOptions } from './stats.js';
+
+// Versions
+export {
+  VERSION,
+  ALGORITHM_VERSIONS,
+  LATEST_ALGORITHM_VERSION,
+  resolveAlgorithmVersion,
+} from './version.js';
+export type { AlgorithmVersion } from './version.js';
+
 // SVG export
-export { toSVG, parseSVGOptions } from './svg.js';
-export type { SVGOptions } from './svg.js';
+export { toSVG, toAnimatedSVG, toLayeredSVG, parseSVGOptions, optimizePoints, SVG_ANIMATIONS } from './svg.js';
+export type { SVGOptions, AnimatedSVGOptions, SVGAnimation } from './svg.js';
+export { parseSVGMetadata } from './svg-metadata.js';
+export type { SVGMetadata, PlotSettings } from './svg-metadata.js';
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync, deflateRawSync } from 'node:zlib';
+import { inflate, inflateRaw } from './inflate.js';
+
+function sampleData(length: number): Uint8Array {
+  // Repetitive text with some noise so every block type gets exercised
+  const bytes = new Uint8Array(length);
+  let s = 7;
+  for (let i = 0; i < length; i++) {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    bytes[i] = i % 97 < 60 ? 'flow lines '.charCodeAt(i % 11) : s & 0xff;
+  }
+  return bytes;
+}
+
+describe('inflate', () => {
+  it('should round-trip zlib streams at every compression level', () => {
+    const data = sampleData(50000);
+
+    for (const level of [0, 1, 6, 9]) {
+      expect(inflate(deflateSync(data, { level }))).toEqual(data);
+    }
+  });
+
+  it('should inflate fixed Huffman blocks', () => {
+    const data = new TextEncoder().encode('abc abc abc abc');
+
+    expect(inflateRaw(deflateRawSync(data, { strategy: 4 }))).toEqual(data);
+  });
+
+  it('should inflate empty input', () => {
+    expect(inflate(deflateSync(new Uint8Array(0)))).toEqual(new Uint8Array(0));
+  });
+
+  it('should reject corrupt streams', () => {
+    expect(() => inflate(new Uint8Array([1, 2, 3]))).toThrow('zlib header');
+    expect(() => inflate(deflateSync(sampleData(1000)).subarray(0, 20))).toThrow();
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Pure TypeScript DEFLATE decoder (RFC 1950/1951), so image decoding
+ * works the same in Node and the browser without native dependencies
+ */
+
+// Base lengths and extra bits for length codes 257..285
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115,
+  131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+
+// Base distances and extra bits for distance codes 0..29
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537,
+  2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+
+// Order in which code length code lengths are stored
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface Huffman {
+  /** Number of codes of each bit length */
+  counts: Uint16Array;
+  /** Symbols ordered by code */
+  symbols: Uint16Array;
+}
+
+class BitReader {
+  private pos = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private data: Uint8Array, start: number) {
+    this.pos = start;
+  }
+
+  bits(n: number): number {
+    while (this.bitCount < n) {
+      if (this.pos >= this.data.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      this.bitBuffer |= this.data[this.pos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << n) - 1);
+    this.bitBuffer >>>= n;
+    this.bitCount -= n;
+    return value;
+  }
+
+  /** Discard bits up to the next byte boundary */
+  align(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  bytes(n: number): Uint8Array {
+    if (this.pos + n > this.data.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    const out = this.data.subarray(this.pos, this.pos + n);
+    this.pos += n;
+    return out;
+  }
+
+  decode(table: Huffman): number {
+    // Canonical Huffman decoding, one bit at a time
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len <= 15; len++) {
+      code |= this.bits(1);
+      const count = table.counts[len];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code');
+  }
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 15; len++) {
+    offsets[len + 1] = offsets[len] + counts[len];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) {
+      symbols[offsets[lengths[i]]++] = i;
+    }
+  }
+
+  return { counts, symbols };
+}
+
+let fixedTables: { literal: Huffman; distance: Huffman } | null = null;
+
+function getFixedTables(): { literal: Huffman; distance: Huffman } {
+  if (!fixedTables) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedTables = {
+      literal: buildHuffman(lengths),
+      distance: buildHuffman(new Uint8Array(30).fill(5)),
+    };
+  }
+  return fixedTables;
+}
+
+function readDynamicTables(reader: BitReader): { literal: Huffman; distance: Huffman } {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+
+  const codeLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const codeLengthTable = buildHuffman(codeLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let i = 0;
+  while (i < lengths.length) {
+    const symbol = reader.decode(codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new Error('Invalid code length repeat');
+      value = lengths[i - 1];
+      repeat = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3);
+    } else {
+      repeat = 11 + reader.bits(7);
+    }
+    if (i + repeat > lengths.length) {
+      throw new Error('Invalid code lengths');
+    }
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return {
+    literal: buildHuffman(lengths.subarray(0, literalCount)),
+    distance: buildHuffman(lengths.subarray(literalCount)),
+  };
+}
+
+/**
+ * Growable output buffer
+ */
+class Output {
+  data = new Uint8Array(1 << 16);
+  length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.data.length) return;
+    let size = this.data.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.data.subarray(0, this.length));
+    this.data = grown;
+  }
+
+  push(byte: number): void {
+    this.ensure(1);
+    this.data[this.length++] = byte;
+  }
+
+  append(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.data.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  copy(distance: number, length: number): void {
+    if (distance > this.length) {
+      throw new Error('Invalid back-reference distance');
+    }
+    this.ensure(length);
+    // Byte by byte: the source may overlap the bytes being written
+    for (let i = 0; i < length; i++) {
+      this.data[this.length] = this.data[this.length - distance];
+      this.length++;
+    }
+  }
+}
+
+/**
+ * Decompress a raw DEFLATE stream starting at `start`
+ */
+export function inflateRaw(data: Uint8Array, start: number = 0): Uint8Array {
+  const reader = new BitReader(data, start);
+  const out = new Output();
+
+  let last = 0;
+  while (!last) {
+    last = reader.bits(1);
+    const type = reader.bits(2);
+
+    if (type === 0) {
+      reader.align();
+      const header = reader.bytes(4);
+      const length = header[0] | (header[1] << 8);
+      out.append(reader.bytes(length));
+      continue;
+    }
+
+    if (type === 3) {
+      throw new Error('Invalid DEFLATE block type');
+    }
+
+    const { literal, distance } = type === 1 ? getFixedTables() : readDynamicTables(reader);
+
+    for (;;) {
+      const symbol = reader.decode(literal);
+      if (symbol < 256) {
+        out.push(symbol);
+        continue;
+      }
+      if (symbol === 256) {
+        break;
+      }
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error('Invalid length code');
+      }
+      const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+
+      const distanceIndex = reader.decode(distance);
+      if (distanceIndex >= DIST_BASE.length) {
+        throw new Error('Invalid distance code');
+      }
+      out.copy(DIST_BASE[distanceIndex] + reader.bits(DIST_EXTRA[distanceIndex]), length);
+    }
+  }
+
+  return out.data.slice(0, out.length);
+}
+
+/**
+ * Decompress a zlib-wrapped DEFLATE stream, as stored in PNG IDAT chunks
+ */
+export function inflate(data: Uint8Array): Uint8Array {
+  if (data.length < 2) {
+    throw new Error('Invalid zlib stream');
+  }
+  const cmf = data[0];
+  const flags = data[1];
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flags) % 31 !== 0) {
+    throw new Error('Invalid zlib header');
+  }
+  if (flags & 0x20) {
+    throw new Error('Preset zlib dictionaries are not supported');
+  }
+  return inflateRaw(data, 2);
+}
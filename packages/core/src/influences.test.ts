@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { applyInfluences, parseInfluences, type Influence } from './influences.js';
+import { FlowField } from './flow-field.js';
+
+const east = { x: 1, y: 0 };
+
+describe('applyInfluences', () => {
+  it('should point straight at a full-strength attractor', () => {
+    const attractor: Influence = {
+      type: 'attractor',
+      points: [{ x: 50, y: 100 }],
+      radius: 100,
+      falloff: 'constant',
+    };
+
+    const vector = applyInfluences([attractor], 50, 50, east);
+
+    expect(vector.x).toBeCloseTo(0);
+    expect(vector.y).toBeCloseTo(1);
+  });
+
+  it('should point away from a repeller', () => {
+    const repeller: Influence = {
+      type: 'repeller',
+      points: [{ x: 50, y: 100 }],
+      radius: 100,
+      falloff: 'constant',
+    };
+
+    const vector = applyInfluences([repeller], 50, 50, east);
+
+    expect(vector.y).toBeCloseTo(-1);
+  });
+
+  it('should leave the field alone outside the radius', () => {
+    const attractor: Influence = { type: 'attractor', points: [{ x: 0, y: 0 }], radius: 10 };
+
+    expect(applyInfluences([attractor], 50, 50, east)).toEqual(east);
+  });
+
+  it('should weaken with distance', () => {
+    const attractor: Influence = {
+      type: 'attractor',
+      points: [{ x: 0, y: 100 }],
+      radius: 100,
+      strength: 0.8,
+      falloff: 'linear',
+    };
+
+    const near = applyInfluences([attractor], 0, 90, east);
+    const far = applyInfluences([attractor], 0, 20, east);
+
+    expect(near.y).toBeGreaterThan(far.y);
+    expect(far.y).toBeGreaterThan(0);
+  });
+
+  it('should attract toward the closest point of a polyline', () => {
+    const attractor: Influence = {
+      type: 'attractor',
+      points: [{ x: 0, y: 100 }, { x: 200, y: 100 }],
+      radius: 100,
+      falloff: 'constant',
+    };
+
+    const vector = applyInfluences([attractor], 150, 60, east);
+
+    expect(vector.x).toBeCloseTo(0);
+    expect(vector.y).toBeCloseTo(1);
+  });
+
+  it('should bend a FlowField', () => {
+    const options = { width: 200, height: 200, resolution: 10, seed: 1 };
+    const plain = new FlowField(options);
+    const bent = new FlowField({
+      ...options,
+      influences: [{ type: 'attractor', points: [{ x: 100, y: 100 }], radius: 50, falloff: 'constant' }],
+    });
+
+    expect(bent.getVector(100, 60).y).toBeCloseTo(1);
+    expect(bent.getAngle(10, 10)).toBe(plain.getAngle(10, 10));
+  });
+});
+
+describe('parseInfluences', () => {
+  it('should parse an influences object', () => {
+    const influences = parseInfluences({
+      influences: [
+        { type: 'repeller', points: [{ x: 1, y: 2 }], radius: 30, strength: 0.5, falloff: 'linear' },
+      ],
+    });
+
+    expect(influences).toEqual([
+      { type: 'repeller', points: [{ x: 1, y: 2 }], radius: 30, strength: 0.5, falloff: 'linear' },
+    ]);
+  });
+
+  it('should reject malformed influences', () => {
+    expect(() => parseInfluences([{ type: 'sink', points: [{ x: 0, y: 0 }], radius: 1 }])).toThrow('type');
+    expect(() => parseInfluences([{ type: 'attractor', points: [], radius: 1 }])).toThrow('points');
+    expect(() => parseInfluences([{ type: 'attractor', points: [{ x: 0, y: 0 }] }])).toThrow('radius');
+    expect(() => parseInfluences('nope')).toThrow();
+  });
+});
@@ -0,0 +1,119 @@
+import type { Point } from './flow-lines.js';
+import type { Vector2D } from './flow-field.js';
+import { closestPointOnPolyline } from './geometry.js';
+import { isRecord, isPoint, getList } from './json.js';
+
+export type InfluenceType = 'attractor' | 'repeller';
+
+/**
+ * How an influence fades from full strength at its centre line to
+ * nothing at its radius
+ */
+export type Falloff = 'linear' | 'smooth' | 'quadratic' | 'constant';
+
+export const FALLOFFS: readonly Falloff[] = ['linear', 'smooth', 'quadratic', 'constant'];
+
+/**
+ * A point or polyline that bends the field toward or away from itself
+ */
+export interface Influence {
+  type: InfluenceType;
+  /** One point, or the vertices of a polyline */
+  points: Point[];
+  radius: number;
+  /** 0 leaves the field untouched, 1 points straight at or away from the influence */
+  strength?: number;
+  falloff?: Falloff;
+}
+
+/**
+ * Bend a field direction by every influence in range of (x, y)
+ */
+export function applyInfluences(
+  influences: Influence[],
+  x: number,
+  y: number,
+  vector: Vector2D
+): Vector2D {
+  let { x: vx, y: vy } = vector;
+
+  for (const influence of influences) {
+    if (influence.points.length === 0) continue;
+
+    const { point, distance } = closestPointOnPolyline(influence.points, x, y);
+    if (distance >= influence.radius || distance === 0) continue;
+
+    const weight = (influence.strength ?? 1) *
+      falloffWeight(influence.falloff ?? 'smooth', 1 - distance / influence.radius);
+
+    // Unit vector toward the influence, flipped for repellers
+    const sign = influence.type === 'attractor' ? 1 : -1;
+    const tx = ((point.x - x) / distance) * sign;
+    const ty = ((point.y - y) / distance) * sign;
+
+    const bx = vx + (tx - vx) * weight;
+    const by = vy + (ty - vy) * weight;
+    const length = Math.hypot(bx, by);
+
+    if (length > 0) {
+      vx = bx / length;
+      vy = by / length;
+    }
+  }
+
+  return { x: vx, y: vy };
+}
+
+/**
+ * Weight for a position `t` of the way in from the radius (0) to the centre (1)
+ */
+function falloffWeight(falloff: Falloff, t: number): number {
+  switch (falloff) {
+    case 'linear':
+      return t;
+    case 'quadratic':
+      return t * t;
+    case 'constant':
+      return 1;
+    default:
+      return t * t * (3 - 2 * t);
+  }
+}
+
+/**
+ * Parse influences from JSON, e.g. a CLI config file.
+ * Accepts an array of influences or an object with an `influences` array.
+ */
+export function parseInfluences(json: unknown): Influence[] {
+  const list = getList(json, 'influences');
+
+  if (!list) {
+    throw new Error('Influences must be an array or an object with an "influences" array');
+  }
+
+  return list.map((entry, index) => {
+    if (!isRecord(entry)) {
+      throw new Error(`Influence ${index} must be an object`);
+    }
+    if (entry.type !== 'attractor' && entry.type !== 'repeller') {
+      throw new Error(`Influence ${index} must have type "attractor" or "repeller"`);
+    }
+    if (!Array.isArray(entry.points) || entry.points.length === 0 || !entry.points.every(isPoint)) {
+      throw new Error(`Influence ${index} needs a non-empty "points" array of {x, y}`);
+    }
+    if (typeof entry.radius !== 'number' || entry.radius <= 0) {
+      throw new Error(`Influence ${index} needs a positive "radius"`);
+    }
+    if (entry.falloff !== undefined && !FALLOFFS.includes(entry.falloff as Falloff)) {
+      throw new Error(`Influence ${index} has unknown falloff "${String(entry.falloff)}"`);
+    }
+
+    return {
+      type: entry.type,
+      points: entry.points.map(({ x, y }) => ({ x, y })),
+      radius: entry.radius,
+      strength: typeof entry.strength === 'number' ? entry.strength : undefined,
+      falloff: entry.falloff as Falloff | undefined,
+    };
+  });
+}
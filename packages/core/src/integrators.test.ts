@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { eulerStep, midpointStep, rk4Step, adaptiveStep, type VectorSampler } from './integrators.js';
+import type { Point } from './flow-lines.js';
+
+// Unit-speed rotation about the origin: exact paths are circles
+const rotation: VectorSampler = (x, y) => {
+  const r = Math.hypot(x, y);
+  return { x: -y / r, y: x / r };
+};
+
+function radiusDrift(step: (p: Point) => Point, steps: number): number {
+  let p: Point = { x: 10, y: 0 };
+  for (let i = 0; i < steps; i++) {
+    p = step(p);
+  }
+  return Math.abs(Math.hypot(p.x, p.y) - 10);
+}
+
+describe('integrators', () => {
+  it('should reduce drift with higher order schemes', () => {
+    const euler = radiusDrift((p) => eulerStep(rotation, p, 1), 60);
+    const midpoint = radiusDrift((p) => midpointStep(rotation, p, 1), 60);
+    const rk4 = radiusDrift((p) => rk4Step(rotation, p, 1), 60);
+
+    expect(midpoint).toBeLessThan(euler);
+    expect(rk4).toBeLessThan(midpoint);
+    expect(rk4).toBeLessThan(0.01);
+  });
+
+  it('should step by the step length in a uniform field', () => {
+    const uniform: VectorSampler = () => ({ x: 0, y: 1 });
+
+    expect(eulerStep(uniform, { x: 0, y: 0 }, 3)).toEqual({ x: 0, y: 3 });
+    expect(rk4Step(uniform, { x: 0, y: 0 }, 3)).toEqual({ x: 0, y: 3 });
+  });
+
+  it('should shrink adaptive steps in tight curves', () => {
+    const options = { tolerance: 1e-4, minStepLength: 0.01, maxStepLength: 8 };
+
+    const tight = adaptiveStep(rotation, { x: 2, y: 0 }, 8, options);
+    const loose = adaptiveStep(rotation, { x: 2000, y: 0 }, 8, options);
+
+    expect(tight.nextStepLength).toBeLessThan(loose.nextStepLength);
+    expect(Math.abs(Math.hypot(tight.point.x, tight.point.y) - 2)).toBeLessThan(1e-3);
+  });
+
+  it('should keep adaptive steps within bounds', () => {
+    const options = { tolerance: 1, minStepLength: 0.5, maxStepLength: 4 };
+    const uniform: VectorSampler = () => ({ x: 1, y: 0 });
+
+    const step = adaptiveStep(uniform, { x: 0, y: 0 }, 100, options);
+
+    expect(step.point.x).toBe(4);
+    expect(step.nextStepLength).toBe(4);
+  });
+});
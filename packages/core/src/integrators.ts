@@ -0,0 +1,124 @@
+import type { Vector2D } from './flow-field.js';
+import type { Point } from './flow-lines.js';
+
+/**
+ * Numerical scheme used to advance a line through the field
+ * - euler: single sample per step, cheapest but drifts in tight curves
+ * - midpoint: second-order Runge-Kutta
+ * - rk4: classic fourth-order Runge-Kutta
+ * - adaptive: rk4 with step doubling, resizing each step to meet a tolerance
+ */
+export type IntegratorType = 'euler' | 'midpoint' | 'rk4' | 'adaptive';
+
+export const INTEGRATORS: readonly IntegratorType[] = ['euler', 'midpoint', 'rk4', 'adaptive'];
+
+/**
+ * Direction of travel at a position
+ */
+export type VectorSampler = (x: number, y: number) => Vector2D;
+
+export interface IntegratorStep {
+  /** Position after the step */
+  point: Point;
+  /** Step length to try next */
+  nextStepLength: number;
+}
+
+export interface AdaptiveOptions {
+  /** Largest accepted position error per step, in canvas units */
+  tolerance: number;
+  minStepLength: number;
+  maxStepLength: number;
+}
+
+/**
+ * Forward Euler step
+ */
+export function eulerStep(sample: VectorSampler, p: Point, h: number): Point {
+  const v = sample(p.x, p.y);
+  return {
+    x: p.x + v.x * h,
+    y: p.y + v.y * h,
+  };
+}
+
+/**
+ * Midpoint (RK2) step
+ */
+export function midpointStep(sample: VectorSampler, p: Point, h: number): Point {
+  const k1 = sample(p.x, p.y);
+  const k2 = sample(p.x + k1.x * h / 2, p.y + k1.y * h / 2);
+  return {
+    x: p.x + k2.x * h,
+    y: p.y + k2.y * h,
+  };
+}
+
+/**
+ * Classic fourth-order Runge-Kutta step
+ */
+export function rk4Step(sample: VectorSampler, p: Point, h: number): Point {
+  const k1 = sample(p.x, p.y);
+  const k2 = sample(p.x + k1.x * h / 2, p.y + k1.y * h / 2);
+  const k3 = sample(p.x + k2.x * h / 2, p.y + k2.y * h / 2);
+  const k4 = sample(p.x + k3.x * h, p.y + k3.y * h);
+  return {
+    x: p.x + (k1.x + 2 * k2.x + 2 * k3.x + k4.x) * h / 6,
+    y: p.y + (k1.y + 2 * k2.y + 2 * k3.y + k4.y) * h / 6,
+  };
+}
+
+/**
+ * RK4 step with step doubling: a full step is compared against two half
+ * steps, and the step is halved until the difference is within tolerance.
+ * The accepted step's error also decides how large the next step may be.
+ */
+export function adaptiveStep(
+  sample: VectorSampler,
+  p: Point,
+  h: number,
+  options: AdaptiveOptions
+): IntegratorStep {
+  const { tolerance, minStepLength, maxStepLength } = options;
+  let step = Math.max(minStepLength, Math.min(h, maxStepLength));
+
+  for (;;) {
+    const full = rk4Step(sample, p, step);
+    const half = rk4Step(sample, rk4Step(sample, p, step / 2), step / 2);
+    const error = Math.sqrt((full.x - half.x) ** 2 + (full.y - half.y) ** 2);
+
+    if (error > tolerance && step > minStepLength) {
+      step = Math.max(minStepLength, step / 2);
+      continue;
+    }
+
+    // Fifth-order error estimate: grow cautiously, never more than double
+    const growth = error === 0 ? 2 : Math.min(2, 0.9 * (tolerance / error) ** 0.2);
+    return {
+      point: half,
+      nextStepLength: Math.max(minStepLength, Math.min(step * growth, maxStepLength)),
+    };
+  }
+}
+
+/**
+ * Advance `p` by one step with the given integrator
+ */
+export function integrate(
+  integrator: IntegratorType,
+  sample: VectorSampler,
+  p: Point,
+  h: number,
+  adaptive: AdaptiveOptions
+): IntegratorStep {
+  switch (integrator) {
+    case 'midpoint':
+      return { point: midpointStep(sample, p, h), nextStepLength: h };
+    case 'rk4':
+      return { point: rk4Step(sample, p, h), nextStepLength: h };
+    case 'adaptive':
+      return adaptiveStep(sample, p, h, adaptive);
+    default:
+      return { point: eulerStep(sample, p, h), nextStepLength: h };
+  }
+}
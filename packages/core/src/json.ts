@@ -0,0 +1,27 @@
+import type { Point } from './flow-lines.js';
+
+/**
+ * Helpers for validating parsed JSON config
+ */
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isPoint(value: unknown): value is Point {
+  return isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number';
+}
+
+/**
+ * Find the list in JSON that is either a bare array or an object
+ * holding the array under `key`
+ */
+export function getList(json: unknown, key: string): unknown[] | null {
+  if (Array.isArray(json)) {
+    return json;
+  }
+  if (isRecord(json) && Array.isArray(json[key])) {
+    return json[key] as unknown[];
+  }
+  return null;
+}
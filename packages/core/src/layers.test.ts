@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { LayeredNoise, parseNoiseLayers } from './layers.js';
+import { SimplexNoise, noiseAngle } from './noise.js';
+import { CurlNoise } from './curl-noise.js';
+import { PerlinNoise } from './perlin-noise.js';
+
+const defaults = { noiseScale: 0.01, octaves: 2, persistence: 0.5, lacunarity: 2 };
+
+function layerAngle(seed: number, x: number, y: number): number {
+  return new SimplexNoise(seed).fbm(x * 0.01, y * 0.01, 2, 0.5, 2) * Math.PI * 2;
+}
+
+describe('LayeredNoise', () => {
+  it('should match plain fbm for a single layer', () => {
+    const layers = new LayeredNoise([{ seed: 5 }], defaults);
+
+    expect(layers.angle(30, 40)).toBeCloseTo(layerAngle(5, 30, 40));
+  });
+
+  it('should apply weight and angle offset', () => {
+    const layers = new LayeredNoise([{ seed: 5, weight: 0.5, angleOffset: 1 }], defaults);
+
+    expect(layers.angle(30, 40)).toBeCloseTo(layerAngle(5, 30, 40) * 0.5 + 1);
+  });
+
+  it('should add layers', () => {
+    const layers = new LayeredNoise([{ seed: 5 }, { seed: 6, blend: 'add' }], defaults);
+
+    expect(layers.angle(30, 40)).toBeCloseTo(layerAngle(5, 30, 40) + layerAngle(6, 30, 40));
+  });
+
+  it('should take the min and max of layers', () => {
+    const a = layerAngle(5, 70, 10);
+    const b = layerAngle(6, 70, 10);
+
+    expect(new LayeredNoise([{ seed: 5 }, { seed: 6, blend: 'min' }], defaults).angle(70, 10))
+      .toBeCloseTo(Math.min(a, b));
+    expect(new LayeredNoise([{ seed: 5 }, { seed: 6, blend: 'max' }], defaults).angle(70, 10))
+      .toBeCloseTo(Math.max(a, b));
+  });
+
+  it('should lerp between layers by the mask', () => {
+    const a = layerAngle(5, 12, 34);
+    const b = layerAngle(6, 12, 34);
+    const mask = (new SimplexNoise(7).fbm(12 * 0.01, 34 * 0.01, 2, 0.5, 2) + 1) / 2;
+    const layers = new LayeredNoise(
+      [{ seed: 5 }, { seed: 6, blend: 'lerp', mask: { seed: 7 } }],
+      defaults
+    );
+
+    expect(layers.angle(12, 34)).toBeCloseTo(a + (b - a) * mask);
+  });
+
+  it('should derive distinct seeds for layers without one', () => {
+    const layers = new LayeredNoise([{}, { blend: 'max', weight: 0 }], { ...defaults, seed: 5 });
+
+    expect(layers.angle(30, 40)).toBeCloseTo(Math.max(layerAngle(5, 30, 40), 0));
+  });
+
+  it('should create the noise of a pinned algorithm version', () => {
+    const layers = new LayeredNoise([{ seed: 5 }], defaults, 1);
+
+    expect(layers.angle(30, 40)).toBeCloseTo(layerAngle(5, 30, 40));
+  });
+
+  it('should build curl layers over the curl base noise, inherited from the defaults', () => {
+    const curl = new CurlNoise(new PerlinNoise(5));
+    const expected = noiseAngle(curl, 30 * 0.01, 40 * 0.01, 2, 0.5, 2);
+
+    expect(new LayeredNoise([{ seed: 5, noiseType: 'curl', curlBase: 'perlin' }], defaults).angle(30, 40))
+      .toBeCloseTo(expected);
+    expect(new LayeredNoise([{ seed: 5, noiseType: 'curl' }], { ...defaults, curlBase: 'perlin' }).angle(30, 40))
+      .toBeCloseTo(expected);
+  });
+});
+
+describe('parseNoiseLayers', () => {
+  it('should parse an array or a layers object', () => {
+    const layers = [{ seed: 1, noiseScale: 0.002, weight: 0.5, blend: 'lerp', mask: { seed: 9 } }];
+
+    expect(parseNoiseLayers(layers)).toEqual(parseNoiseLayers({ layers }));
+    expect(parseNoiseLayers(layers)[0]).toMatchObject({
+      seed: 1,
+      noiseScale: 0.002,
+      weight: 0.5,
+      blend: 'lerp',
+      mask: { seed: 9 },
+    });
+  });
+
+  it('should ignore invalid types', () => {
+    const [layer] = parseNoiseLayers([{ seed: 'one', weight: true }]);
+
+    expect(layer.seed).toBeUndefined();
+    expect(layer.weight).toBeUndefined();
+  });
+
+  it('should reject unknown blend modes and malformed input', () => {
+    expect(() => parseNoiseLayers([{ blend: 'screen' }])).toThrow('unknown blend mode');
+    expect(() => parseNoiseLayers({ seed: 1 })).toThrow();
+    expect(() => parseNoiseLayers([3])).toThrow();
+  });
+
+  it('should parse and validate noise types', () => {
+    expect(parseNoiseLayers([{ noiseType: 'worley', worleyMode: 'f2-f1' }])[0]).toMatchObject({
+      noiseType: 'worley',
+      worleyMode: 'f2-f1',
+    });
+    expect(parseNoiseLayers([{ warp: { strength: 3 } }])[0].warp).toMatchObject({ strength: 3 });
+    expect(() => parseNoiseLayers([{ noiseType: 'gabor' }])).toThrow('unknown noise type');
+    expect(() => parseNoiseLayers([{ mask: { worleyMode: 'f3' } }])).toThrow('unknown Worley mode');
+    expect(parseNoiseLayers([{ noiseType: 'curl', curlBase: 'value' }])[0].curlBase).toBe('value');
+    expect(() => parseNoiseLayers([{ curlBase: 'curl' }])).toThrow('unknown curl base noise');
+  });
+});
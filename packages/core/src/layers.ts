@@ -0,0 +1,249 @@
+import { VERSIONED_NOISE, noiseAngle, NOISE_TYPES, type NoiseType } from './noise.js';
+import { WORLEY_MODES, type WorleyMode } from './worley-noise.js';
+import type { Noise } from './noise-base.js';
+import { warpedFbm, parseDomainWarp, type DomainWarp } from './domain-warp.js';
+import { isRecord, getList } from './json.js';
+import { LATEST_ALGORITHM_VERSION, type AlgorithmVersion } from './version.js';
+
+/**
+ * How a layer combines with the layers below it
+ * - add: sum the angles
+ * - multiply: scale the angle below by the layer's mask
+ * - min / max: keep the smaller or larger angle
+ * - lerp: blend from the angle below to this layer's angle by the mask
+ */
+export type BlendMode = 'add' | 'multiply' | 'min' | 'max' | 'lerp';
+
+export const BLEND_MODES: readonly BlendMode[] = ['add', 'multiply', 'min', 'max', 'lerp'];
+
+export interface NoiseParameters {
+  seed?: number;
+  noiseScale?: number;
+  octaves?: number;
+  persistence?: number;
+  lacunarity?: number;
+  noiseType?: NoiseType;
+  worleyMode?: WorleyMode;
+  /** Stream function noise for curl noise (default simplex) */
+  curlBase?: Exclude<NoiseType, 'curl'>;
+  warp?: DomainWarp;
+  /** Usually inherited from the field; see FlowFieldOptions.time */
+  time?: number;
+  loopDuration?: number;
+  /** Canvas size over which the noise repeats, for tileable fields */
+  tileSize?: { width: number; height: number };
+}
+
+export interface NoiseLayer extends NoiseParameters {
+  /** Multiplier on the layer's angle, or mask strength for multiply (default 1) */
+  weight?: number;
+  /** Constant added to the layer's angle, in radians (default 0) */
+  angleOffset?: number;
+  blend?: BlendMode;
+  /**
+   * Noise used as the 0..1 mask for multiply and lerp.
+   * Without it the layer's own noise is used.
+   */
+  mask?: NoiseParameters;
+}
+
+interface NoiseSampler {
+  noise: Noise;
+  noiseScale: number;
+  octaves: number;
+  persistence: number;
+  lacunarity: number;
+  warp?: DomainWarp;
+}
+
+interface CompiledLayer {
+  source: NoiseSampler;
+  mask?: NoiseSampler;
+  weight: number;
+  angleOffset: number;
+  blend: BlendMode;
+}
+
+/**
+ * A stack of noise layers blended into a single angle field.
+ * The first layer sets the starting angle whatever its blend mode.
+ */
+export class LayeredNoise {
+  private layers: CompiledLayer[];
+
+  /**
+   * @param layers Layers from bottom to top
+   * @param defaults Fallbacks for parameters a layer leaves out. Layers
+   *   without a seed get `defaults.seed + index` so they differ.
+   * @param version Algorithm version of the layers' noise (default the latest)
+   */
+  constructor(
+    layers: NoiseLayer[],
+    defaults: NoiseParameters = {},
+    version: AlgorithmVersion = LATEST_ALGORITHM_VERSION
+  ) {
+    this.layers = layers.map((layer, index) => {
+      const seed = layer.seed ?? (defaults.seed !== undefined ? defaults.seed + index : undefined);
+      return {
+        source: createSampler({ ...layer, seed }, defaults, version),
+        mask: layer.mask && createSampler(layer.mask, { ...defaults, seed }, version),
+        weight: layer.weight ?? 1,
+        angleOffset: layer.angleOffset ?? 0,
+        blend: layer.blend ?? 'add',
+      };
+    });
+  }
+
+  /**
+   * Blended angle at canvas position (x, y)
+   */
+  angle(x: number, y: number): number {
+    let angle = 0;
+
+    this.layers.forEach((layer, index) => {
+      const layerAngle = sampleAngle(layer.source, x, y) * layer.weight + layer.angleOffset;
+
+      if (index === 0) {
+        angle = layerAngle;
+        return;
+      }
+
+      switch (layer.blend) {
+        case 'add':
+          angle += layerAngle;
+          break;
+        case 'multiply': {
+          const mask = toUnit(sample(layer.mask ?? layer.source, x, y));
+          angle *= 1 - layer.weight * (1 - mask);
+          break;
+        }
+        case 'min':
+          angle = Math.min(angle, layerAngle);
+          break;
+        case 'max':
+          angle = Math.max(angle, layerAngle);
+          break;
+        case 'lerp': {
+          const mask = toUnit(sample(layer.mask ?? layer.source, x, y));
+          angle += (layerAngle - angle) * mask;
+          break;
+        }
+      }
+    });
+
+    return angle;
+  }
+
+  /**
+   * Noise value of the bottom layer at canvas position (x, y), about -1 to 1
+   */
+  value(x: number, y: number): number {
+    return this.layers.length > 0 ? sample(this.layers[0].source, x, y) : 0;
+  }
+}
+
+function createSampler(params: NoiseParameters, defaults: NoiseParameters, version: AlgorithmVersion): NoiseSampler {
+  const noiseScale = params.noiseScale ?? defaults.noiseScale ?? 0.005;
+  const tileSize = params.tileSize ?? defaults.tileSize;
+
+  return {
+    noise: VERSIONED_NOISE[version](params.seed ?? defaults.seed, {
+      type: params.noiseType ?? defaults.noiseType,
+      worleyMode: params.worleyMode ?? defaults.worleyMode,
+      curlBase: params.curlBase ?? defaults.curlBase,
+      time: params.time ?? defaults.time,
+      loopDuration: params.loopDuration ?? defaults.loopDuration,
+      tile: tileSize && { width: tileSize.width * noiseScale, height: tileSize.height * noiseScale },
+    }),
+    noiseScale,
+    octaves: params.octaves ?? defaults.octaves ?? 4,
+    persistence: params.persistence ?? defaults.persistence ?? 0.5,
+    lacunarity: params.lacunarity ?? defaults.lacunarity ?? 2,
+    warp: params.warp ?? defaults.warp,
+  };
+}
+
+function sample(sampler: NoiseSampler, x: number, y: number): number {
+  const nx = x * sampler.noiseScale;
+  const ny = y * sampler.noiseScale;
+  const { octaves, persistence, lacunarity } = sampler;
+
+  return sampler.warp
+    ? warpedFbm(sampler.noise, nx, ny, sampler.warp, octaves, persistence, lacunarity)
+    : sampler.noise.fbm(nx, ny, octaves, persistence, lacunarity);
+}
+
+function sampleAngle(sampler: NoiseSampler, x: number, y: number): number {
+  return noiseAngle(
+    sampler.noise,
+    x * sampler.noiseScale,
+    y * sampler.noiseScale,
+    sampler.octaves,
+    sampler.persistence,
+    sampler.lacunarity,
+    sampler.warp
+  );
+}
+
+/**
+ * Map noise from [-1, 1] to [0, 1]
+ */
+function toUnit(value: number): number {
+  return Math.max(0, Math.min(1, (value + 1) / 2));
+}
+
+/**
+ * Parse noise layers from JSON, e.g. a CLI config file.
+ * Accepts an array of layers or an object with a `layers` array.
+ */
+export function parseNoiseLayers(json: unknown): NoiseLayer[] {
+  const list = getList(json, 'layers');
+
+  if (!list) {
+    throw new Error('Noise layers must be an array or an object with a "layers" array');
+  }
+
+  return list.map((entry, index) => {
+    if (!isRecord(entry)) {
+      throw new Error(`Noise layer ${index} must be an object`);
+    }
+
+    const blend = entry.blend;
+    if (blend !== undefined && !BLEND_MODES.includes(blend as BlendMode)) {
+      throw new Error(`Noise layer ${index} has unknown blend mode "${String(blend)}"`);
+    }
+
+    return {
+      ...parseNoiseParameters(entry, `Noise layer ${index}`),
+      weight: typeof entry.weight === 'number' ? entry.weight : undefined,
+      angleOffset: typeof entry.angleOffset === 'number' ? entry.angleOffset : undefined,
+      blend: blend as BlendMode | undefined,
+      mask: isRecord(entry.mask) ? parseNoiseParameters(entry.mask, `Noise layer ${index} mask`) : undefined,
+    };
+  });
+}
+
+function parseNoiseParameters(args: Record<string, unknown>, label: string): NoiseParameters {
+  const { noiseType, worleyMode, curlBase } = args;
+  if (noiseType !== undefined && !NOISE_TYPES.includes(noiseType as NoiseType)) {
+    throw new Error(`${label} has unknown noise type "${String(noiseType)}"`);
+  }
+  if (curlBase !== undefined && (curlBase === 'curl' || !NOISE_TYPES.includes(curlBase as NoiseType))) {
+    throw new Error(`${label} has unknown curl base noise "${String(curlBase)}"`);
+  }
+  if (worleyMode !== undefined && !WORLEY_MODES.includes(worleyMode as WorleyMode)) {
+    throw new Error(`${label} has unknown Worley mode "${String(worleyMode)}"`);
+  }
+
+  return {
+    seed: typeof args.seed === 'number' ? args.seed : undefined,
+    noiseScale: typeof args.noiseScale === 'number' ? args.noiseScale : undefined,
+    octaves: typeof args.octaves === 'number' ? args.octaves : undefined,
+    persistence: typeof args.persistence === 'number' ? args.persistence : undefined,
+    lacunarity: typeof args.lacunarity === 'number' ? args.lacunarity : undefined,
+    noiseType: noiseType as NoiseType | undefined,
+    worleyMode: worleyMode as WorleyMode | undefined,
+    curlBase: curlBase as NoiseParameters['curlBase'],
+    warp: isRecord(args.warp) ? parseDomainWarp(args.warp) : undefined,
+  };
+}
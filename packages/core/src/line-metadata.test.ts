@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { describeLine, measureLine } from './line-metadata.js';
+import { FlowField } from './flow-field.js';
+import { generateFlowLines } from './flow-lines.js';
+
+describe('measureLine', () => {
+  it('should measure a straight line', () => {
+    expect(measureLine([{ x: 0, y: 0 }, { x: 3, y: 4 }, { x: 6, y: 8 }])).toEqual({
+      length: 10,
+      curvature: 0,
+    });
+  });
+
+  it('should match 1/r for a circular arc', () => {
+    const arc = Array.from({ length: 101 }, (_, i) => ({
+      x: 50 * Math.cos((i / 100) * Math.PI),
+      y: 50 * Math.sin((i / 100) * Math.PI),
+    }));
+
+    expect(measureLine(arc).curvature).toBeCloseTo(1 / 50, 3);
+  });
+
+  it('should treat a reversal across ±π as a half turn', () => {
+    const { curvature } = measureLine([{ x: 0, y: 0 }, { x: -1, y: 0.001 }, { x: -2, y: -0.001 }]);
+
+    expect(curvature).toBeLessThan(0.01);
+  });
+});
+
+describe('describeLine', () => {
+  it('should read the angle and noise at the seed', () => {
+    const field = new FlowField({ width: 100, height: 100, resolution: 10, seed: 3, sampling: 'direct' });
+    const metadata = describeLine(field, { x: 20, y: 30 }, 4, [{ x: 20, y: 30 }, { x: 22, y: 30 }]);
+
+    expect(metadata).toEqual({
+      seedIndex: 4,
+      startAngle: field.getAngle(20, 30),
+      length: 2,
+      curvature: 0,
+      noise: field.getNoise(20, 30),
+    });
+    // Direct sampling turns the noise straight into the angle
+    expect(metadata.startAngle).toBeCloseTo(metadata.noise * Math.PI * 2);
+  });
+});
+
+describe('generated line metadata', () => {
+  it('should describe every line from its seed', () => {
+    const startPoints = [{ x: 50, y: 50 }, { x: 150, y: 150 }];
+    const result = generateFlowLines({ width: 200, height: 200, lineCount: 2, seed: 1, startPoints });
+
+    result.lines.forEach((line) => {
+      const { seedIndex, length } = line.metadata!;
+      expect(line.points[0]).toEqual(startPoints[seedIndex]);
+      expect(length).toBeCloseTo(measureLine(line.points).length);
+    });
+  });
+
+  it('should number evenly-spaced seeds in tracing order', () => {
+    const result = generateFlowLines({ width: 200, height: 200, lineCount: 3, seed: 1, separation: 15 });
+    const indices = result.lines.map((line) => line.metadata!.seedIndex);
+
+    expect(indices).toEqual([...indices].sort((a, b) => a - b));
+    expect(new Set(indices).size).toBe(indices.length);
+  });
+});
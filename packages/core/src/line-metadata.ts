@@ -0,0 +1,68 @@
+import type { Point } from './flow-lines.js';
+import type { FlowField } from './flow-field.js';
+
+/**
+ * Measurements of a generated line, for styling or filtering it
+ */
+export interface LineMetadata {
+  /**
+   * Position of the line's seed among the seeds traced, in tracing
+   * order. Independently traced lines share it with their start point.
+   */
+  seedIndex: number;
+  /** Field angle at the seed, in radians */
+  startAngle: number;
+  /** Arc length in canvas units */
+  length: number;
+  /** Mean absolute turning, in radians per canvas unit of length */
+  curvature: number;
+  /** Noise value behind the field at the seed, about -1 to 1 */
+  noise: number;
+}
+
+/**
+ * Metadata of a line traced from `seed`. Pieces of a split line each
+ * get their own length and curvature but share the seed's values.
+ */
+export function describeLine(
+  field: FlowField,
+  seed: Point,
+  seedIndex: number,
+  points: Point[]
+): LineMetadata {
+  const { length, curvature } = measureLine(points);
+
+  return {
+    seedIndex,
+    startAngle: field.getAngle(seed.x, seed.y),
+    length,
+    curvature,
+    noise: field.getNoise(seed.x, seed.y),
+  };
+}
+
+/**
+ * Arc length and mean absolute curvature of a polyline
+ */
+export function measureLine(points: Point[]): { length: number; curvature: number } {
+  let length = 0;
+  let turning = 0;
+  let previous: number | undefined;
+
+  for (let i = 1; i < points.length; i++) {
+    const dx = points[i].x - points[i - 1].x;
+    const dy = points[i].y - points[i - 1].y;
+    const step = Math.hypot(dx, dy);
+    if (step === 0) continue;
+
+    const heading = Math.atan2(dy, dx);
+    if (previous !== undefined) {
+      // Smallest signed difference, so crossing ±π isn't a full turn
+      turning += Math.abs(Math.atan2(Math.sin(heading - previous), Math.cos(heading - previous)));
+    }
+    previous = heading;
+    length += step;
+  }
+
+  return { length, curvature: length > 0 ? turning / length : 0 };
+}
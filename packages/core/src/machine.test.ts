@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { machineTransform } from './machine.js';
+
+describe('machineTransform', () => {
+  const point = { x: 10, y: 20 };
+
+  it('should measure from the origin corner', () => {
+    expect(machineTransform(100, 50, {}, 1)(point)).toEqual({ x: 10, y: 30 });
+    expect(machineTransform(100, 50, { origin: 'top-left' }, 1)(point)).toEqual({ x: 10, y: 20 });
+    expect(machineTransform(100, 50, { origin: 'top-right' }, 1)(point)).toEqual({ x: 90, y: 20 });
+    expect(machineTransform(100, 50, { origin: 'bottom-right' }, 1)(point)).toEqual({ x: 90, y: 30 });
+  });
+
+  it('should flip and scale the axes', () => {
+    expect(machineTransform(100, 50, { flipX: true }, 2)(point)).toEqual({ x: -20, y: 60 });
+    expect(machineTransform(100, 50, { flipY: true }, 0.5)(point)).toEqual({ x: 5, y: -15 });
+  });
+});
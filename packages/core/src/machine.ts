@@ -0,0 +1,44 @@
+import type { Point } from './flow-lines.js';
+
+/**
+ * Canvas corner placed at the machine's 0,0
+ */
+export type Origin = 'bottom-left' | 'top-left' | 'top-right' | 'bottom-right';
+
+export const ORIGINS: readonly Origin[] = ['bottom-left', 'top-left', 'top-right', 'bottom-right'];
+
+/**
+ * Where a drawing sits in a plotter's coordinate system. Machine
+ * coordinates measure from the origin corner, along the canvas edges
+ * meeting there, so they are positive unless an axis is flipped.
+ */
+export interface MachinePlacement {
+  /** Default bottom-left, as most GRBL machines home */
+  origin?: Origin;
+  /** Negate machine X, for machines working in negative X */
+  flipX?: boolean;
+  /** Negate machine Y, for machines working in negative Y */
+  flipY?: boolean;
+}
+
+/**
+ * Map canvas pixels of a `width` by `height` canvas to machine
+ * coordinates, scaled by `unitsPerPixel`
+ */
+export function machineTransform(
+  width: number,
+  height: number,
+  placement: MachinePlacement,
+  unitsPerPixel: number
+): (point: Point) => Point {
+  const { origin = 'bottom-left', flipX = false, flipY = false } = placement;
+  const fromRight = origin.endsWith('right');
+  const fromBottom = origin.startsWith('bottom');
+  const sx = (flipX ? -1 : 1) * unitsPerPixel;
+  const sy = (flipY ? -1 : 1) * unitsPerPixel;
+
+  return ({ x, y }) => ({
+    x: (fromRight ? width - x : x) * sx,
+    y: (fromBottom ? height - y : y) * sy,
+  });
+}
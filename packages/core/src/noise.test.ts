@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { SimplexNoise, createNoise } from './noise.js';
+import { SimplexNoise, createNoise, noiseAngle } from './noise.js';
+import { PerlinNoise } from './perlin-noise.js';
+import { ValueNoise } from './value-noise.js';
+import { WorleyNoise } from './worley-noise.js';
+import { CurlNoise } from './curl-noise.js';
 
 describe('SimplexNoise', () => {
   it('should create a noise instance', () => {
@@ -51,11 +55,80 @@ describe('SimplexNoise', () => {
   });
 });
 
+describe('SimplexNoise 3D and 4D', () => {
+  it('should be deterministic with seed', () => {
+    expect(new SimplexNoise(7).noise3D(0.3, 1.2, 2.5)).toBe(new SimplexNoise(7).noise3D(0.3, 1.2, 2.5));
+    expect(new SimplexNoise(7).noise4D(0.3, 1.2, 2.5, 0.9))
+      .toBe(new SimplexNoise(7).noise4D(0.3, 1.2, 2.5, 0.9));
+  });
+
+  it('should return values in range [-1, 1]', () => {
+    const noise = new SimplexNoise(42);
+
+    for (let i = 0; i < 200; i++) {
+      const v3 = noise.noise3D(i * 0.37, i * 0.71, i * 0.13);
+      const v4 = noise.noise4D(i * 0.37, i * 0.71, i * 0.13, i * 0.53);
+      expect(Math.abs(v3)).toBeLessThanOrEqual(1);
+      expect(Math.abs(v4)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should vary smoothly along every axis', () => {
+    const noise = new SimplexNoise(42);
+
+    for (let i = 0; i < 50; i++) {
+      const t = i * 0.01;
+      expect(Math.abs(noise.noise3D(0.5, 0.5, t + 0.01) - noise.noise3D(0.5, 0.5, t))).toBeLessThan(0.1);
+      expect(Math.abs(noise.noise4D(0.5, 0.5, 0.5, t + 0.01) - noise.noise4D(0.5, 0.5, 0.5, t)))
+        .toBeLessThan(0.1);
+    }
+  });
+
+  it('should not be constant', () => {
+    const noise = new SimplexNoise(42);
+    const values = new Set([0.1, 0.7, 1.9, 3.4].map((z) => noise.noise3D(0.5, 0.5, z)));
+
+    expect(values.size).toBe(4);
+  });
+});
+
 describe('createNoise', () => {
   it('should create a SimplexNoise instance', () => {
     const noise = createNoise(42);
     expect(noise).toBeInstanceOf(SimplexNoise);
   });
+
+  it('should create each noise type', () => {
+    expect(createNoise(42, { type: 'perlin' })).toBeInstanceOf(PerlinNoise);
+    expect(createNoise(42, { type: 'value' })).toBeInstanceOf(ValueNoise);
+    expect(createNoise(42, { type: 'worley', worleyMode: 'f2' })).toMatchObject({ mode: 'f2' });
+    expect(createNoise(42, { type: 'curl', curlBase: 'perlin' })).toBeInstanceOf(CurlNoise);
+  });
+
+  it('should reject time for noises without a time dimension', () => {
+    expect(() => createNoise(42, { type: 'worley', time: 1 })).toThrow('no time dimension');
+    expect(() => createNoise(42, { type: 'curl', curlBase: 'perlin', time: 1 })).toThrow();
+    expect(() => createNoise(42, { type: 'curl', time: 1 })).not.toThrow();
+  });
+
+  it('should keep seeded simplex output unchanged', () => {
+    expect(createNoise(42).noise2D(0.5, 0.5)).toBe(new SimplexNoise(42).noise2D(0.5, 0.5));
+  });
+});
+
+describe('noiseAngle', () => {
+  it('should map fbm onto a full turn', () => {
+    const noise = new WorleyNoise(42);
+
+    expect(noiseAngle(noise, 0.5, 0.5, 3)).toBe(noise.fbm(0.5, 0.5, 3) * Math.PI * 2);
+  });
+
+  it('should follow the curl for curl noise', () => {
+    const noise = new CurlNoise(new SimplexNoise(42));
+    const curl = noise.curl(0.5, 0.5, 3);
+
+    expect(noiseAngle(noise, 0.5, 0.5, 3)).toBe(Math.atan2(curl.y, curl.x));
+  });
 });
 
 describe('fbm', () => {
@@ -3,25 +3,15 @@
  * Based on Stefan Gustavson's implementation
  */
 
-// Permutation table
-const p = [
-  151, 160, 137, 91, 90, 15, 131, 13, 201, 95, 96, 53, 194, 233, 7, 225, 140,
-  36, 103, 30, 69, 142, 8, 99, 37, 240, 21, 10, 23, 190, 6, 148, 247, 120, 234,
-  75, 0, 26, 197, 62, 94, 252, 219, 203, 117, 35, 11, 32, 57, 177, 33, 88, 237,
-  149, 56, 87, 174, 20, 125, 136, 171, 168, 68, 175, 74, 165, 71, 134, 139, 48,
-  27, 166, 77, 146, 158, 231, 83, 111, 229, 122, 60, 211, 133, 230, 220, 105,
-  92, 41, 55, 46, 245, 40, 244, 102, 143, 54, 65, 25, 63, 161, 1, 216, 80, 73,
-  209, 76, 132, 187, 208, 89, 18, 169, 200, 196, 135, 130, 116, 188, 159, 86,
-  164, 100, 109, 198, 173, 186, 3, 64, 52, 217, 226, 250, 124, 123, 5, 202, 38,
-  147, 118, 126, 255, 82, 85, 212, 207, 206, 59, 227, 47, 16, 58, 17, 182, 189,
-  28, 42, 223, 183, 170, 213, 119, 248, 152, 2, 44, 154, 163, 70, 221, 153, 101,
-  155, 167, 43, 172, 9, 129, 22, 39, 253, 19, 98, 108, 110, 79, 113, 224, 232,
-  178, 185, 112, 104, 218, 246, 97, 228, 251, 34, 242, 193, 238, 210, 144, 12,
-  191, 179, 162, 241, 81, 51, 145, 235, 249, 14, 239, 107, 49, 192, 214, 31,
-  181, 199, 106, 157, 184, 84, 204, 176, 115, 121, 50, 45, 127, 4, 150, 254,
-  138, 236, 205, 93, 222, 114, 67, 29, 24, 72, 243, 141, 128, 195, 78, 66, 215,
-  61, 156, 180,
-];
+import { NoiseBase, seededPermutation, type Noise } from './noise-base.js';
+import { PerlinNoise } from './perlin-noise.js';
+import { ValueNoise } from './value-noise.js';
+import { WorleyNoise, type WorleyMode } from './worley-noise.js';
+import { CurlNoise } from './curl-noise.js';
+import { warpPoint, type DomainWarp } from './domain-warp.js';
+import { TimeSliceNoise } from './time-noise.js';
+import { TorusNoise } from './torus-noise.js';
+import type { AlgorithmVersion } from './version.js';
 
 // Gradient vectors for 2D
 const grad2 = [
@@ -35,6 +25,36 @@ const grad2 = [
   [0, -1],
 ];
 
+// Gradient vectors for 3D: midpoints of the edges of a cube
+const grad3 = [
+  [1, 1, 0],
+  [-1, 1, 0],
+  [1, -1, 0],
+  [-1, -1, 0],
+  [1, 0, 1],
+  [-1, 0, 1],
+  [1, 0, -1],
+  [-1, 0, -1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [0, 1, -1],
+  [0, -1, -1],
+];
+
+// Gradient vectors for 4D: midpoints of the edges of a tesseract
+const grad4: number[][] = [];
+for (const zero of [0, 1, 2, 3]) {
+  for (const signs of [0, 1, 2, 3, 4, 5, 6, 7]) {
+    const g = [0, 0, 0, 0];
+    let bit = 0;
+    for (let axis = 0; axis < 4; axis++) {
+      if (axis === zero) continue;
+      g[axis] = signs & (1 << bit++) ? -1 : 1;
+    }
+    grad4.push(g);
+  }
+}
+
 export interface NoiseOptions {
   seed?: number;
   octaves?: number;
@@ -43,29 +63,16 @@ export interface NoiseOptions {
   scale?: number;
 }
 
-export class SimplexNoise {
+export class SimplexNoise extends NoiseBase {
   private perm: number[];
   private permMod8: number[];
+  private permMod12: number[];
 
   constructor(seed: number = Math.random() * 65536) {
-    this.perm = new Array(512);
-    this.permMod8 = new Array(512);
-
-    // Seed the permutation table
-    const seedPerm = [...p];
-
-    // Simple seeded shuffle
-    let s = seed;
-    for (let i = seedPerm.length - 1; i > 0; i--) {
-      s = (s * 1103515245 + 12345) & 0x7fffffff;
-      const j = s % (i + 1);
-      [seedPerm[i], seedPerm[j]] = [seedPerm[j], seedPerm[i]];
-    }
-
-    for (let i = 0; i < 512; i++) {
-      this.perm[i] = seedPerm[i & 255];
-      this.permMod8[i] = this.perm[i] & 7;
-    }
+    super();
+    this.perm = seededPermutation(seed);
+    this.permMod8 = this.perm.map((value) => value & 7);
+    this.permMod12 = this.perm.map((value) => value % 12);
   }
 
   private dot2(g: number[], x: number, y: number): number {
@@ -133,35 +140,213 @@ export class SimplexNoise {
   }
 
   /**
-   * Fractal Brownian Motion noise
+   * 3D Simplex noise, e.g. a 2D field evolving along z as time
    */
-  fbm(
-    x: number,
-    y: number,
-    octaves: number = 4,
-    persistence: number = 0.5,
-    lacunarity: number = 2,
-    scale: number = 1
-  ): number {
-    let value = 0;
-    let amplitude = 1;
-    let frequency = scale;
-    let maxValue = 0;
-
-    for (let i = 0; i < octaves; i++) {
-      value += amplitude * this.noise2D(x * frequency, y * frequency);
-      maxValue += amplitude;
-      amplitude *= persistence;
-      frequency *= lacunarity;
+  noise3D(x: number, y: number, z: number): number {
+    const F3 = 1 / 3;
+    const G3 = 1 / 6;
+
+    // Skew input space
+    const s = (x + y + z) * F3;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const k = Math.floor(z + s);
+
+    const t = (i + j + k) * G3;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const z0 = z - (k - t);
+
+    // Determine simplex: order the offsets from largest to smallest
+    let i1, j1, k1, i2, j2, k2;
+    if (x0 >= y0) {
+      if (y0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 1, 0];
+      else if (x0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 0, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 1, 0, 1];
+    } else {
+      if (y0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 0, 1, 1];
+      else if (x0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 0, 1, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 1, 1, 0];
     }
 
-    return value / maxValue;
+    const corners = [
+      [x0, y0, z0],
+      [x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3],
+      [x0 - i2 + 2 * G3, y0 - j2 + 2 * G3, z0 - k2 + 2 * G3],
+      [x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3],
+    ];
+
+    // Hash coordinates
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+    const perm = this.perm;
+    const gradients = [
+      this.permMod12[ii + perm[jj + perm[kk]]],
+      this.permMod12[ii + i1 + perm[jj + j1 + perm[kk + k1]]],
+      this.permMod12[ii + i2 + perm[jj + j2 + perm[kk + k2]]],
+      this.permMod12[ii + 1 + perm[jj + 1 + perm[kk + 1]]],
+    ];
+
+    // Calculate contributions
+    let n = 0;
+    corners.forEach(([cx, cy, cz], corner) => {
+      let tc = 0.6 - cx * cx - cy * cy - cz * cz;
+      if (tc < 0) return;
+      tc *= tc;
+      const g = grad3[gradients[corner]];
+      n += tc * tc * (g[0] * cx + g[1] * cy + g[2] * cz);
+    });
+
+    // Scale to [-1, 1]
+    return 32 * n;
+  }
+
+  /**
+   * 4D Simplex noise, e.g. time sampled around a circle so it loops
+   */
+  noise4D(x: number, y: number, z: number, w: number): number {
+    const F4 = (Math.sqrt(5) - 1) / 4;
+    const G4 = (5 - Math.sqrt(5)) / 20;
+
+    // Skew input space
+    const s = (x + y + z + w) * F4;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const k = Math.floor(z + s);
+    const l = Math.floor(w + s);
+
+    const t = (i + j + k + l) * G4;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const z0 = z - (k - t);
+    const w0 = w - (l - t);
+
+    // Rank the offsets to find which simplex contains the point
+    const rank = [0, 0, 0, 0];
+    const offsets = [x0, y0, z0, w0];
+    for (let a = 0; a < 3; a++) {
+      for (let b = a + 1; b < 4; b++) {
+        if (offsets[a] > offsets[b]) rank[a]++;
+        else rank[b]++;
+      }
+    }
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+    const ll = l & 255;
+    const perm = this.perm;
+
+    // Corners are stepped through in rank order, from 0 to all ones
+    let n = 0;
+    for (let corner = 0; corner <= 4; corner++) {
+      const step = offsets.map((_, axis) => (rank[axis] >= 4 - corner ? 1 : 0));
+      const cx = x0 - step[0] + corner * G4;
+      const cy = y0 - step[1] + corner * G4;
+      const cz = z0 - step[2] + corner * G4;
+      const cw = w0 - step[3] + corner * G4;
+
+      let tc = 0.6 - cx * cx - cy * cy - cz * cz - cw * cw;
+      if (tc < 0) continue;
+      tc *= tc;
+
+      const gi = perm[ii + step[0] + perm[jj + step[1] + perm[kk + step[2] + perm[ll + step[3]]]]] & 31;
+      const g = grad4[gi];
+      n += tc * tc * (g[0] * cx + g[1] * cy + g[2] * cz + g[3] * cw);
+    }
+
+    // Scale to [-1, 1]
+    return 27 * n;
   }
 }
 
+export type NoiseType = 'simplex' | 'perlin' | 'value' | 'worley' | 'curl';
+
+export const NOISE_TYPES: readonly NoiseType[] = ['simplex', 'perlin', 'value', 'worley', 'curl'];
+
+export interface NoiseTypeOptions {
+  type?: NoiseType;
+  /** Feature distance used by Worley noise (default f1) */
+  worleyMode?: WorleyMode;
+  /** Stream function noise for curl noise (default simplex) */
+  curlBase?: Exclude<NoiseType, 'curl'>;
+  /**
+   * Position along a third noise dimension. Only simplex noise, and curl
+   * noise over it, can evolve in time.
+   */
+  time?: number;
+  /** Make time loop with this period, using 4D noise */
+  loopDuration?: number;
+  /**
+   * Periods, in noise units, after which the noise repeats along x and y.
+   * Like time this needs simplex noise, and the two can't be combined.
+   */
+  tile?: { width: number; height: number };
+}
+
 /**
  * Create a seeded noise instance
  */
-export function createNoise(seed?: number): SimplexNoise {
-  return new SimplexNoise(seed);
+export function createNoise(seed?: number, options: NoiseTypeOptions = {}): Noise {
+  const type = options.type ?? 'simplex';
+
+  if (options.time !== undefined && type !== 'simplex' && type !== 'curl') {
+    throw new Error(`${type} noise has no time dimension; use simplex or curl noise`);
+  }
+  if (options.tile && type !== 'simplex' && type !== 'curl') {
+    throw new Error(`${type} noise cannot tile; use simplex or curl noise`);
+  }
+  if (options.tile && options.time !== undefined) {
+    throw new Error('Tileable noise cannot also vary in time');
+  }
+
+  switch (type) {
+    case 'perlin':
+      return new PerlinNoise(seed);
+    case 'value':
+      return new ValueNoise(seed);
+    case 'worley':
+      return new WorleyNoise(seed, options.worleyMode);
+    case 'curl':
+      return new CurlNoise(createNoise(seed, { ...options, type: options.curlBase ?? 'simplex' }));
+    default:
+      if (options.tile) {
+        return new TorusNoise(new SimplexNoise(seed), options.tile.width, options.tile.height);
+      }
+      return options.time !== undefined
+        ? new TimeSliceNoise(new SimplexNoise(seed), options.time, options.loopDuration)
+        : new SimplexNoise(seed);
+  }
+}
+
+/**
+ * Noise creation of each algorithm version, for fields and their layers
+ */
+export const VERSIONED_NOISE: Record<AlgorithmVersion, typeof createNoise> = {
+  1: createNoise,
+};
+
+/**
+ * Flow angle at a point in noise space. Curl noise is followed along its
+ * curl; every other noise maps its fbm value onto a full turn. With a
+ * warp the point is displaced first.
+ */
+export function noiseAngle(
+  noise: Noise,
+  x: number,
+  y: number,
+  octaves?: number,
+  persistence?: number,
+  lacunarity?: number,
+  warp?: DomainWarp
+): number {
+  if (warp) {
+    ({ x, y } = warpPoint(noise, x, y, warp, octaves, persistence, lacunarity));
+  }
+  if (noise instanceof CurlNoise) {
+    const curl = noise.curl(x, y, octaves, persistence, lacunarity);
+    return Math.atan2(curl.y, curl.x);
+  }
+  return noise.fbm(x, y, octaves, persistence, lacunarity) * Math.PI * 2;
 }
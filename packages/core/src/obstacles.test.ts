@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { applyObstacles, isBlocked, parseObstacles, type Obstacle } from './obstacles.js';
+import { generateFlowLines } from './flow-lines.js';
+
+const east = { x: 1, y: 0 };
+const stone: Obstacle = {
+  shape: { type: 'circle', center: { x: 50, y: 50 }, radius: 20 },
+  influenceDistance: 30,
+};
+
+describe('applyObstacles', () => {
+  it('should run along the outline at the edge', () => {
+    // Just above the stone the outward normal points up, so east flow stays east
+    expect(applyObstacles([stone], 50, 30, east).x).toBeCloseTo(1);
+
+    // Flow heading straight into the stone is turned aside
+    const vector = applyObstacles([stone], 30, 50, east);
+    expect(vector.x).toBeCloseTo(0);
+    expect(Math.abs(vector.y)).toBeCloseTo(1);
+  });
+
+  it('should keep the sense of direction along the outline', () => {
+    const northeast = { x: Math.SQRT1_2, y: -Math.SQRT1_2 };
+    const vector = applyObstacles([stone], 30, 50, northeast);
+
+    expect(vector.x).toBeCloseTo(0);
+    expect(vector.y).toBeCloseTo(-1);
+  });
+
+  it('should fade out with distance', () => {
+    const near = applyObstacles([stone], 25, 50, east);
+    const far = applyObstacles([stone], 5, 50, east);
+
+    expect(near.x).toBeLessThan(far.x);
+    expect(applyObstacles([stone], 0, 50, east)).toEqual(east);
+  });
+});
+
+describe('isBlocked', () => {
+  it('should block the inside of solid obstacles only', () => {
+    expect(isBlocked([stone], 50, 50)).toBe(true);
+    expect(isBlocked([stone], 50, 25)).toBe(false);
+    expect(isBlocked([{ ...stone, enterable: true }], 50, 50)).toBe(false);
+  });
+});
+
+describe('obstacles in generated lines', () => {
+  it('should keep lines out of solid obstacles', () => {
+    const obstacle: Obstacle = {
+      shape: { type: 'rect', x: 70, y: 70, width: 60, height: 60 },
+      influenceDistance: 20,
+    };
+    const result = generateFlowLines({
+      width: 200,
+      height: 200,
+      lineCount: 60,
+      seed: 7,
+      obstacles: [obstacle],
+    });
+
+    expect(result.lines.length).toBeGreaterThan(0);
+    for (const line of result.lines) {
+      for (const point of line.points) {
+        expect(isBlocked([obstacle], point.x, point.y)).toBe(false);
+      }
+    }
+  });
+});
+
+describe('parseObstacles', () => {
+  it('should parse obstacles with their shapes', () => {
+    const obstacles = parseObstacles({
+      obstacles: [
+        {
+          shape: { type: 'circle', center: { x: 1, y: 2 }, radius: 3 },
+          influenceDistance: 10,
+          enterable: true,
+        },
+      ],
+    });
+
+    expect(obstacles).toEqual([
+      {
+        shape: { type: 'circle', center: { x: 1, y: 2 }, radius: 3 },
+        influenceDistance: 10,
+        strength: undefined,
+        enterable: true,
+      },
+    ]);
+  });
+
+  it('should reject malformed obstacles', () => {
+    expect(() => parseObstacles('nope')).toThrow('must be an array');
+    expect(() => parseObstacles([{ shape: {} }])).toThrow('"influenceDistance"');
+    expect(() => parseObstacles([{ shape: { type: 'star' }, influenceDistance: 5 }])).toThrow(
+      'Obstacle 0: Unknown shape type'
+    );
+  });
+});
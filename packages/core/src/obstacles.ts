@@ -0,0 +1,107 @@
+import type { Vector2D } from './flow-field.js';
+import { signedDistance, outwardNormal, parseShape, Shape } from './shapes.js';
+import { isRecord, getList } from './json.js';
+
+/**
+ * A shape the field flows around, like a stream around a stone
+ */
+export interface Obstacle {
+  shape: Shape;
+  /** Distance from the outline over which the field turns to run along it */
+  influenceDistance: number;
+  /** 1 runs exactly along the outline at its edge, lower values only nudge the field */
+  strength?: number;
+  /** Let lines cross into the obstacle instead of stopping at its edge (default false) */
+  enterable?: boolean;
+}
+
+/**
+ * Turn a field direction to run tangentially around every obstacle in
+ * reach of (x, y). The component heading into or away from an obstacle
+ * fades out toward its edge, keeping the flow's sense of direction
+ * along it; inside, the field follows the nearest stretch of outline.
+ */
+export function applyObstacles(
+  obstacles: Obstacle[],
+  x: number,
+  y: number,
+  vector: Vector2D
+): Vector2D {
+  let { x: vx, y: vy } = vector;
+
+  for (const obstacle of obstacles) {
+    const distance = signedDistance(obstacle.shape, x, y);
+    if (distance >= obstacle.influenceDistance) continue;
+
+    const normal = outwardNormal(obstacle.shape, x, y);
+    const along = vx * normal.x + vy * normal.y;
+    let tx = vx - along * normal.x;
+    let ty = vy - along * normal.y;
+    let length = Math.hypot(tx, ty);
+
+    // Head-on flow has no preferred side; pass the obstacle on the left
+    if (length < 1e-9) {
+      tx = -normal.y;
+      ty = normal.x;
+      length = 1;
+    }
+
+    const t = Math.min(1, 1 - distance / obstacle.influenceDistance);
+    const weight = (obstacle.strength ?? 1) * t * t * (3 - 2 * t);
+    const bx = vx + (tx / length - vx) * weight;
+    const by = vy + (ty / length - vy) * weight;
+    const blended = Math.hypot(bx, by);
+
+    if (blended > 0) {
+      vx = bx / blended;
+      vy = by / blended;
+    }
+  }
+
+  return { x: vx, y: vy };
+}
+
+/**
+ * Whether (x, y) lies inside an obstacle lines may not enter
+ */
+export function isBlocked(obstacles: Obstacle[], x: number, y: number): boolean {
+  return obstacles.some(
+    (obstacle) => !obstacle.enterable && signedDistance(obstacle.shape, x, y) < 0
+  );
+}
+
+/**
+ * Parse obstacles from JSON, e.g. a CLI config file.
+ * Accepts an array of obstacles or an object with an `obstacles` array.
+ */
+export function parseObstacles(json: unknown): Obstacle[] {
+  const list = getList(json, 'obstacles');
+
+  if (!list) {
+    throw new Error('Obstacles must be an array or an object with an "obstacles" array');
+  }
+
+  return list.map((entry, index) => {
+    if (!isRecord(entry)) {
+      throw new Error(`Obstacle ${index} must be an object`);
+    }
+    if (typeof entry.influenceDistance !== 'number' || entry.influenceDistance <= 0) {
+      throw new Error(`Obstacle ${index} needs a positive "influenceDistance"`);
+    }
+
+    let shape: Shape;
+    try {
+      shape = parseShape(entry.shape);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Obstacle ${index}: ${message}`);
+    }
+
+    return {
+      shape,
+      influenceDistance: entry.influenceDistance,
+      strength: typeof entry.strength === 'number' ? entry.strength : undefined,
+      enterable: typeof entry.enterable === 'boolean' ? entry.enterable : undefined,
+    };
+  });
+}
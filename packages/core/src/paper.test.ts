@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { toPixels, fromPixels, parseLength, paperSize, parsePaperSize, canvasSize } from './paper.js';
+
+describe('lengths', () => {
+  it('should convert at 96 pixels per inch', () => {
+    expect(toPixels({ value: 1, unit: 'in' })).toBe(96);
+    expect(toPixels({ value: 25.4, unit: 'mm' })).toBeCloseTo(96);
+    expect(toPixels({ value: 2.54, unit: 'cm' })).toBeCloseTo(96);
+    expect(fromPixels(toPixels({ value: 297, unit: 'mm' }), 'mm')).toBeCloseTo(297);
+  });
+
+  it('should parse lengths with an optional unit', () => {
+    expect(parseLength('20mm')).toEqual({ value: 20, unit: 'mm' });
+    expect(parseLength(' 1.5 in ')).toEqual({ value: 1.5, unit: 'in' });
+    expect(parseLength('40')).toEqual({ value: 40, unit: 'px' });
+    expect(parseLength('40', 'cm')).toEqual({ value: 40, unit: 'cm' });
+    expect(() => parseLength('20pt')).toThrow('Invalid length');
+    expect(() => parseLength('mm')).toThrow('Invalid length');
+  });
+});
+
+describe('paper sizes', () => {
+  it('should turn named sizes to landscape', () => {
+    expect(paperSize('a4')).toEqual({ width: 210, height: 297, unit: 'mm' });
+    expect(paperSize('a4', 'landscape')).toEqual({ width: 297, height: 210, unit: 'mm' });
+    expect(paperSize('9x12', 'landscape')).toEqual({ width: 12, height: 9, unit: 'in' });
+  });
+
+  it('should parse named and custom sizes', () => {
+    expect(parsePaperSize('A3', 'landscape')).toEqual({ width: 420, height: 297, unit: 'mm' });
+    expect(parsePaperSize('200x150mm', 'portrait')).toEqual({ width: 200, height: 150, unit: 'mm' });
+    expect(() => parsePaperSize('b4')).toThrow('Unknown paper size');
+    expect(() => parsePaperSize('200x150')).toThrow('Unknown paper size');
+  });
+
+  it('should give the canvas size in pixels', () => {
+    expect(canvasSize({ width: 8.5, height: 11, unit: 'in' })).toEqual({ width: 816, height: 1056 });
+  });
+});
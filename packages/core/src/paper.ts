@@ -0,0 +1,127 @@
+/**
+ * Length units. Canvas coordinates are CSS pixels, at the 96 per inch
+ * SVG, Inkscape, AxiDraw and vpype all assume.
+ */
+export type Unit = 'px' | 'mm' | 'cm' | 'in';
+
+export const UNITS: readonly Unit[] = ['px', 'mm', 'cm', 'in'];
+
+const PIXELS_PER: Record<Unit, number> = {
+  px: 1,
+  mm: 96 / 25.4,
+  cm: 960 / 25.4,
+  in: 96,
+};
+
+export interface Length {
+  value: number;
+  unit: Unit;
+}
+
+/**
+ * A document size in physical units
+ */
+export interface PhysicalSize {
+  width: number;
+  height: number;
+  unit: Unit;
+}
+
+/**
+ * Named paper sizes; 9x12 and 11x14 are the common inch sketch pads
+ */
+export type PaperSize = 'a5' | 'a4' | 'a3' | 'a2' | 'letter' | 'legal' | 'tabloid' | '9x12' | '11x14';
+
+export const PAPER_SIZES: readonly PaperSize[] = [
+  'a5',
+  'a4',
+  'a3',
+  'a2',
+  'letter',
+  'legal',
+  'tabloid',
+  '9x12',
+  '11x14',
+];
+
+export type Orientation = 'portrait' | 'landscape';
+
+export const ORIENTATIONS: readonly Orientation[] = ['portrait', 'landscape'];
+
+/** Portrait dimensions of each paper size */
+const PAPER: Record<PaperSize, PhysicalSize> = {
+  a5: { width: 148, height: 210, unit: 'mm' },
+  a4: { width: 210, height: 297, unit: 'mm' },
+  a3: { width: 297, height: 420, unit: 'mm' },
+  a2: { width: 420, height: 594, unit: 'mm' },
+  letter: { width: 8.5, height: 11, unit: 'in' },
+  legal: { width: 8.5, height: 14, unit: 'in' },
+  tabloid: { width: 11, height: 17, unit: 'in' },
+  '9x12': { width: 9, height: 12, unit: 'in' },
+  '11x14': { width: 11, height: 14, unit: 'in' },
+};
+
+/**
+ * Convert a length to canvas pixels
+ */
+export function toPixels({ value, unit }: Length): number {
+  return value * PIXELS_PER[unit];
+}
+
+/**
+ * Convert canvas pixels to a unit
+ */
+export function fromPixels(pixels: number, unit: Unit): number {
+  return pixels / PIXELS_PER[unit];
+}
+
+/**
+ * Parse a length such as "20mm", "1.5in" or "40", which is taken to be
+ * in `unit`
+ */
+export function parseLength(text: string, unit: Unit = 'px'): Length {
+  const match = /^\s*(-?\d*\.?\d+(?:e[+-]?\d+)?)\s*([a-z]*)\s*$/i.exec(text);
+  const suffix = match?.[2].toLowerCase() ?? '';
+
+  if (!match || (suffix !== '' && !UNITS.includes(suffix as Unit))) {
+    throw new Error(`Invalid length "${text}", expected a number with an optional unit (${UNITS.join(', ')})`);
+  }
+
+  return { value: parseFloat(match[1]), unit: (suffix || unit) as Unit };
+}
+
+/**
+ * Size of a named paper in portrait or landscape orientation
+ */
+export function paperSize(paper: PaperSize, orientation: Orientation = 'portrait'): PhysicalSize {
+  const { width, height, unit } = PAPER[paper];
+  return orientation === 'landscape' ? { width: height, height: width, unit } : { width, height, unit };
+}
+
+/**
+ * Parse a paper name, e.g. "a4", or a custom size written as
+ * `<width>x<height><unit>`, e.g. "200x150mm". The orientation applies to
+ * named sizes only; custom sizes are taken as written.
+ */
+export function parsePaperSize(text: string, orientation: Orientation = 'portrait'): PhysicalSize {
+  const name = text.trim().toLowerCase();
+  if (PAPER_SIZES.includes(name as PaperSize)) {
+    return paperSize(name as PaperSize, orientation);
+  }
+
+  const match = /^(\d*\.?\d+)x(\d*\.?\d+)([a-z]+)$/.exec(name);
+  if (!match || !UNITS.includes(match[3] as Unit)) {
+    throw new Error(
+      `Unknown paper size "${text}", expected one of ${PAPER_SIZES.join(', ')} or a size like 200x150mm`
+    );
+  }
+
+  return { width: parseFloat(match[1]), height: parseFloat(match[2]), unit: match[3] as Unit };
+}
+
+/**
+ * Canvas size in pixels of a physical document
+ */
+export function canvasSize({ width, height, unit }: PhysicalSize): { width: number; height: number } {
+  return { width: toPixels({ value: width, unit }), height: toPixels({ value: height, unit }) };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { assignPens, parsePens, type Pen } from './pens.js';
+import type { FlowLine, FlowLinesResult } from './flow-lines.js';
+
+const pens: Pen[] = [{ color: '#ff0000' }, { color: '#0000ff' }];
+
+function line(x: number, y: number, startAngle: number, noise: number): FlowLine {
+  return {
+    points: [{ x, y }, { x: x + 1, y }],
+    metadata: { seedIndex: 0, startAngle, length: 1, curvature: 0, noise },
+  };
+}
+
+const result: FlowLinesResult = {
+  width: 100,
+  height: 100,
+  seed: 1,
+  lines: [line(10, 80, 0.5, -0.4), line(80, 10, 4, 0.3), line(20, 20, -1, 0.1)],
+};
+
+const penOf = (layers: ReturnType<typeof assignPens>) =>
+  result.lines.map((l) => layers.findIndex((layer) => layer.lines.includes(l)));
+
+describe('assignPens', () => {
+  it('should deal lines out in turn by default', () => {
+    const layers = assignPens(result, pens);
+
+    expect(layers.map((layer) => layer.pen)).toEqual(pens);
+    expect(penOf(layers)).toEqual([0, 1, 0]);
+  });
+
+  it('should split the canvas into bands by region', () => {
+    expect(penOf(assignPens(result, pens, { strategy: 'region' }))).toEqual([0, 1, 0]);
+    expect(penOf(assignPens(result, pens, { strategy: 'region', axis: 'y' }))).toEqual([1, 0, 0]);
+  });
+
+  it('should bucket the start angle around the circle', () => {
+    // -1 rad wraps round to the second half of the circle
+    expect(penOf(assignPens(result, pens, { strategy: 'angle' }))).toEqual([0, 1, 1]);
+  });
+
+  it('should split by noise value', () => {
+    expect(penOf(assignPens(result, pens, { strategy: 'noise' }))).toEqual([0, 1, 1]);
+    expect(penOf(assignPens(result, pens, { strategy: 'noise', thresholds: [0.2] }))).toEqual([0, 1, 0]);
+  });
+
+  it('should follow an explicit mapping, repeating it', () => {
+    expect(penOf(assignPens(result, pens, { strategy: 'mapping', mapping: [1, 0] }))).toEqual([1, 0, 1]);
+    expect(penOf(assignPens(result, pens, { strategy: 'mapping', mapping: (_, i) => (i === 2 ? 1 : 0) })))
+      .toEqual([0, 0, 1]);
+  });
+
+  it('should reject pens out of range', () => {
+    expect(() => assignPens(result, pens, { strategy: 'mapping', mapping: [2] })).toThrow('pens run from 0 to 1');
+    expect(() => assignPens(result, [])).toThrow('At least one pen');
+  });
+});
+
+describe('parsePens', () => {
+  it('should read colors with optional widths', () => {
+    expect(parsePens('#000:0.5, red')).toEqual([{ color: '#000', width: 0.5 }, { color: 'red' }]);
+    expect(parsePens('blue:0.254mm')[0].width).toBeCloseTo(0.96);
+    expect(() => parsePens('red:0')).toThrow('positive width');
+    expect(() => parsePens('red:wide')).toThrow('Pen "red:wide": Invalid length');
+  });
+});
@@ -0,0 +1,177 @@
+import type { FlowLine, FlowLinesResult } from './flow-lines.js';
+import { parseLength, toPixels } from './paper.js';
+
+/**
+ * A plotter pen, drawn as its own layer
+ */
+export interface Pen {
+  color: string;
+  /** Stroke width in canvas pixels, defaulting to the document's */
+  width?: number;
+  /** Layer label, defaulting to "Pen 1", "Pen 2", ... */
+  name?: string;
+}
+
+/**
+ * The lines one pen draws
+ */
+export interface PenLayer {
+  pen: Pen;
+  lines: FlowLine[];
+}
+
+/**
+ * How lines are shared out between pens
+ * - round-robin: in turn, by line order
+ * - region: by where the line's centre falls in equal bands across the canvas
+ * - angle: by the field angle at the line's seed, in equal arcs of the circle
+ * - noise: by the noise value at the line's seed
+ * - mapping: by an explicit pen per line
+ */
+export type PenStrategy = 'round-robin' | 'region' | 'angle' | 'noise' | 'mapping';
+
+export const PEN_STRATEGIES: readonly PenStrategy[] = ['round-robin', 'region', 'angle', 'noise', 'mapping'];
+
+export interface PenAssignment {
+  strategy: PenStrategy;
+  /** Region bands run across x (side by side, the default) or y (stacked) */
+  axis?: 'x' | 'y';
+  /**
+   * Ascending noise values where one pen hands over to the next. Defaults
+   * to even bands between the lowest and highest value across the lines.
+   */
+  thresholds?: number[];
+  /**
+   * Pen index for each line in order, repeated when there are more lines
+   * than entries, or a function choosing the pen for a line
+   */
+  mapping?: number[] | ((line: FlowLine, index: number) => number);
+}
+
+/**
+ * Share the lines of a result out between pens, one layer per pen in
+ * pen order. Lines keep their relative order within a layer.
+ */
+export function assignPens(
+  result: FlowLinesResult,
+  pens: Pen[],
+  assignment: PenAssignment = { strategy: 'round-robin' }
+): PenLayer[] {
+  if (pens.length === 0) {
+    throw new Error('At least one pen is needed');
+  }
+
+  const choose = penChooser(result, pens.length, assignment);
+  const layers: PenLayer[] = pens.map((pen) => ({ pen, lines: [] }));
+
+  result.lines.forEach((line, index) => {
+    const pen = choose(line, index);
+    if (!Number.isInteger(pen) || pen < 0 || pen >= pens.length) {
+      throw new Error(`Line ${index} was mapped to pen ${pen}, but pens run from 0 to ${pens.length - 1}`);
+    }
+    layers[pen].lines.push(line);
+  });
+
+  return layers;
+}
+
+function penChooser(
+  result: FlowLinesResult,
+  count: number,
+  assignment: PenAssignment
+): (line: FlowLine, index: number) => number {
+  const band = (t: number) => Math.max(0, Math.min(count - 1, Math.floor(t * count)));
+
+  switch (assignment.strategy) {
+    case 'round-robin':
+      return (_, index) => index % count;
+    case 'region': {
+      const horizontal = (assignment.axis ?? 'x') === 'x';
+      return (line) => {
+        const center = centroid(line);
+        return band(horizontal ? center.x / result.width : center.y / result.height);
+      };
+    }
+    case 'angle':
+      return (line) => {
+        const angle = startAngle(line);
+        const turns = angle / (2 * Math.PI);
+        return band(turns - Math.floor(turns));
+      };
+    case 'noise': {
+      const thresholds = assignment.thresholds ?? evenThresholds(result.lines, count);
+      return (line) => {
+        const noise = line.metadata?.noise ?? 0;
+        return Math.min(count - 1, thresholds.filter((threshold) => noise >= threshold).length);
+      };
+    }
+    case 'mapping': {
+      const { mapping } = assignment;
+      if (typeof mapping === 'function') {
+        return mapping;
+      }
+      if (!mapping || mapping.length === 0) {
+        throw new Error('Mapping pen assignment needs a non-empty mapping');
+      }
+      return (_, index) => mapping[index % mapping.length];
+    }
+    default:
+      throw new Error(`Unknown pen strategy "${String(assignment.strategy)}"`);
+  }
+}
+
+/**
+ * Thresholds splitting the lines' noise range into `count` even bands
+ */
+function evenThresholds(lines: FlowLine[], count: number): number[] {
+  const values = lines.map((line) => line.metadata?.noise ?? 0);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return Array.from({ length: count - 1 }, (_, i) => min + ((max - min) * (i + 1)) / count);
+}
+
+function centroid(line: FlowLine): { x: number; y: number } {
+  const { points } = line;
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return points.length > 0 ? { x: sum.x / points.length, y: sum.y / points.length } : sum;
+}
+
+/**
+ * Field angle at the seed, or the direction of the first step for lines
+ * without metadata
+ */
+function startAngle(line: FlowLine): number {
+  if (line.metadata) {
+    return line.metadata.startAngle;
+  }
+  const [a, b] = line.points;
+  return a && b ? Math.atan2(b.y - a.y, b.x - a.x) : 0;
+}
+
+/**
+ * Parse pens written as comma-separated `color[:width]`, e.g.
+ * "#000:0.3mm,red". Widths without a unit are in pixels.
+ */
+export function parsePens(spec: string): Pen[] {
+  return spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [color, width] = entry.split(':');
+      if (width === undefined) {
+        return { color };
+      }
+      let parsed: number;
+      try {
+        parsed = toPixels(parseLength(width));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Pen "${entry}": ${message}`);
+      }
+      if (!(parsed > 0)) {
+        throw new Error(`Pen "${entry}" needs a positive width after the colon`);
+      }
+      return { color, width: parsed };
+    });
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { PerlinNoise } from './perlin-noise.js';
+
+describe('PerlinNoise', () => {
+  it('should create deterministic noise with seed', () => {
+    const noise1 = new PerlinNoise(12345);
+    const noise2 = new PerlinNoise(12345);
+
+    expect(noise1.noise2D(0.3, 0.7)).toBe(noise2.noise2D(0.3, 0.7));
+    expect(noise1.fbm(1.5, 2.5)).toBe(noise2.fbm(1.5, 2.5));
+  });
+
+  it('should be zero on lattice points', () => {
+    const noise = new PerlinNoise(42);
+
+    expect(noise.noise2D(3, 7)).toBe(0);
+  });
+
+  it('should return values in range [-1, 1]', () => {
+    const noise = new PerlinNoise(42);
+
+    for (let i = 0; i < 200; i++) {
+      const value = noise.noise2D(i * 0.37, i * 0.71);
+      expect(value).toBeGreaterThanOrEqual(-1);
+      expect(value).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should produce different values for different seeds', () => {
+    expect(new PerlinNoise(111).noise2D(0.5, 0.5)).not.toBe(new PerlinNoise(222).noise2D(0.5, 0.5));
+  });
+});
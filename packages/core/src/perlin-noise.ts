@@ -0,0 +1,57 @@
+import { NoiseBase, seededPermutation, fade, lerp } from './noise-base.js';
+
+// Gradient directions; with these lengths the output stays within [-1, 1]
+const grad2 = [
+  [1, 1],
+  [-1, 1],
+  [1, -1],
+  [-1, -1],
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+
+/**
+ * Classic (improved) Perlin gradient noise
+ */
+export class PerlinNoise extends NoiseBase {
+  private perm: number[];
+
+  constructor(seed: number = Math.random() * 65536) {
+    super();
+    this.perm = seededPermutation(seed);
+  }
+
+  private grad(hash: number, x: number, y: number): number {
+    const g = grad2[hash & 7];
+    return g[0] * x + g[1] * y;
+  }
+
+  /**
+   * 2D Perlin noise
+   */
+  noise2D(x: number, y: number): number {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const X = xi & 255;
+    const Y = yi & 255;
+    const xf = x - xi;
+    const yf = y - yi;
+
+    const perm = this.perm;
+    const aa = perm[perm[X] + Y];
+    const ab = perm[perm[X] + Y + 1];
+    const ba = perm[perm[X + 1] + Y];
+    const bb = perm[perm[X + 1] + Y + 1];
+
+    const u = fade(xf);
+    const v = fade(yf);
+
+    return lerp(
+      lerp(this.grad(aa, xf, yf), this.grad(ba, xf - 1, yf), u),
+      lerp(this.grad(ab, xf, yf - 1), this.grad(bb, xf - 1, yf - 1), u),
+      v
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom, generateSeeds, gridSeeds, parseSeedPath, SEEDING_STRATEGIES } from './seeding.js';
+import type { Point } from './flow-lines.js';
+
+const minDistance = (points: Point[]) => {
+  let min = Infinity;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      min = Math.min(min, Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y));
+    }
+  }
+  return min;
+};
+
+const inside = (points: Point[], size: number, margin: number) =>
+  points.every((p) => p.x >= margin && p.x < size - margin && p.y >= margin && p.y < size - margin);
+
+describe('generateSeeds', () => {
+  it('should be deterministic for every strategy', () => {
+    for (const strategy of SEEDING_STRATEGIES) {
+      const options = { strategy, spacing: 30, points: [{ x: 20, y: 20 }, { x: 180, y: 150 }] };
+      const a = generateSeeds(options, 200, 200, 20, 10, 42);
+      const b = generateSeeds(options, 200, 200, 20, 10, 42);
+
+      expect(a.length).toBeGreaterThan(0);
+      expect(a).toEqual(b);
+      expect(inside(a, 200, 10)).toBe(true);
+    }
+  });
+
+  it('should keep Poisson-disk seeds at least the spacing apart', () => {
+    const points = generateSeeds({ strategy: 'poisson', spacing: 20 }, 200, 200, 0, 10, 7);
+
+    expect(minDistance(points)).toBeGreaterThanOrEqual(20);
+    // Bridson fills the area: far more than a sparse scatter
+    expect(points.length).toBeGreaterThan(40);
+  });
+
+  it('should vary random strategies with the seed', () => {
+    const a = generateSeeds({ strategy: 'poisson', spacing: 20 }, 200, 200, 0, 10, 1);
+    const b = generateSeeds({ strategy: 'poisson', spacing: 20 }, 200, 200, 0, 10, 2);
+
+    expect(a).not.toEqual(b);
+  });
+
+  it('should keep one jittered seed per grid cell', () => {
+    const points = generateSeeds({ strategy: 'jittered-grid', spacing: 50 }, 200, 200, 0, 0, 3);
+
+    expect(points).toHaveLength(16);
+    const cells = new Set(points.map((p) => `${Math.floor(p.x / 50)},${Math.floor(p.y / 50)}`));
+    expect(cells.size).toBe(16);
+  });
+
+  it('should offset every other hex row by half a spacing', () => {
+    const points = generateSeeds({ strategy: 'hex-grid', spacing: 20 }, 100, 100, 0, 0, 1);
+    const rows = [...new Set(points.map((p) => p.y))];
+
+    expect(rows[1] - rows[0]).toBeCloseTo(20 * Math.sqrt(3) / 2);
+    expect(points.find((p) => p.y === rows[1])?.x).toBe(10);
+  });
+
+  it('should place rings at multiples of the spacing from the centre', () => {
+    const points = generateSeeds({ strategy: 'rings', spacing: 25 }, 200, 200, 0, 0, 1);
+
+    for (const p of points) {
+      const radius = Math.hypot(p.x - 100, p.y - 100);
+      expect(radius / 25).toBeCloseTo(Math.round(radius / 25));
+    }
+  });
+
+  it('should space spiral seeds about evenly along the curve', () => {
+    const points = generateSeeds({ strategy: 'spiral', spacing: 10, center: { x: 50, y: 50 } }, 100, 100, 0, 0, 1)
+      // Further out the spiral leaves the canvas between seeds
+      .filter((p) => Math.hypot(p.x - 50, p.y - 50) < 50);
+
+    for (let i = 1; i < points.length; i++) {
+      const gap = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+      expect(gap).toBeLessThan(10.5);
+    }
+    expect(points.length).toBeGreaterThan(50);
+  });
+
+  it('should seed only the requested edges', () => {
+    const points = generateSeeds({ strategy: 'edge', spacing: 10, edges: ['left'] }, 100, 100, 0, 10, 1);
+
+    expect(points.every((p) => p.x === 10.5)).toBe(true);
+    expect(points).toHaveLength(8);
+  });
+
+  it('should follow a polyline across its corners', () => {
+    const path = [{ x: 10, y: 10 }, { x: 25, y: 10 }, { x: 25, y: 30 }];
+    const points = generateSeeds({ strategy: 'polyline', spacing: 10, points: path }, 100, 100, 0, 0, 1);
+
+    expect(points).toEqual([
+      { x: 10, y: 10 },
+      { x: 20, y: 10 },
+      { x: 25, y: 15 },
+      { x: 25, y: 25 },
+    ]);
+  });
+
+  it('should derive the spacing from the line count', () => {
+    const points = generateSeeds({ strategy: 'grid' }, 200, 200, 16, 0, 1);
+
+    expect(points).toHaveLength(16);
+  });
+
+  it('should accept a custom seeder', () => {
+    const points = generateSeeds(({ width, random }) => [{ x: width / 2, y: random() }], 200, 100, 1, 0, 5);
+
+    expect(points[0].x).toBe(100);
+    expect(points[0].y).toBeGreaterThan(0);
+  });
+
+  it('should thin seeds by density', () => {
+    const points = generateSeeds({ strategy: 'grid', spacing: 10 }, 200, 200, 0, 0, 1, (x) => (x < 100 ? 1 : 0));
+
+    expect(points.length).toBe(200);
+    expect(points.every((p) => p.x < 100)).toBe(true);
+  });
+
+  it('should reject missing polyline points and bad spacing', () => {
+    expect(() => generateSeeds({ strategy: 'polyline' }, 100, 100, 5, 0, 1)).toThrow();
+    expect(() => generateSeeds({ strategy: 'grid', spacing: 0 }, 100, 100, 5, 0, 1)).toThrow();
+    expect(() => generateSeeds({ strategy: 'jittered-grid', jitter: 1.5 }, 100, 100, 5, 0, 1)).toThrow(
+      'Seed jitter must be between 0 and 1'
+    );
+    expect(() => generateSeeds({ strategy: 'jittered-grid', jitter: NaN }, 100, 100, 5, 0, 1)).toThrow('Seed jitter');
+  });
+});
+
+describe('createRandom', () => {
+  it('should keep the version 1 sequence', () => {
+    const random = createRandom(1, 1);
+
+    expect(random()).toBe(1103527590 / 0x7fffffff);
+    expect(createRandom(1)()).toBe(1103527590 / 0x7fffffff);
+  });
+});
+
+describe('gridSeeds', () => {
+  it('should start at the margin', () => {
+    expect(gridSeeds(200, 200, 25, 50)).toHaveLength(9);
+    expect(gridSeeds(200, 200, 25, 50)[0]).toEqual({ x: 25, y: 25 });
+  });
+});
+
+describe('parseSeedPath', () => {
+  it('should parse an array or a points object', () => {
+    const points = [{ x: 1, y: 2 }, { x: 3, y: 4 }];
+
+    expect(parseSeedPath(points)).toEqual(points);
+    expect(parseSeedPath({ points })).toEqual(points);
+  });
+
+  it('should reject malformed paths', () => {
+    expect(() => parseSeedPath([])).toThrow();
+    expect(() => parseSeedPath([{ x: 1 }])).toThrow();
+  });
+});
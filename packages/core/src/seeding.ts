@@ -0,0 +1,444 @@
+import type { Point } from './flow-lines.js';
+import { isPoint, getList } from './json.js';
+import { LATEST_ALGORITHM_VERSION, AlgorithmVersion } from './version.js';
+
+/**
+ * Built-in ways of placing start points
+ * - random: uniformly at random, the default
+ * - poisson: Bridson Poisson-disk sampling, random but never closer than `spacing`
+ * - grid: a regular square grid
+ * - jittered-grid: one point per grid cell, randomly offset within it
+ * - hex-grid: a hexagonal grid, every other row shifted by half a spacing
+ * - rings: concentric rings around `center`
+ * - spiral: an Archimedean spiral out from `center`
+ * - edge: along the canvas edges named in `edges`
+ * - polyline: along `points`
+ */
+export type SeedingStrategy =
+  | 'random'
+  | 'poisson'
+  | 'grid'
+  | 'jittered-grid'
+  | 'hex-grid'
+  | 'rings'
+  | 'spiral'
+  | 'edge'
+  | 'polyline';
+
+export const SEEDING_STRATEGIES: readonly SeedingStrategy[] = [
+  'random',
+  'poisson',
+  'grid',
+  'jittered-grid',
+  'hex-grid',
+  'rings',
+  'spiral',
+  'edge',
+  'polyline',
+];
+
+export type CanvasEdge = 'top' | 'right' | 'bottom' | 'left';
+
+export const CANVAS_EDGES: readonly CanvasEdge[] = ['top', 'right', 'bottom', 'left'];
+
+export interface SeedingOptions {
+  strategy: SeedingStrategy;
+  /**
+   * Distance between neighbouring seeds. Defaults to the spacing of a
+   * square grid holding roughly `lineCount` seeds.
+   */
+  spacing?: number;
+  /** Fraction of a cell a jittered-grid seed may move (default 1) */
+  jitter?: number;
+  /** Middle of rings and spirals (default the canvas centre) */
+  center?: Point;
+  /** Edges to seed along (default all four) */
+  edges?: CanvasEdge[];
+  /** Path to seed along for the polyline strategy */
+  points?: Point[];
+}
+
+/**
+ * What a seeder knows about the canvas it places start points on
+ */
+export interface SeedingContext {
+  width: number;
+  height: number;
+  margin: number;
+  /** Requested number of lines */
+  count: number;
+  /** Seeded random numbers in [0, 1]; use this for determinism */
+  random: () => number;
+}
+
+/**
+ * A custom seeding strategy
+ */
+export type Seeder = (context: SeedingContext) => Point[];
+
+// Random number generator of each algorithm version
+const RANDOM: Record<AlgorithmVersion, (seed: number) => () => number> = {
+  1: linearCongruential,
+};
+
+/**
+ * Create the seeded random number generator shared by all strategies
+ */
+export function createRandom(seed: number, version: AlgorithmVersion = LATEST_ALGORITHM_VERSION): () => number {
+  return RANDOM[version](seed);
+}
+
+function linearCongruential(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    return s / 0x7fffffff;
+  };
+}
+
+/**
+ * Place start points with a built-in strategy or a custom seeder.
+ * With a density function, seeds are kept with probability equal to
+ * the density at their position.
+ */
+export function generateSeeds(
+  seeding: SeedingOptions | Seeder,
+  width: number,
+  height: number,
+  count: number,
+  margin: number,
+  seed: number,
+  density?: (x: number, y: number) => number,
+  version: AlgorithmVersion = LATEST_ALGORITHM_VERSION
+): Point[] {
+  if (typeof seeding !== 'function' && seeding.strategy === 'random') {
+    return generateStartPoints(width, height, count, margin, seed, density, version);
+  }
+
+  const random = createRandom(seed, version);
+  const context: SeedingContext = { width, height, margin, count, random };
+  const points = typeof seeding === 'function'
+    ? seeding(context)
+    : builtInSeeds(seeding, context);
+
+  return density ? points.filter((point) => random() < density(point.x, point.y)) : points;
+}
+
+function builtInSeeds(options: SeedingOptions, context: SeedingContext): Point[] {
+  const { width, height, margin, count } = context;
+  const spacing = options.spacing ??
+    Math.sqrt(((width - 2 * margin) * (height - 2 * margin)) / Math.max(1, count));
+
+  if (!(spacing > 0)) {
+    throw new Error('Seed spacing must be greater than 0');
+  }
+  if (options.jitter !== undefined && !(options.jitter >= 0 && options.jitter <= 1)) {
+    throw new Error('Seed jitter must be between 0 and 1');
+  }
+
+  switch (options.strategy) {
+    case 'poisson':
+      return poissonDiskSeeds(context, spacing);
+    case 'grid':
+      return gridSeeds(width, height, margin, spacing);
+    case 'jittered-grid':
+      return jitteredGridSeeds(context, spacing, options.jitter ?? 1);
+    case 'hex-grid':
+      return hexGridSeeds(context, spacing);
+    case 'rings':
+      return inArea(context, ringSeeds(context, spacing, options.center));
+    case 'spiral':
+      return inArea(context, spiralSeeds(context, spacing, options.center));
+    case 'edge':
+      return edgeSeeds(context, spacing, options.edges ?? [...CANVAS_EDGES]);
+    case 'polyline':
+      if (!options.points || options.points.length === 0) {
+        throw new Error('Polyline seeding needs a non-empty list of points');
+      }
+      return inArea(context, polylineSeeds(options.points, spacing));
+    default:
+      throw new Error(`Unknown seeding strategy "${String(options.strategy)}"`);
+  }
+}
+
+/**
+ * Generate random starting points for flow lines. With a density
+ * function, candidates are kept with probability equal to the density.
+ */
+function generateStartPoints(
+  width: number,
+  height: number,
+  count: number,
+  margin: number,
+  seed: number,
+  density: ((x: number, y: number) => number) | undefined,
+  version: AlgorithmVersion
+): Point[] {
+  const points: Point[] = [];
+
+  // Simple seeded random
+  const random = createRandom(seed, version);
+
+  // Cap rejection sampling so near-empty density maps still finish
+  const maxAttempts = 100;
+
+  for (let i = 0; i < count; i++) {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const point = {
+        x: margin + random() * (width - 2 * margin),
+        y: margin + random() * (height - 2 * margin),
+      };
+
+      if (!density || random() < density(point.x, point.y)) {
+        points.push(point);
+        break;
+      }
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Points of a square grid, starting at the margin
+ */
+export function gridSeeds(width: number, height: number, margin: number, spacing: number): Point[] {
+  const points: Point[] = [];
+
+  for (let y = margin; y < height - margin; y += spacing) {
+    for (let x = margin; x < width - margin; x += spacing) {
+      points.push({ x, y });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Bridson's Poisson-disk sampling: grow outward from active samples,
+ * trying up to 30 candidates in the annulus between r and 2r of each
+ */
+function poissonDiskSeeds(context: SeedingContext, radius: number): Point[] {
+  const { width, height, margin, random } = context;
+  const areaWidth = width - 2 * margin;
+  const areaHeight = height - 2 * margin;
+  if (areaWidth <= 0 || areaHeight <= 0) return [];
+
+  // Cells small enough to hold at most one sample each
+  const cellSize = radius / Math.SQRT2;
+  const cols = Math.ceil(areaWidth / cellSize);
+  const rows = Math.ceil(areaHeight / cellSize);
+  const grid: (Point | undefined)[] = new Array(cols * rows);
+  const samples: Point[] = [];
+  const active: Point[] = [];
+  const attempts = 30;
+
+  const add = (point: Point) => {
+    grid[Math.floor(point.y / cellSize) * cols + Math.floor(point.x / cellSize)] = point;
+    samples.push(point);
+    active.push(point);
+  };
+
+  const fits = (point: Point) => {
+    if (point.x < 0 || point.x >= areaWidth || point.y < 0 || point.y >= areaHeight) {
+      return false;
+    }
+    const col = Math.floor(point.x / cellSize);
+    const row = Math.floor(point.y / cellSize);
+    for (let r = Math.max(0, row - 2); r <= Math.min(rows - 1, row + 2); r++) {
+      for (let c = Math.max(0, col - 2); c <= Math.min(cols - 1, col + 2); c++) {
+        const other = grid[r * cols + c];
+        if (other && Math.hypot(other.x - point.x, other.y - point.y) < radius) {
+          return false;
+        }
+      }
+    }
+    return true;
+  };
+
+  add({ x: random() * areaWidth, y: random() * areaHeight });
+
+  while (active.length > 0) {
+    const index = Math.floor(random() * active.length);
+    const origin = active[index];
+    let found = false;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const angle = random() * Math.PI * 2;
+      const distance = radius * (1 + random());
+      const candidate = {
+        x: origin.x + Math.cos(angle) * distance,
+        y: origin.y + Math.sin(angle) * distance,
+      };
+
+      if (fits(candidate)) {
+        add(candidate);
+        found = true;
+        break;
+      }
+    }
+
+    if (!found) {
+      active.splice(index, 1);
+    }
+  }
+
+  return samples.map((point) => ({ x: point.x + margin, y: point.y + margin }));
+}
+
+function jitteredGridSeeds(context: SeedingContext, spacing: number, jitter: number): Point[] {
+  const { width, height, margin, random } = context;
+
+  return gridSeeds(width, height, margin, spacing)
+    .map((cell) => ({
+      x: cell.x + (0.5 + (random() - 0.5) * jitter) * spacing,
+      y: cell.y + (0.5 + (random() - 0.5) * jitter) * spacing,
+    }))
+    .filter((point) => point.x < width - margin && point.y < height - margin);
+}
+
+function hexGridSeeds(context: SeedingContext, spacing: number): Point[] {
+  const { width, height, margin } = context;
+  const rowHeight = (spacing * Math.sqrt(3)) / 2;
+  const points: Point[] = [];
+
+  for (let row = 0, y = margin; y < height - margin; row++, y += rowHeight) {
+    for (let x = margin + (row % 2) * (spacing / 2); x < width - margin; x += spacing) {
+      points.push({ x, y });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Farthest a ring or spiral needs to reach from its centre to cover the canvas
+ */
+function reach(context: SeedingContext, center: Point): number {
+  const { width, height } = context;
+  return Math.max(
+    Math.hypot(center.x, center.y),
+    Math.hypot(width - center.x, center.y),
+    Math.hypot(center.x, height - center.y),
+    Math.hypot(width - center.x, height - center.y)
+  );
+}
+
+function ringSeeds(context: SeedingContext, spacing: number, center?: Point): Point[] {
+  const c = center ?? { x: context.width / 2, y: context.height / 2 };
+  const maxRadius = reach(context, c);
+  const points: Point[] = [{ ...c }];
+
+  for (let radius = spacing; radius <= maxRadius; radius += spacing) {
+    const count = Math.max(1, Math.round((Math.PI * 2 * radius) / spacing));
+    for (let i = 0; i < count; i++) {
+      const angle = (i / count) * Math.PI * 2;
+      points.push({ x: c.x + Math.cos(angle) * radius, y: c.y + Math.sin(angle) * radius });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Points `spacing` apart along a spiral whose turns are `spacing` apart
+ */
+function spiralSeeds(context: SeedingContext, spacing: number, center?: Point): Point[] {
+  const c = center ?? { x: context.width / 2, y: context.height / 2 };
+  const maxRadius = reach(context, c);
+  const growth = spacing / (Math.PI * 2);
+  const points: Point[] = [];
+
+  for (let angle = 0, radius = 0; radius <= maxRadius; radius = growth * angle) {
+    points.push({ x: c.x + Math.cos(angle) * radius, y: c.y + Math.sin(angle) * radius });
+    // Arc length along the spiral is about sqrt(r² + b²) per radian
+    angle += spacing / Math.hypot(radius, growth);
+  }
+
+  return points;
+}
+
+function edgeSeeds(context: SeedingContext, spacing: number, edges: CanvasEdge[]): Point[] {
+  const { width, height, margin } = context;
+  // Half a unit inside, so seeds on the far edges are still in bounds
+  const left = margin + 0.5;
+  const top = margin + 0.5;
+  const right = width - margin - 0.5;
+  const bottom = height - margin - 0.5;
+  const points: Point[] = [];
+
+  for (const edge of edges) {
+    const horizontal = edge === 'top' || edge === 'bottom';
+    const length = horizontal ? right - left : bottom - top;
+
+    for (let along = 0; along <= length; along += spacing) {
+      switch (edge) {
+        case 'top':
+          points.push({ x: left + along, y: top });
+          break;
+        case 'bottom':
+          points.push({ x: left + along, y: bottom });
+          break;
+        case 'left':
+          points.push({ x: left, y: top + along });
+          break;
+        case 'right':
+          points.push({ x: right, y: top + along });
+          break;
+      }
+    }
+  }
+
+  // Corners are shared by two edges
+  const seen = new Set<string>();
+  return points.filter((p) => {
+    const key = `${p.x},${p.y}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Points `spacing` apart, measured along the polyline
+ */
+function polylineSeeds(path: Point[], spacing: number): Point[] {
+  const points: Point[] = [{ ...path[0] }];
+  let carried = 0;
+
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+
+    let along = spacing - carried;
+    for (; along <= length; along += spacing) {
+      const t = along / length;
+      points.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    }
+    carried = length - (along - spacing);
+  }
+
+  return points;
+}
+
+function inArea(context: SeedingContext, points: Point[]): Point[] {
+  const { width, height, margin } = context;
+  return points.filter(
+    (p) => p.x >= margin && p.x < width - margin && p.y >= margin && p.y < height - margin
+  );
+}
+
+/**
+ * Parse a seeding path from JSON: an array of {x, y} points or an
+ * object with a `points` array
+ */
+export function parseSeedPath(json: unknown): Point[] {
+  const list = getList(json, 'points');
+
+  if (!list || list.length === 0 || !list.every(isPoint)) {
+    throw new Error('A seed path must be a non-empty array of {x, y} points');
+  }
+
+  return list.map(({ x, y }) => ({ x, y }));
+}
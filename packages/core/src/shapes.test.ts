@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  containsPoint,
+  signedDistance,
+  outwardNormal,
+  boundaryCrossing,
+  clipPolyline,
+  presetShape,
+  fitShape,
+  parseShape,
+  Shape,
+} from './shapes.js';
+
+const square = (x: number, y: number, size: number) => [
+  { x, y },
+  { x: x + size, y },
+  { x: x + size, y: y + size },
+  { x, y: y + size },
+];
+
+describe('containsPoint', () => {
+  it('should test circles and ellipses', () => {
+    const circle: Shape = { type: 'circle', center: { x: 50, y: 50 }, radius: 10 };
+    const ellipse: Shape = { type: 'ellipse', center: { x: 50, y: 50 }, radiusX: 40, radiusY: 10 };
+
+    expect(containsPoint(circle, 55, 55)).toBe(true);
+    expect(containsPoint(circle, 59, 59)).toBe(false);
+    expect(containsPoint(ellipse, 85, 50)).toBe(true);
+    expect(containsPoint(ellipse, 50, 65)).toBe(false);
+  });
+
+  it('should cut the corners of a rounded rectangle', () => {
+    const rect: Shape = { type: 'rect', x: 0, y: 0, width: 100, height: 50, cornerRadius: 10 };
+
+    expect(containsPoint(rect, 1, 1)).toBe(false);
+    expect(containsPoint(rect, 5, 25)).toBe(true);
+    expect(containsPoint(rect, 50, 1)).toBe(true);
+    expect(containsPoint(rect, 101, 25)).toBe(false);
+  });
+
+  it('should treat inner polygon rings as holes', () => {
+    const frame: Shape = { type: 'polygon', rings: [square(0, 0, 100), square(25, 25, 50)] };
+
+    expect(containsPoint(frame, 10, 10)).toBe(true);
+    expect(containsPoint(frame, 50, 50)).toBe(false);
+    expect(containsPoint(frame, 150, 50)).toBe(false);
+  });
+});
+
+describe('signedDistance', () => {
+  it('should be negative inside and zero on the outline', () => {
+    const circle: Shape = { type: 'circle', center: { x: 0, y: 0 }, radius: 10 };
+    const rect: Shape = { type: 'rect', x: 0, y: 0, width: 100, height: 50, cornerRadius: 10 };
+
+    expect(signedDistance(circle, 15, 0)).toBe(5);
+    expect(signedDistance(circle, 4, 0)).toBe(-6);
+    expect(signedDistance(rect, 50, -5)).toBe(5);
+    expect(signedDistance(rect, 50, 10)).toBe(-10);
+    // Past the rounded corner, the distance is to the corner arc
+    expect(signedDistance(rect, -10, -10)).toBeCloseTo(Math.hypot(20, 20) - 10);
+  });
+
+  it('should approximate ellipses closely near the outline', () => {
+    const ellipse: Shape = { type: 'ellipse', center: { x: 0, y: 0 }, radiusX: 40, radiusY: 10 };
+
+    expect(signedDistance(ellipse, 42, 0)).toBeCloseTo(2, 1);
+    expect(signedDistance(ellipse, 0, 8)).toBeCloseTo(-2, 1);
+  });
+
+  it('should measure to the nearest ring of a polygon with holes', () => {
+    const frame: Shape = { type: 'polygon', rings: [square(0, 0, 100), square(25, 25, 50)] };
+
+    expect(signedDistance(frame, 10, 50)).toBe(-10);
+    expect(signedDistance(frame, 30, 50)).toBe(5);
+    expect(signedDistance(frame, 110, 50)).toBe(10);
+  });
+});
+
+describe('outwardNormal', () => {
+  it('should point away from the shape', () => {
+    const circle: Shape = { type: 'circle', center: { x: 0, y: 0 }, radius: 10 };
+    const normal = outwardNormal(circle, 0, 12);
+
+    expect(normal.x).toBeCloseTo(0);
+    expect(normal.y).toBeCloseTo(1);
+  });
+});
+
+describe('boundaryCrossing', () => {
+  it('should find where a segment leaves the shape', () => {
+    const circle: Shape = { type: 'circle', center: { x: 0, y: 0 }, radius: 10 };
+    const crossing = boundaryCrossing(circle, { x: 0, y: 0 }, { x: 20, y: 0 });
+
+    expect(crossing.x).toBeCloseTo(10, 1);
+    expect(crossing.y).toBe(0);
+  });
+});
+
+describe('clipPolyline', () => {
+  it('should keep the pieces inside, ending at the edge', () => {
+    const shape: Shape = { type: 'polygon', rings: [square(0, 0, 100), square(40, 0, 20)] };
+    const pieces = clipPolyline(shape, [
+      { x: -10, y: 10 },
+      { x: 30, y: 10 },
+      { x: 50, y: 10 },
+      { x: 70, y: 10 },
+      { x: 90, y: 10 },
+    ]);
+
+    expect(pieces).toHaveLength(2);
+    expect(pieces[0][0].x).toBeCloseTo(0, 1);
+    expect(pieces[0][pieces[0].length - 1].x).toBeCloseTo(40, 1);
+    expect(pieces[1][0].x).toBeCloseTo(60, 1);
+    expect(pieces[1][pieces[1].length - 1]).toEqual({ x: 90, y: 10 });
+  });
+
+  it('should drop a line entirely outside', () => {
+    const circle: Shape = { type: 'circle', center: { x: 0, y: 0 }, radius: 1 };
+
+    expect(clipPolyline(circle, [{ x: 5, y: 5 }, { x: 6, y: 6 }])).toEqual([]);
+  });
+});
+
+describe('presetShape', () => {
+  it('should fit presets inside the margin', () => {
+    expect(presetShape('circle', 200, 100, 10)).toEqual({
+      type: 'circle',
+      center: { x: 100, y: 50 },
+      radius: 40,
+    });
+    expect(presetShape('rounded-rect', 200, 100, 10, 5)).toEqual({
+      type: 'rect',
+      x: 10,
+      y: 10,
+      width: 180,
+      height: 80,
+      cornerRadius: 5,
+    });
+  });
+});
+
+describe('fitShape', () => {
+  it('should scale and centre a polygon on the canvas', () => {
+    const fitted = fitShape({ type: 'polygon', rings: [square(0, 0, 1)] }, 200, 100, 10);
+
+    expect(fitted).toEqual({ type: 'polygon', rings: [square(60, 10, 80)] });
+  });
+
+  it('should fit paths too large to spread into an argument list', () => {
+    const ring = Array.from({ length: 200000 }, (_, i) => ({
+      x: Math.cos((i / 200000) * 2 * Math.PI),
+      y: Math.sin((i / 200000) * 2 * Math.PI),
+    }));
+    const fitted = fitShape({ type: 'polygon', rings: [ring] }, 100, 100);
+
+    expect(fitted.type === 'polygon' && fitted.rings[0][0]).toEqual({ x: 100, y: 50 });
+  });
+});
+
+describe('parseShape', () => {
+  it('should parse shapes and single-ring polygons', () => {
+    expect(parseShape({ type: 'circle', center: { x: 1, y: 2 }, radius: 3 })).toEqual({
+      type: 'circle',
+      center: { x: 1, y: 2 },
+      radius: 3,
+    });
+    expect(parseShape({ type: 'polygon', points: square(0, 0, 1) })).toEqual({
+      type: 'polygon',
+      rings: [square(0, 0, 1)],
+    });
+  });
+
+  it('should reject malformed shapes', () => {
+    expect(() => parseShape({ type: 'star' })).toThrow('Unknown shape type');
+    expect(() => parseShape({ type: 'circle', center: { x: 1, y: 2 } })).toThrow('"radius"');
+    expect(() => parseShape({ type: 'polygon', points: [{ x: 0, y: 0 }] })).toThrow('at least three');
+  });
+});
@@ -0,0 +1,292 @@
+import type { Point } from './flow-lines.js';
+import { closestPointOnPolyline } from './geometry.js';
+import { isRecord, isPoint } from './json.js';
+
+/**
+ * A closed region of the canvas. Polygons use the even-odd rule, so
+ * rings lying inside another ring cut holes in it.
+ */
+export type Shape =
+  | { type: 'circle'; center: Point; radius: number }
+  | { type: 'ellipse'; center: Point; radiusX: number; radiusY: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; cornerRadius?: number }
+  | { type: 'polygon'; rings: Point[][] };
+
+export type ShapeType = Shape['type'];
+
+export const SHAPE_TYPES: readonly ShapeType[] = ['circle', 'ellipse', 'rect', 'polygon'];
+
+/**
+ * Shapes sized to fill the canvas inside its margin
+ */
+export type ShapePreset = 'circle' | 'ellipse' | 'rounded-rect';
+
+export const SHAPE_PRESETS: readonly ShapePreset[] = ['circle', 'ellipse', 'rounded-rect'];
+
+/**
+ * What happens to a line that reaches the edge of a clip shape
+ * - stop: the line ends there
+ * - split: the line carries on outside and only its pieces inside are kept
+ */
+export type ClipMode = 'stop' | 'split';
+
+export const CLIP_MODES: readonly ClipMode[] = ['stop', 'split'];
+
+/**
+ * Whether (x, y) lies inside the shape
+ */
+export function containsPoint(shape: Shape, x: number, y: number): boolean {
+  switch (shape.type) {
+    case 'circle': {
+      const dx = x - shape.center.x;
+      const dy = y - shape.center.y;
+      return dx * dx + dy * dy < shape.radius * shape.radius;
+    }
+    case 'ellipse': {
+      const dx = (x - shape.center.x) / shape.radiusX;
+      const dy = (y - shape.center.y) / shape.radiusY;
+      return dx * dx + dy * dy < 1;
+    }
+    case 'rect': {
+      const { width, height } = shape;
+      if (x < shape.x || x >= shape.x + width || y < shape.y || y >= shape.y + height) {
+        return false;
+      }
+      const r = Math.min(shape.cornerRadius ?? 0, width / 2, height / 2);
+      if (r <= 0) return true;
+      // Only the corner squares need the rounded test
+      const cx = Math.max(shape.x + r, Math.min(x, shape.x + width - r));
+      const cy = Math.max(shape.y + r, Math.min(y, shape.y + height - r));
+      return (x - cx) ** 2 + (y - cy) ** 2 < r * r;
+    }
+    case 'polygon': {
+      let inside = false;
+      for (const ring of shape.rings) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+          const a = ring[i];
+          const b = ring[j];
+          if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+          }
+        }
+      }
+      return inside;
+    }
+  }
+}
+
+/**
+ * Distance from (x, y) to the shape's outline, negative inside. Exact
+ * except for ellipses, where it is a close approximation.
+ */
+export function signedDistance(shape: Shape, x: number, y: number): number {
+  switch (shape.type) {
+    case 'circle':
+      return Math.hypot(x - shape.center.x, y - shape.center.y) - shape.radius;
+    case 'ellipse': {
+      const { radiusX: rx, radiusY: ry } = shape;
+      const dx = x - shape.center.x;
+      const dy = y - shape.center.y;
+      const k0 = Math.hypot(dx / rx, dy / ry);
+      const k1 = Math.hypot(dx / (rx * rx), dy / (ry * ry));
+      // The approximation breaks down at the exact centre
+      return k1 === 0 ? -Math.min(rx, ry) : (k0 * (k0 - 1)) / k1;
+    }
+    case 'rect': {
+      const halfWidth = shape.width / 2;
+      const halfHeight = shape.height / 2;
+      const r = Math.min(shape.cornerRadius ?? 0, halfWidth, halfHeight);
+      const qx = Math.abs(x - shape.x - halfWidth) - (halfWidth - r);
+      const qy = Math.abs(y - shape.y - halfHeight) - (halfHeight - r);
+      return Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) + Math.min(Math.max(qx, qy), 0) - r;
+    }
+    case 'polygon': {
+      let nearest = Infinity;
+      for (const ring of shape.rings) {
+        nearest = Math.min(nearest, closestPointOnPolyline([...ring, ring[0]], x, y).distance);
+      }
+      return containsPoint(shape, x, y) ? -nearest : nearest;
+    }
+  }
+}
+
+/**
+ * Unit normal of the outline nearest (x, y), pointing out of the shape,
+ * from central differences of the signed distance
+ */
+export function outwardNormal(shape: Shape, x: number, y: number, h = 0.5): Point {
+  const nx = signedDistance(shape, x + h, y) - signedDistance(shape, x - h, y);
+  const ny = signedDistance(shape, x, y + h) - signedDistance(shape, x, y - h);
+  const length = Math.hypot(nx, ny);
+  return length > 0 ? { x: nx / length, y: ny / length } : { x: 0, y: 0 };
+}
+
+/**
+ * Point where the segment from `inside` to `outside` crosses the shape's
+ * edge, found by bisection to within `tolerance`
+ */
+export function boundaryCrossing(shape: Shape, inside: Point, outside: Point, tolerance = 0.01): Point {
+  let a = inside;
+  let b = outside;
+
+  while (Math.hypot(b.x - a.x, b.y - a.y) > tolerance) {
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    if (containsPoint(shape, mid.x, mid.y)) {
+      a = mid;
+    } else {
+      b = mid;
+    }
+  }
+
+  return a;
+}
+
+/**
+ * Cut a polyline into the pieces that lie inside the shape. Each piece
+ * is extended to where the line crosses the shape's edge.
+ */
+export function clipPolyline(shape: Shape, points: Point[]): Point[][] {
+  const pieces: Point[][] = [];
+  let current: Point[] = [];
+
+  points.forEach((point, i) => {
+    const inside = containsPoint(shape, point.x, point.y);
+    const previous = points[i - 1];
+
+    if (inside) {
+      if (current.length === 0 && previous) {
+        current.push(boundaryCrossing(shape, point, previous));
+      }
+      current.push(point);
+    } else if (current.length > 0) {
+      current.push(boundaryCrossing(shape, current[current.length - 1], point));
+      pieces.push(current);
+      current = [];
+    }
+  });
+
+  if (current.length > 0) {
+    pieces.push(current);
+  }
+
+  return pieces.filter((piece) => piece.length >= 2);
+}
+
+/**
+ * A preset shape filling the canvas inside `margin`
+ */
+export function presetShape(
+  preset: ShapePreset,
+  width: number,
+  height: number,
+  margin = 0,
+  cornerRadius?: number
+): Shape {
+  const center = { x: width / 2, y: height / 2 };
+  const innerWidth = width - 2 * margin;
+  const innerHeight = height - 2 * margin;
+
+  switch (preset) {
+    case 'circle':
+      return { type: 'circle', center, radius: Math.min(innerWidth, innerHeight) / 2 };
+    case 'ellipse':
+      return { type: 'ellipse', center, radiusX: innerWidth / 2, radiusY: innerHeight / 2 };
+    case 'rounded-rect':
+      return {
+        type: 'rect',
+        x: margin,
+        y: margin,
+        width: innerWidth,
+        height: innerHeight,
+        cornerRadius: cornerRadius ?? Math.min(innerWidth, innerHeight) / 8,
+      };
+  }
+}
+
+/**
+ * Scale and centre a polygon uniformly so it fills the canvas inside `margin`
+ */
+export function fitShape(shape: Shape, width: number, height: number, margin = 0): Shape {
+  if (shape.type !== 'polygon') {
+    return shape;
+  }
+
+  // One pass rather than spreading into Math.min, which overflows the stack on large paths
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const ring of shape.rings) {
+    for (const { x, y } of ring) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  const scale = Math.min(
+    (width - 2 * margin) / (maxX - minX || 1),
+    (height - 2 * margin) / (maxY - minY || 1)
+  );
+  const offsetX = (width - (maxX - minX) * scale) / 2 - minX * scale;
+  const offsetY = (height - (maxY - minY) * scale) / 2 - minY * scale;
+
+  return {
+    type: 'polygon',
+    rings: shape.rings.map((ring) =>
+      ring.map((p) => ({ x: p.x * scale + offsetX, y: p.y * scale + offsetY }))
+    ),
+  };
+}
+
+/**
+ * Parse a shape from JSON, e.g. a CLI config file
+ */
+export function parseShape(json: unknown): Shape {
+  if (!isRecord(json)) {
+    throw new Error('A shape must be an object with a "type"');
+  }
+
+  const number = (key: string): number => {
+    const value = json[key];
+    if (typeof value !== 'number') {
+      throw new Error(`A ${String(json.type)} shape needs a numeric "${key}"`);
+    }
+    return value;
+  };
+  const center = (): Point => {
+    if (!isPoint(json.center)) {
+      throw new Error(`A ${String(json.type)} shape needs a "center" of {x, y}`);
+    }
+    return { x: json.center.x, y: json.center.y };
+  };
+
+  switch (json.type) {
+    case 'circle':
+      return { type: 'circle', center: center(), radius: number('radius') };
+    case 'ellipse':
+      return { type: 'ellipse', center: center(), radiusX: number('radiusX'), radiusY: number('radiusY') };
+    case 'rect':
+      return {
+        type: 'rect',
+        x: number('x'),
+        y: number('y'),
+        width: number('width'),
+        height: number('height'),
+        cornerRadius: typeof json.cornerRadius === 'number' ? json.cornerRadius : undefined,
+      };
+    case 'polygon': {
+      // A single ring may be given as `points`
+      const rings = Array.isArray(json.rings) ? json.rings : [json.points];
+      if (!rings.every((ring) => Array.isArray(ring) && ring.length >= 3 && ring.every(isPoint))) {
+        throw new Error('A polygon needs "rings" (or "points") of at least three {x, y} points');
+      }
+      return {
+        type: 'polygon',
+        rings: (rings as Point[][]).map((ring) => ring.map(({ x, y }) => ({ x, y }))),
+      };
+    }
+    default:
+      throw new Error(`Unknown shape type "${String(json.type)}"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialHash } from './spatial-hash.js';
+
+describe('SpatialHash', () => {
+  it('should find points within the radius', () => {
+    const hash = new SpatialHash(10);
+    hash.insert({ x: 15, y: 15 });
+
+    expect(hash.hasPointWithin(18, 15, 5)).toBe(true);
+    expect(hash.hasPointWithin(25, 15, 5)).toBe(false);
+  });
+
+  it('should search neighbouring cells', () => {
+    const hash = new SpatialHash(10);
+    hash.insert({ x: 9.5, y: 9.5 });
+
+    expect(hash.hasPointWithin(10.5, 10.5, 2)).toBe(true);
+  });
+
+  it('should handle negative coordinates', () => {
+    const hash = new SpatialHash(10);
+    hash.insertAll([{ x: -3, y: -3 }, { x: 50, y: 50 }]);
+
+    expect(hash.hasPointWithin(-1, -1, 3)).toBe(true);
+    expect(hash.hasPointWithin(30, 30, 3)).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import type { Point } from './flow-lines.js';
+
+/**
+ * Uniform grid bucketing points for fast neighbourhood queries
+ */
+export class SpatialHash {
+  readonly cellSize: number;
+
+  private cells = new Map<string, Point[]>();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  private key(col: number, row: number): string {
+    return `${col},${row}`;
+  }
+
+  /**
+   * Add a point to the hash
+   */
+  insert(point: Point): void {
+    const key = this.key(Math.floor(point.x / this.cellSize), Math.floor(point.y / this.cellSize));
+    const bucket = this.cells.get(key);
+
+    if (bucket) {
+      bucket.push(point);
+    } else {
+      this.cells.set(key, [point]);
+    }
+  }
+
+  /**
+   * Add every point of a polyline to the hash
+   */
+  insertAll(points: Point[]): void {
+    for (const point of points) {
+      this.insert(point);
+    }
+  }
+
+  /**
+   * Check whether any stored point lies within `radius` of (x, y)
+   */
+  hasPointWithin(x: number, y: number, radius: number): boolean {
+    const radiusSq = radius * radius;
+    const minCol = Math.floor((x - radius) / this.cellSize);
+    const maxCol = Math.floor((x + radius) / this.cellSize);
+    const minRow = Math.floor((y - radius) / this.cellSize);
+    const maxRow = Math.floor((y + radius) / this.cellSize);
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const bucket = this.cells.get(this.key(col, row));
+        if (!bucket) continue;
+
+        for (const point of bucket) {
+          const dx = point.x - x;
+          const dy = point.y - y;
+          if (dx * dx + dy * dy < radiusSq) {
+            return true;
+          }
+        }
+      }
+    }
+
+    return false;
+  }
+}
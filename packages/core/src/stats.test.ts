@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { plotStats, layeredPlotStats, formatDuration } from './stats.js';
+import type { FlowLinesResult } from './flow-lines.js';
+
+// 96 px is an inch, 25.4mm
+const inch = 96;
+const result: FlowLinesResult = {
+  width: 400,
+  height: 400,
+  seed: 1,
+  lines: [
+    { points: [{ x: inch, y: 0 }, { x: 2 * inch, y: 0 }] },
+    // Continues where the first line ended, so the pen stays down
+    { points: [{ x: 2 * inch, y: 0 }, { x: 2 * inch, y: inch }, { x: 2 * inch, y: 2 * inch }] },
+    { points: [{ x: 0, y: 2 * inch }] },
+    { points: [{ x: 0, y: 2 * inch }, { x: 0, y: 3 * inch }] },
+  ],
+};
+
+describe('plotStats', () => {
+  it('should count and measure the drawn paths', () => {
+    const stats = plotStats(result, { optimizePaths: false });
+
+    expect(stats.paths).toBe(3);
+    expect(stats.points).toBe(7);
+    expect(stats.penLifts).toBe(2);
+    expect(stats.penChanges).toBe(0);
+    expect(stats.penDownLength).toBeCloseTo(4 * 25.4);
+    expect(stats.penUpDistance).toBeCloseTo(3 * 25.4);
+    expect(stats.bounds?.minX).toBe(0);
+    expect(stats.bounds?.minY).toBe(0);
+    expect(stats.bounds?.maxX).toBeCloseTo(50.8);
+    expect(stats.bounds?.maxY).toBeCloseTo(76.2);
+  });
+
+  it('should count the points sent after simplifying', () => {
+    const stats = plotStats(result);
+
+    // The straight three-point line is sent as two points
+    expect(stats.points).toBe(6);
+    expect(stats.penDownLength).toBeCloseTo(4 * 25.4);
+  });
+
+  it('should estimate the time at constant speed', () => {
+    const { duration } = plotStats(result, { drawSpeed: 25.4, travelSpeed: 50.8, penLiftTime: 1 });
+
+    // 4s drawing, 1.5s travelling, 2 lifts
+    expect(duration).toBeCloseTo(7.5);
+  });
+
+  it('should add time to speed up and slow down', () => {
+    const speeds = { drawSpeed: 25.4, travelSpeed: 50.8, penLiftTime: 0 };
+    const steady = plotStats(result, speeds).duration;
+
+    expect(plotStats(result, { ...speeds, acceleration: 1e6 }).duration).toBeCloseTo(steady, 3);
+    expect(plotStats(result, { ...speeds, acceleration: 100 }).duration).toBeGreaterThan(steady);
+  });
+
+  it('should return home and change pens between layers', () => {
+    const [first, second, , third] = result.lines;
+    const layers = [
+      { pen: { color: 'black' }, lines: [first, second] },
+      { pen: { color: 'red' }, lines: [third] },
+    ];
+    const speeds = { drawSpeed: 25.4, travelSpeed: 50.8, penLiftTime: 1, penChangeTime: 10 };
+    const stats = layeredPlotStats(layers, speeds);
+
+    expect(stats.penChanges).toBe(1);
+    expect(stats.penLifts).toBe(2);
+    // 1in out, 2.83in home from (2, 2) and 2in out to the third line
+    expect(stats.penUpDistance).toBeCloseTo((3 + 2 * Math.SQRT2) * 25.4);
+    // 4s drawing, the travel at 2in/s, 2 lifts and a pen change
+    expect(stats.duration).toBeCloseTo(4 + (3 + 2 * Math.SQRT2) / 2 + 2 + 10);
+  });
+
+  it('should lower the pen for a layer starting at home', () => {
+    const stats = layeredPlotStats([
+      { pen: { color: 'black' }, lines: [result.lines[0]] },
+      { pen: { color: 'red' }, lines: [{ points: [{ x: 0, y: 0 }, { x: inch, y: inch }] }] },
+    ]);
+
+    expect(stats.penLifts).toBe(2);
+  });
+
+  it('should describe an empty result', () => {
+    const stats = plotStats({ ...result, lines: [] });
+
+    expect(stats.bounds).toBeNull();
+    expect(stats.duration).toBe(0);
+  });
+});
+
+describe('formatDuration', () => {
+  it('should show the largest units needed', () => {
+    expect(formatDuration(9.4)).toBe('9s');
+    expect(formatDuration(252)).toBe('4m 12s');
+    expect(formatDuration(3725)).toBe('1h 02m 05s');
+  });
+});
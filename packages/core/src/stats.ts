@@ -0,0 +1,175 @@
+import type { FlowLinesResult, FlowLine, Point } from './flow-lines.js';
+import type { PenLayer } from './pens.js';
+import { fromPixels } from './paper.js';
+import { optimizePoints } from './svg.js';
+
+/**
+ * Plotter speeds for the time estimate, in millimetres and seconds
+ */
+export interface PlotSpeeds {
+  /** Pen-down speed in mm/s (default 40) */
+  drawSpeed?: number;
+  /** Pen-up speed in mm/s (default 100) */
+  travelSpeed?: number;
+  /**
+   * Acceleration in mm/s². Each path and each pen-up move then speeds up
+   * from rest and slows to a stop; corners within a path are not slowed
+   * for. Moves run at full speed throughout when unset.
+   */
+  acceleration?: number;
+  /** Seconds to lower and raise the pen once (default 0.15) */
+  penLiftTime?: number;
+  /** Seconds to swap pens between layers (default 30) */
+  penChangeTime?: number;
+}
+
+export interface PlotStatsOptions extends PlotSpeeds {
+  /** Measure the lines simplified as the SVG and plotter writers send them (default true) */
+  optimizePaths?: boolean;
+}
+
+/**
+ * Figures describing how a result plots. Distances are in millimetres at
+ * 96 canvas pixels per inch.
+ */
+export interface PlotStats {
+  /** Lines with at least two points */
+  paths: number;
+  points: number;
+  /** Times the pen is raised: once per path, less any path continuing where the last ended */
+  penLifts: number;
+  /** Swaps between pen layers */
+  penChanges: number;
+  penDownLength: number;
+  /** Pen-up travel between paths, starting from 0,0 and returning there for pen changes */
+  penUpDistance: number;
+  /** Extent of the drawn points, or null when nothing is drawn */
+  bounds: { minX: number; minY: number; maxX: number; maxY: number } | null;
+  /** Estimated seconds to plot, in the result's line order */
+  duration: number;
+}
+
+/**
+ * Measure a result as it would be plotted, in its line order
+ */
+export function plotStats(result: FlowLinesResult, options: PlotStatsOptions = {}): PlotStats {
+  return measurePlot([result.lines], options);
+}
+
+/**
+ * Measure pen layers as they would be plotted one after another. Each
+ * pen change happens at 0,0, where the next layer starts from.
+ */
+export function layeredPlotStats(layers: PenLayer[], options: PlotStatsOptions = {}): PlotStats {
+  return measurePlot(layers.map((layer) => layer.lines), options);
+}
+
+function measurePlot(groups: FlowLine[][], options: PlotStatsOptions): PlotStats {
+  const {
+    drawSpeed = 40,
+    travelSpeed = 100,
+    acceleration,
+    penLiftTime = 0.15,
+    penChangeTime = 30,
+    optimizePaths = true,
+  } = options;
+  const mm = (pixels: number) => fromPixels(pixels, 'mm');
+  const moveTime = (distance: number, speed: number) => {
+    if (acceleration === undefined || acceleration <= 0) {
+      return distance / speed;
+    }
+    // Trapezoidal profile, or triangular when the move is too short to reach full speed
+    const ramp = (speed * speed) / acceleration;
+    return distance >= ramp ? distance / speed + speed / acceleration : 2 * Math.sqrt(distance / acceleration);
+  };
+
+  const stats: PlotStats = {
+    paths: 0,
+    points: 0,
+    penLifts: 0,
+    penChanges: 0,
+    penDownLength: 0,
+    penUpDistance: 0,
+    bounds: null,
+    duration: 0,
+  };
+  const home: Point = { x: 0, y: 0 };
+  let position = home;
+  // Whether the next path needs the pen lowered even if it starts where the last ended
+  let raised = true;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  const travelTo = (point: Point) => {
+    const travel = mm(distance(position, point));
+    stats.penUpDistance += travel;
+    stats.duration += moveTime(travel, travelSpeed);
+  };
+
+  groups.forEach((lines, index) => {
+    if (index > 0) {
+      travelTo(home);
+      stats.penChanges++;
+      stats.duration += penChangeTime;
+      position = home;
+      raised = true;
+    }
+
+    for (const line of lines) {
+      const points = optimizePaths ? optimizePoints(line.points, 0.5) : line.points;
+      if (points.length < 2) continue;
+
+      if (raised || distance(position, points[0]) > 0) {
+        travelTo(points[0]);
+        stats.penLifts++;
+        stats.duration += penLiftTime;
+      }
+
+      let length = 0;
+      for (let i = 0; i < points.length; i++) {
+        const { x, y } = points[i];
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+        if (i > 0) {
+          length += mm(distance(points[i - 1], points[i]));
+        }
+      }
+
+      stats.paths++;
+      stats.points += points.length;
+      stats.penDownLength += length;
+      stats.duration += moveTime(length, drawSpeed);
+      position = points[points.length - 1];
+      raised = false;
+    }
+  });
+
+  if (stats.paths > 0) {
+    stats.bounds = { minX: mm(minX), minY: mm(minY), maxX: mm(maxX), maxY: mm(maxY) };
+  }
+
+  return stats;
+}
+
+/**
+ * Format seconds as e.g. "1h 02m 05s", "4m 12s" or "9s"
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  if (h > 0) return `${h}h ${pad(m)}m ${pad(s)}s`;
+  if (m > 0) return `${m}m ${pad(s)}s`;
+  return `${s}s`;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { styleLines, parseHexColor } from './styling.js';
+import type { FlowLine } from './flow-lines.js';
+
+const line = (length: number): FlowLine => ({
+  points: [],
+  metadata: { seedIndex: 0, startAngle: 0, length, curvature: 0, noise: 0 },
+});
+const lines = [line(0), line(50), line(100)];
+
+describe('styleLines', () => {
+  it('should blend gradient stops across the attribute range', () => {
+    const styles = styleLines(lines, {
+      color: { attribute: 'length', colors: ['#000000', '#ffffff'], mode: 'gradient' },
+    });
+
+    expect(styles.map((style) => style.stroke)).toEqual(['#000000', '#808080', '#ffffff']);
+  });
+
+  it('should pick palette colors by band', () => {
+    const styles = styleLines(lines, { color: { attribute: 'length', colors: ['red', 'blue'] } });
+
+    expect(styles.map((style) => style.stroke)).toEqual(['red', 'blue', 'blue']);
+  });
+
+  it('should map width and opacity over a fixed domain, clamping outside it', () => {
+    const styles = styleLines(lines, {
+      width: { attribute: 'length', range: [1, 3], domain: [0, 50] },
+      opacity: { attribute: 'length', range: [1, 0.2] },
+    });
+
+    expect(styles).toEqual([
+      { strokeWidth: 1, opacity: 1 },
+      { strokeWidth: 3, opacity: 0.6 },
+      { strokeWidth: 3, opacity: 0.2 },
+    ]);
+  });
+
+  it('should leave lines without metadata unstyled', () => {
+    const styles = styleLines([{ points: [] }, ...lines], {
+      color: { attribute: 'length', colors: ['#000', '#fff'], mode: 'gradient' },
+    });
+
+    expect(styles[0]).toEqual({});
+    expect(styles[1].stroke).toBe('#000000');
+  });
+});
+
+describe('parseHexColor', () => {
+  it('should read short and long hex colors', () => {
+    expect(parseHexColor('#f80')).toEqual([255, 136, 0]);
+    expect(parseHexColor('#1A2b3C')).toEqual([26, 43, 60]);
+    expect(() => parseHexColor('red')).toThrow('#rgb or #rrggbb');
+  });
+});
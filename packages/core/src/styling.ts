@@ -0,0 +1,155 @@
+import type { FlowLine } from './flow-lines.js';
+import type { LineMetadata } from './line-metadata.js';
+
+/**
+ * Line metadata a style can be driven by
+ */
+export type LineAttribute = keyof LineMetadata;
+
+export const LINE_ATTRIBUTES: readonly LineAttribute[] = [
+  'seedIndex',
+  'startAngle',
+  'length',
+  'curvature',
+  'noise',
+];
+
+/**
+ * How colors are picked along the attribute range
+ * - palette: the range is cut into one band per color
+ * - gradient: colors are evenly spaced stops blended between
+ */
+export type ColorMode = 'palette' | 'gradient';
+
+export const COLOR_MODES: readonly ColorMode[] = ['palette', 'gradient'];
+
+interface AttributeMapping {
+  attribute: LineAttribute;
+  /**
+   * Attribute values mapped to the start and end of the output. Defaults
+   * to the smallest and largest value across the lines; values outside
+   * are clamped.
+   */
+  domain?: [number, number];
+}
+
+export interface ColorMapping extends AttributeMapping {
+  /** Any CSS colors for a palette; #rgb or #rrggbb for a gradient */
+  colors: string[];
+  mode?: ColorMode;
+}
+
+export interface RangeMapping extends AttributeMapping {
+  /** Output at the start and end of the domain, e.g. stroke widths [0.5, 2] */
+  range: [number, number];
+}
+
+/**
+ * Per-line styling driven by line metadata. Lines without metadata keep
+ * the document's stroke color and width.
+ */
+export interface LineStyles {
+  color?: ColorMapping;
+  width?: RangeMapping;
+  opacity?: RangeMapping;
+}
+
+/**
+ * Style resolved for one line; unset properties use the document's
+ */
+export interface LineStyle {
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+}
+
+/**
+ * Resolve the style of every line, in order
+ */
+export function styleLines(lines: FlowLine[], styles: LineStyles): LineStyle[] {
+  const color = styles.color && normalizer(lines, styles.color);
+  const width = styles.width && normalizer(lines, styles.width);
+  const opacity = styles.opacity && normalizer(lines, styles.opacity);
+  const gradient = styles.color?.mode === 'gradient' ? styles.color.colors.map(parseHexColor) : null;
+
+  return lines.map((line) => {
+    const style: LineStyle = {};
+
+    const c = color?.(line);
+    if (c !== undefined && styles.color && styles.color.colors.length > 0) {
+      const { colors } = styles.color;
+      style.stroke = gradient
+        ? blendColors(gradient, c)
+        : colors[Math.min(colors.length - 1, Math.floor(c * colors.length))];
+    }
+
+    const w = width?.(line);
+    if (w !== undefined && styles.width) {
+      style.strokeWidth = lerp(styles.width.range, w);
+    }
+
+    const o = opacity?.(line);
+    if (o !== undefined && styles.opacity) {
+      style.opacity = lerp(styles.opacity.range, o);
+    }
+
+    return style;
+  });
+}
+
+/**
+ * Map a line's attribute onto 0-1 across the mapping's domain
+ */
+function normalizer(lines: FlowLine[], mapping: AttributeMapping): (line: FlowLine) => number | undefined {
+  const value = (line: FlowLine) => line.metadata?.[mapping.attribute];
+  let domain = mapping.domain;
+
+  if (!domain) {
+    const values = lines.map(value).filter((v): v is number => v !== undefined);
+    domain = [Math.min(...values), Math.max(...values)];
+  }
+
+  const [min, max] = domain;
+  return (line) => {
+    const v = value(line);
+    if (v === undefined) return undefined;
+    return max === min ? 0 : Math.max(0, Math.min(1, (v - min) / (max - min)));
+  };
+}
+
+function lerp([from, to]: [number, number], t: number): number {
+  return Number((from + (to - from) * t).toFixed(3));
+}
+
+/**
+ * Parse #rgb or #rrggbb into channels
+ */
+export function parseHexColor(color: string): [number, number, number] {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) {
+    throw new Error(`Gradient colors must be #rgb or #rrggbb, got "${color}"`);
+  }
+
+  const hex = match[1].length === 3 ? match[1].replace(/./g, (c) => c + c) : match[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Color `t` (0-1) of the way along evenly spaced gradient stops
+ */
+function blendColors(stops: [number, number, number][], t: number): string {
+  if (stops.length === 1) {
+    return toHex(stops[0]);
+  }
+
+  const position = t * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  const f = position - index;
+  const [a, b] = [stops[index], stops[index + 1]];
+
+  return toHex([0, 1, 2].map((i) => a[i] + (b[i] - a[i]) * f) as [number, number, number]);
+}
+
+function toHex(channels: [number, number, number]): string {
+  return `#${channels.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { parseSVGMetadata } from './svg-metadata.js';
+import { toSVG, toAnimatedSVG, toLayeredSVG } from './svg.js';
+import { generateFlowLines, FlowLinesOptions } from './flow-lines.js';
+import { assignPens } from './pens.js';
+import { VERSION } from './version.js';
+
+describe('SVG metadata', () => {
+  const options: FlowLinesOptions = {
+    width: 300,
+    height: 200,
+    lineCount: 20,
+    noiseType: 'worley',
+    clip: { type: 'circle', center: { x: 150, y: 100 }, radius: 80 },
+    seeding: { strategy: 'rings', spacing: 12 },
+  };
+
+  it('should leave SVGs without generation options unchanged', () => {
+    const result = generateFlowLines({ ...options, seed: 7 });
+    expect(toSVG(result)).not.toContain('<metadata>');
+  });
+
+  it('should restore the options, seed and SVG options', () => {
+    const result = generateFlowLines(options);
+    const svg = toSVG(result, { strokeColor: '#336699', unit: 'mm', generationOptions: options });
+    const metadata = parseSVGMetadata(svg);
+
+    expect(metadata.version).toBe(VERSION);
+    expect(metadata.options).toEqual({ ...options, seed: result.seed, algorithmVersion: 1 });
+    expect(metadata.svg).toEqual({ strokeColor: '#336699', unit: 'mm' });
+    expect(metadata.plot).toEqual({});
+    expect(metadata.omitted).toEqual([]);
+  });
+
+  it('should regenerate the same drawing', () => {
+    const result = generateFlowLines(options);
+    const svg = toSVG(result, { generationOptions: options });
+    const { options: restored, svg: svgOptions } = parseSVGMetadata(svg);
+
+    expect(toSVG(generateFlowLines(restored), { ...svgOptions, generationOptions: restored })).toBe(svg);
+  });
+
+  it('should keep animation options', () => {
+    const result = generateFlowLines({ ...options, seed: 3 });
+    const svg = toAnimatedSVG(result, { animation: 'css', duration: 4, generationOptions: options });
+
+    expect(parseSVGMetadata(svg).svg).toEqual({ animation: 'css', duration: 4 });
+  });
+
+  it('should embed settings in layered SVGs', () => {
+    const result = generateFlowLines({ ...options, seed: 3 });
+    const layers = assignPens(result, [{ color: '#ff0000' }, { color: '#0000ff' }], { strategy: 'round-robin' });
+    const svg = toLayeredSVG(result, layers, { generationOptions: options });
+
+    expect(parseSVGMetadata(svg).options.seed).toBe(3);
+  });
+
+  it('should restore the pens and travel options', () => {
+    const result = generateFlowLines({ ...options, seed: 3 });
+    const pens = [{ color: '#ff0000', width: 2 }, { color: '#0000ff' }];
+    const plotSettings = {
+      pens,
+      assignment: { strategy: 'region' as const, axis: 'y' as const },
+      travel: { joinTolerance: 1 },
+      layer: 1,
+    };
+    const layers = assignPens(result, pens, plotSettings.assignment);
+    const svg = toLayeredSVG(result, [layers[1]], { generationOptions: options, plotSettings });
+    const metadata = parseSVGMetadata(svg);
+
+    expect(metadata.plot).toEqual(plotSettings);
+    expect(metadata.svg).toEqual({});
+  });
+
+  it('should list a pen mapping function as not embedded', () => {
+    const result = generateFlowLines({ ...options, seed: 3 });
+    const svg = toSVG(result, {
+      generationOptions: options,
+      plotSettings: { pens: [{ color: '#000000' }], assignment: { strategy: 'mapping', mapping: () => 0 } },
+    });
+    const metadata = parseSVGMetadata(svg);
+
+    expect(metadata.omitted).toEqual(['assignment.mapping']);
+    expect(metadata.plot.assignment).toEqual({ strategy: 'mapping' });
+  });
+
+  it('should list options that cannot be embedded', () => {
+    const image = { width: 1, height: 1, data: new Uint8ClampedArray([0, 0, 0, 255]) };
+    const withImages: FlowLinesOptions = {
+      ...options,
+      densityMap: { image },
+      directionMap: { image, strength: 0.5 },
+      seeding: () => [{ x: 10, y: 10 }],
+    };
+    const svg = toSVG(generateFlowLines(withImages), { generationOptions: withImages });
+    const metadata = parseSVGMetadata(svg);
+
+    expect(metadata.omitted).toEqual(['densityMap', 'directionMap', 'seeding']);
+    expect(metadata.options.densityMap).toBeUndefined();
+    expect(metadata.options.seeding).toBeUndefined();
+  });
+
+  it('should escape markup in option values', () => {
+    const svg = toSVG(generateFlowLines(options), {
+      strokeColor: '</flow-lines> & more',
+      generationOptions: options,
+    });
+
+    expect(parseSVGMetadata(svg).svg.strokeColor).toBe('</flow-lines> & more');
+  });
+
+  it('should read settings from a re-prefixed element', () => {
+    const svg = '<svg><metadata><ns0:flow-lines xmlns:ns0="urn:flow-lines:settings">' +
+      '{&quot;version&quot;:&quot;0.0.9&quot;,&quot;options&quot;:{&quot;width&quot;:10,&quot;height&quot;:10,&quot;lineCount&quot;:1,&quot;seed&quot;:1}}' +
+      '</ns0:flow-lines></metadata></svg>';
+    const metadata = parseSVGMetadata(svg);
+
+    expect(metadata.version).toBe('0.0.9');
+    expect(metadata.options).toEqual({ width: 10, height: 10, lineCount: 1, seed: 1 });
+    expect(metadata.svg).toEqual({});
+    expect(metadata.plot).toEqual({});
+    expect(metadata.omitted).toEqual([]);
+  });
+
+  it('should reject SVGs without usable settings', () => {
+    const wrap = (text: string) => `<svg><metadata><flow-lines>${text}</flow-lines></metadata></svg>`;
+
+    expect(() => parseSVGMetadata('<svg></svg>')).toThrow('no flow-lines settings');
+    expect(() => parseSVGMetadata(wrap('{oops'))).toThrow('not valid JSON');
+    expect(() => parseSVGMetadata(wrap('[]'))).toThrow('need "options"');
+    expect(() => parseSVGMetadata(wrap('{"options":{"width":1,"height":1,"lineCount":1}}'))).toThrow('"seed"');
+  });
+
+  it('should match the package version', () => {
+    const pkg = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf-8'));
+    expect(VERSION).toBe(pkg.version);
+  });
+});
@@ -0,0 +1,131 @@
+import type { FlowLinesOptions } from './flow-lines.js';
+import type { AnimatedSVGOptions } from './svg.js';
+import type { Pen, PenAssignment } from './pens.js';
+import type { TravelOptions } from './travel.js';
+import { isRecord } from './json.js';
+import { VERSION, LATEST_ALGORITHM_VERSION } from './version.js';
+
+/**
+ * How a drawing was plotted from its generated lines
+ */
+export interface PlotSettings {
+  pens?: Pen[];
+  /** How the lines were shared out between `pens` */
+  assignment?: PenAssignment;
+  /** Options the lines were put in drawing order with, when optimized for pen travel */
+  travel?: TravelOptions;
+  /** Index of the only pen layer drawn, as in files written one per pen */
+  layer?: number;
+}
+
+/**
+ * Settings embedded in an SVG, enough to generate the drawing again
+ */
+export interface SVGMetadata {
+  /** Library version that wrote the SVG */
+  version: string;
+  /** Generation options, with the seed and algorithm version the result was drawn with */
+  options: FlowLinesOptions;
+  /** SVG options, including any animation */
+  svg: AnimatedSVGOptions;
+  /** Pens and ordering of the drawing; empty for a single pen in generation order */
+  plot: PlotSettings;
+  /**
+   * Options that could not be embedded, such as images and prebuilt
+   * fields. Without them the drawing regenerates differently.
+   */
+  omitted: string[];
+}
+
+/** Namespace of the element holding the settings */
+const NAMESPACE = 'urn:flow-lines:settings';
+
+/** Options holding images or code, which JSON cannot carry */
+const UNEMBEDDABLE: readonly (keyof FlowLinesOptions)[] = ['field', 'densityMap', 'directionMap'];
+
+/**
+ * The <metadata> block carrying `options`, the SVG options with their
+ * plot settings and the library version, as written by the SVG exporters
+ */
+export function renderSVGMetadata(
+  options: FlowLinesOptions,
+  seed: number,
+  svgOptions: AnimatedSVGOptions
+): string {
+  const omitted: string[] = UNEMBEDDABLE.filter((key) => options[key] !== undefined);
+  const embedded: Record<string, unknown> = {
+    ...options,
+    seed,
+    algorithmVersion: options.algorithmVersion ?? LATEST_ALGORITHM_VERSION,
+  };
+  for (const key of omitted) {
+    delete embedded[key];
+  }
+  if (typeof options.seeding === 'function') {
+    omitted.push('seeding');
+    delete embedded.seeding;
+  }
+
+  const svg = { ...svgOptions };
+  delete svg.generationOptions;
+  delete svg.plotSettings;
+
+  const plot: PlotSettings = { ...svgOptions.plotSettings };
+  if (typeof plot.assignment?.mapping === 'function') {
+    omitted.push('assignment.mapping');
+    plot.assignment = { ...plot.assignment, mapping: undefined };
+  }
+
+  const json = JSON.stringify({ version: VERSION, options: embedded, svg, plot, omitted });
+  const text = json.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  return `  <metadata>\n    <flow-lines xmlns="${NAMESPACE}">${text}</flow-lines>\n  </metadata>\n`;
+}
+
+/**
+ * Read the settings back out of an SVG written with `generationOptions`.
+ * Editors that keep metadata, such as Inkscape, may re-prefix the
+ * element; that is still read.
+ */
+export function parseSVGMetadata(svg: string): SVGMetadata {
+  const match = /<((?:[\w.-]+:)?flow-lines)\b[^>]*>([\s\S]*?)<\/\1\s*>/.exec(svg);
+  if (!match) {
+    throw new Error('The SVG has no flow-lines settings in its metadata');
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(unescapeText(match[2]));
+  } catch {
+    throw new Error('The flow-lines settings in the SVG are not valid JSON');
+  }
+
+  if (!isRecord(json) || !isRecord(json.options)) {
+    throw new Error('The flow-lines settings need "options"');
+  }
+  const { options } = json;
+  for (const key of ['width', 'height', 'lineCount', 'seed']) {
+    if (typeof options[key] !== 'number') {
+      throw new Error(`The flow-lines options need a numeric "${key}"`);
+    }
+  }
+
+  return {
+    version: typeof json.version === 'string' ? json.version : 'unknown',
+    options: options as unknown as FlowLinesOptions,
+    svg: isRecord(json.svg) ? (json.svg as AnimatedSVGOptions) : {},
+    plot: isRecord(json.plot) ? (json.plot as PlotSettings) : {},
+    omitted: Array.isArray(json.omitted) ? json.omitted.filter((key): key is string => typeof key === 'string') : [],
+  };
+}
+
+function unescapeText(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseSVGPath, parseSVGShape } from './svg-path.js';
+import { containsPoint } from './shapes.js';
+
+describe('parseSVGPath', () => {
+  it('should read absolute and relative line commands', () => {
+    expect(parseSVGPath('M10 10 h20 v20 H10 Z')).toEqual([
+      [{ x: 10, y: 10 }, { x: 30, y: 10 }, { x: 30, y: 30 }, { x: 10, y: 30 }],
+    ]);
+    expect(parseSVGPath('m0,0 10,0 0,10z')).toEqual([
+      [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }],
+    ]);
+  });
+
+  it('should split subpaths into rings', () => {
+    const rings = parseSVGPath('M0 0L100 0L100 100L0 100Z M25 25L75 25L75 75L25 75Z');
+
+    expect(rings).toHaveLength(2);
+    expect(rings[1][0]).toEqual({ x: 25, y: 25 });
+  });
+
+  it('should flatten curves through their end points', () => {
+    const [ring] = parseSVGPath('M0 0 C0 10 10 10 10 0 Q5 -5 0 0 Z');
+
+    expect(ring).toContainEqual({ x: 10, y: 0 });
+    expect(ring.length).toBeGreaterThan(16);
+    expect(Math.max(...ring.map((p) => p.y))).toBeCloseTo(7.5, 5);
+  });
+
+  it('should flatten arcs onto their ellipse', () => {
+    const [ring] = parseSVGPath('M0 50 A50 50 0 1 1 100 50 A50 50 0 1 1 0 50 Z');
+
+    for (const p of ring) {
+      expect(Math.hypot(p.x - 50, p.y - 50)).toBeCloseTo(50, 5);
+    }
+    expect(ring.length).toBeGreaterThan(30);
+  });
+
+  it('should reject malformed data', () => {
+    expect(() => parseSVGPath('10 10')).toThrow('start with a command');
+    expect(() => parseSVGPath('M10')).toThrow('Malformed');
+    expect(() => parseSVGPath('M0 0 X5')).toThrow('Unsupported');
+    expect(() => parseSVGPath('M0 0 L10 0 L10 10 Z 5 5')).toThrow('Malformed path data near "5"');
+    expect(() => parseSVGPath('M0 0 A10 10 0 2 1 10 10')).toThrow('Malformed');
+  });
+
+  it('should read arc flags written without separators', () => {
+    expect(parseSVGPath('M0 0A10 10 0 0110 10L0 10Z')).toEqual(parseSVGPath('M0 0 A10 10 0 0 1 10 10 L0 10 Z'));
+  });
+});
+
+describe('parseSVGShape', () => {
+  it('should collect outlines from several elements', () => {
+    const shape = parseSVGShape(`<svg xmlns="http://www.w3.org/2000/svg">
+      <rect x="0" y="0" width="100" height="100"/>
+      <circle cx="50" cy="50" r="20"/>
+      <path d='M200 0 L300 0 L250 80 Z'/>
+    </svg>`);
+
+    expect(containsPoint(shape, 10, 10)).toBe(true);
+    expect(containsPoint(shape, 50, 50)).toBe(false);
+    expect(containsPoint(shape, 250, 20)).toBe(true);
+  });
+
+  it('should reject documents without closed outlines', () => {
+    expect(() => parseSVGShape('<svg><line x1="0" y1="0" x2="1" y2="1"/></svg>')).toThrow('no closed');
+  });
+});
@@ -0,0 +1,284 @@
+import type { Point } from './flow-lines.js';
+import type { Shape } from './shapes.js';
+
+/** Straight segments used for each Bézier curve */
+const CURVE_SEGMENTS = 16;
+
+/** Largest angle, in radians, covered by one segment of a flattened arc */
+const ARC_STEP = Math.PI / 18;
+
+/** A number in path data, matched where the parser stands */
+const NUMBER = /[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/y;
+
+/**
+ * Flatten SVG path data into closed rings of points. Every subpath
+ * becomes a ring; curves and arcs are approximated by straight segments.
+ */
+export function parseSVGPath(d: string): Point[][] {
+  const rings: Point[][] = [];
+  let ring: Point[] = [];
+  let current = { x: 0, y: 0 };
+  let start = current;
+  // Reflected control point for S/T, from the previous curve command
+  let control: Point | null = null;
+  let command = '';
+  let position = 0;
+
+  const closeRing = () => {
+    if (ring.length >= 3) rings.push(ring);
+    ring = [];
+  };
+  const skipSeparators = () => {
+    while (position < d.length && /[\s,]/.test(d[position])) position++;
+  };
+  const malformed = () => {
+    const near = d.slice(position).match(/^\S{1,10}/)?.[0] ?? 'end';
+    return new Error(`Malformed path data near "${near}"`);
+  };
+  const number = (): number => {
+    skipSeparators();
+    NUMBER.lastIndex = position;
+    const match = NUMBER.exec(d);
+    if (!match) throw malformed();
+    position = NUMBER.lastIndex;
+    return Number(match[0]);
+  };
+  // Arc flags are single digits, which minifiers write without separators
+  const flag = (): boolean => {
+    skipSeparators();
+    const digit = d[position];
+    if (digit !== '0' && digit !== '1') throw malformed();
+    position++;
+    return digit === '1';
+  };
+  const point = (relative: boolean): Point => {
+    const x = number();
+    const y = number();
+    return relative ? { x: current.x + x, y: current.y + y } : { x, y };
+  };
+  const lineTo = (p: Point) => {
+    if (ring.length === 0) ring.push(current);
+    ring.push(p);
+    current = p;
+  };
+
+  skipSeparators();
+  while (position < d.length) {
+    const from = position;
+    if (/[a-zA-Z]/.test(d[position])) {
+      command = d[position++];
+    } else if (command === '') {
+      throw new Error('Path data must start with a command');
+    }
+
+    const relative = command === command.toLowerCase();
+    let nextControl: Point | null = null;
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        closeRing();
+        current = start = point(relative);
+        // Further coordinate pairs are implicit line-tos
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        lineTo(point(relative));
+        break;
+      case 'H': {
+        const x = number();
+        lineTo({ x: relative ? current.x + x : x, y: current.y });
+        break;
+      }
+      case 'V': {
+        const y = number();
+        lineTo({ x: current.x, y: relative ? current.y + y : y });
+        break;
+      }
+      case 'C':
+      case 'S': {
+        const from = current;
+        const c1: Point = command.toUpperCase() === 'C' ? point(relative) : reflect(control, from);
+        const c2 = point(relative);
+        const to = point(relative);
+        for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+          lineTo(cubic(from, c1, c2, to, i / CURVE_SEGMENTS));
+        }
+        nextControl = c2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const from = current;
+        const c: Point = command.toUpperCase() === 'Q' ? point(relative) : reflect(control, from);
+        const to = point(relative);
+        for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+          lineTo(quadratic(from, c, to, i / CURVE_SEGMENTS));
+        }
+        nextControl = c;
+        break;
+      }
+      case 'A': {
+        const rx = number();
+        const ry = number();
+        const rotation = number();
+        const largeArc = flag();
+        const sweep = flag();
+        const to = point(relative);
+        for (const p of arc(current, rx, ry, rotation, largeArc, sweep, to)) {
+          lineTo(p);
+        }
+        break;
+      }
+      case 'Z':
+        closeRing();
+        current = start;
+        break;
+      default:
+        throw new Error(`Unsupported path command "${command}"`);
+    }
+
+    control = nextControl;
+    // A command repeated without taking any data, e.g. numbers after Z, would never advance
+    if (position === from) throw malformed();
+    skipSeparators();
+  }
+
+  closeRing();
+  return rings;
+}
+
+/**
+ * Collect the outlines of the path, polygon, rect, circle and ellipse
+ * elements in an SVG document into one even-odd polygon. Transforms
+ * are not applied.
+ */
+export function parseSVGShape(svg: string): Shape {
+  const rings: Point[][] = [];
+  const elements = svg.matchAll(/<(path|polygon|rect|circle|ellipse)\b([^>]*)>/g);
+
+  for (const [, tag, attributeText] of elements) {
+    const attributes: Record<string, string> = {};
+    for (const [, name, double, single] of attributeText.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[name] = double ?? single;
+    }
+    const number = (name: string) => Number(attributes[name] ?? 0);
+
+    switch (tag) {
+      case 'path':
+        rings.push(...parseSVGPath(attributes.d ?? ''));
+        break;
+      case 'polygon':
+        rings.push(...parseSVGPath(`M${attributes.points ?? ''}Z`));
+        break;
+      case 'rect': {
+        const x = number('x');
+        const y = number('y');
+        const w = number('width');
+        const h = number('height');
+        rings.push([{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }]);
+        break;
+      }
+      case 'circle':
+      case 'ellipse': {
+        const rx = tag === 'circle' ? number('r') : number('rx');
+        const ry = tag === 'circle' ? number('r') : number('ry');
+        const steps = Math.round((2 * Math.PI) / ARC_STEP);
+        rings.push(
+          Array.from({ length: steps }, (_, i) => ({
+            x: number('cx') + rx * Math.cos((i / steps) * 2 * Math.PI),
+            y: number('cy') + ry * Math.sin((i / steps) * 2 * Math.PI),
+          }))
+        );
+        break;
+      }
+    }
+  }
+
+  const closed = rings.filter((ring) => ring.length >= 3);
+  if (closed.length === 0) {
+    throw new Error('The SVG has no closed path, polygon, rect, circle or ellipse');
+  }
+
+  return { type: 'polygon', rings: closed };
+}
+
+function reflect(control: Point | null, about: Point): Point {
+  return control ? { x: 2 * about.x - control.x, y: 2 * about.y - control.y } : about;
+}
+
+function cubic(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+  };
+}
+
+function quadratic(p0: Point, p1: Point, p2: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x,
+    y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y,
+  };
+}
+
+/**
+ * Points along an elliptical arc, using the endpoint-to-centre
+ * conversion from the SVG specification
+ */
+function arc(
+  from: Point,
+  rx: number,
+  ry: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point
+): Point[] {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) {
+    return [to];
+  }
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Scale up radii that are too small to reach the end point
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const steps = Math.max(1, Math.ceil(Math.abs(delta) / ARC_STEP));
+  const points: Point[] = [];
+  for (let i = 1; i < steps; i++) {
+    const t = theta + (delta * i) / steps;
+    const x = rx * Math.cos(t);
+    const y = ry * Math.sin(t);
+    points.push({ x: cos * x - sin * y + cx, y: sin * x + cos * y + cy });
+  }
+  points.push(to);
+  return points;
+}
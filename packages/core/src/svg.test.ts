@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { toSVG, parseSVGOptions } from './svg.js';
+import { toSVG, toAnimatedSVG, toLayeredSVG, parseSVGOptions } from './svg.js';
 import { generateFlowLines } from './flow-lines.js';
+import { assignPens } from './pens.js';
 
 describe('toSVG', () => {
   it('should generate valid SVG', () => {
@@ -35,6 +36,22 @@ describe('toSVG', () => {
     expect(svg).toContain('stroke="#ff0000"');
   });
 
+  it('should style each line from its metadata', () => {
+    const result = generateFlowLines({ width: 400, height: 400, lineCount: 20, seed: 42 });
+
+    const svg = toSVG(result, {
+      styles: {
+        color: { attribute: 'length', colors: ['#ff0000', '#0000ff'], mode: 'gradient' },
+        opacity: { attribute: 'seedIndex', range: [0.2, 1] },
+      },
+    });
+
+    expect(svg).toContain('stroke="#ff0000"');
+    expect(svg).toContain('stroke="#0000ff"');
+    expect(svg).toContain('stroke-opacity="1"');
+    expect(svg).not.toContain('stroke="#000000"');
+  });
+
   it('should use custom stroke width', () => {
     const result = generateFlowLines({
       width: 400,
@@ -92,6 +109,66 @@ describe('toSVG', () => {
   });
 });
 
+describe('physical units', () => {
+  it('should size the document in the unit with a matching pixel viewBox', () => {
+    const result = generateFlowLines({ width: 297 * (96 / 25.4), height: 210 * (96 / 25.4), lineCount: 5, seed: 42 });
+
+    const svg = toSVG(result, { unit: 'mm', includeBackground: true });
+
+    expect(svg).toContain('width="297mm" height="210mm" viewBox="0 0 1122.52 793.701"');
+    expect(svg).toContain('<rect width="1122.52" height="793.701"');
+  });
+});
+
+describe('toLayeredSVG', () => {
+  it('should group each pen into an Inkscape layer', () => {
+    const result = generateFlowLines({ width: 400, height: 400, lineCount: 10, seed: 42 });
+    const layers = assignPens(result, [
+      { color: '#ff0000', width: 0.5 },
+      { color: '#0000ff', name: 'Blue "fine"' },
+    ]);
+
+    const svg = toLayeredSVG(result, layers, { strokeWidth: 2 });
+
+    expect(svg).toContain('xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"');
+    expect(svg).toContain('<g inkscape:groupmode="layer" inkscape:label="Pen 1" id="layer1">');
+    expect(svg).toContain('inkscape:label="Blue &quot;fine&quot;" id="layer2"');
+    expect(svg.match(/stroke="#ff0000" stroke-width="0.5"/g)).toHaveLength(layers[0].lines.length);
+    expect(svg.match(/stroke="#0000ff" stroke-width="2"/g)).toHaveLength(layers[1].lines.length);
+    expect(svg.indexOf('#0000ff')).toBeGreaterThan(svg.lastIndexOf('#ff0000'));
+  });
+});
+
+describe('toAnimatedSVG', () => {
+  const result = generateFlowLines({ width: 400, height: 400, lineCount: 5, seed: 42 });
+  const pathCount = (svg: string) => svg.match(/<path /g)?.length ?? 0;
+
+  it('should draw each path with a staggered SMIL animation', () => {
+    const svg = toAnimatedSVG(result, { duration: 3, stagger: 0.5 });
+
+    expect(pathCount(svg)).toBe(pathCount(toSVG(result)));
+    expect(svg).toContain('pathLength="1" stroke-dasharray="1" stroke-dashoffset="1"');
+    expect(svg).toContain('<animate attributeName="stroke-dashoffset" from="1" to="0" begin="0s" dur="3s"');
+    expect(svg).toContain('begin="0.5s"');
+    expect(svg).not.toContain('<style>');
+  });
+
+  it('should draw paths with CSS keyframes', () => {
+    const svg = toAnimatedSVG(result, { animation: 'css', stagger: 0.25 });
+
+    expect(svg).toContain('@keyframes draw');
+    expect(svg).toContain('style="animation-delay:0.25s"');
+    expect(svg).not.toContain('<animate');
+  });
+
+  it('should keep the static styling options', () => {
+    const svg = toAnimatedSVG(result, { strokeColor: '#ff0000', includeBackground: true });
+
+    expect(svg).toContain('stroke="#ff0000"');
+    expect(svg).toContain('<rect');
+  });
+});
+
 describe('parseSVGOptions', () => {
   it('should parse valid options', () => {
     const options = parseSVGOptions({
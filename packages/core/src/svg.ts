@@ -1,4 +1,8 @@
-import { FlowLinesResult, FlowLine, Point } from './flow-lines.js';
+import { FlowLinesResult, FlowLinesOptions, FlowLine, Point } from './flow-lines.js';
+import { styleLines, LineStyles, LineStyle } from './styling.js';
+import type { PenLayer } from './pens.js';
+import { fromPixels, UNITS, type Unit } from './paper.js';
+import { renderSVGMetadata, type PlotSettings } from './svg-metadata.js';
 
 export interface SVGOptions {
   strokeColor?: string;
@@ -7,12 +11,103 @@ export interface SVGOptions {
   includeBackground?: boolean;
   precision?: number;
   optimizePaths?: boolean;
+  /** Color, width or opacity per line, driven by line metadata */
+  styles?: LineStyles;
+  /**
+   * Physical unit of the document's width and height, e.g. "mm" for
+   * width="297mm". The viewBox stays in canvas pixels at 96 per inch, so
+   * the drawing imports at its exact physical size.
+   */
+  unit?: Unit;
+  /**
+   * Options the result was generated with. When given, they are embedded
+   * with these SVG options and the library version in a <metadata>
+   * block, so `parseSVGMetadata` can restore them from the file.
+   */
+  generationOptions?: FlowLinesOptions;
+  /** Pens and travel optimization behind the drawing, embedded with `generationOptions` */
+  plotSettings?: PlotSettings;
+}
+
+/**
+ * How an animated SVG draws its lines
+ * - smil: an <animate> element inside each path
+ * - css: a shared @keyframes rule, with a delay per path
+ */
+export type SVGAnimation = 'smil' | 'css';
+
+export const SVG_ANIMATIONS: readonly SVGAnimation[] = ['smil', 'css'];
+
+export interface AnimatedSVGOptions extends SVGOptions {
+  animation?: SVGAnimation;
+  /** Seconds each line takes to draw (default 2) */
+  duration?: number;
+  /** Seconds between the starts of consecutive lines (default 0.05) */
+  stagger?: number;
 }
 
 /**
  * Convert flow lines result to SVG string
  */
 export function toSVG(result: FlowLinesResult, options: SVGOptions = {}): string {
+  return renderSVG(result, options, (d, attributes) => `  <path d="${d}" ${attributes}/>`);
+}
+
+/**
+ * Convert pen layers to an SVG with one Inkscape layer per pen, each
+ * drawn in its pen's color and width
+ */
+export function toLayeredSVG(
+  result: FlowLinesResult,
+  layers: PenLayer[],
+  options: SVGOptions = {}
+): string {
+  return renderSVG(result, options, (d, attributes) => `  <path d="${d}" ${attributes}/>`, '', layers);
+}
+
+/**
+ * Convert flow lines result to an SVG whose lines draw themselves in
+ * generation order, by animating stroke-dashoffset along each path
+ */
+export function toAnimatedSVG(result: FlowLinesResult, options: AnimatedSVGOptions = {}): string {
+  const { animation = 'smil', duration = 2, stagger = 0.05 } = options;
+  const seconds = (n: number) => `${Number(n.toFixed(3))}s`;
+  const dash = 'pathLength="1" stroke-dasharray="1" stroke-dashoffset="1"';
+
+  if (animation === 'css') {
+    const style = `  <style>path{animation:draw ${seconds(duration)} linear forwards}` +
+      '@keyframes draw{to{stroke-dashoffset:0}}</style>\n';
+    return renderSVG(
+      result,
+      options,
+      (d, attributes, index) =>
+        `  <path d="${d}" ${attributes} ${dash} style="animation-delay:${seconds(index * stagger)}"/>`,
+      style
+    );
+  }
+
+  return renderSVG(
+    result,
+    options,
+    (d, attributes, index) =>
+      `  <path d="${d}" ${attributes} ${dash}>\n` +
+      `    <animate attributeName="stroke-dashoffset" from="1" to="0" begin="${seconds(index * stagger)}" dur="${seconds(duration)}" fill="freeze"/>\n` +
+      '  </path>'
+  );
+}
+
+/**
+ * Shared SVG document around the paths; `renderPath` writes each path
+ * element from its data and presentation attributes. With `layers`, the
+ * paths are grouped into Inkscape layers instead of the result's lines.
+ */
+function renderSVG(
+  result: FlowLinesResult,
+  options: SVGOptions,
+  renderPath: (d: string, attributes: string, index: number) => string,
+  head = '',
+  layers?: PenLayer[]
+): string {
   const {
     strokeColor = '#000000',
     strokeWidth = 1,
@@ -20,29 +115,67 @@ export function toSVG(result: FlowLinesResult, options: SVGOptions = {}): string
     includeBackground = false,
     precision = 2,
     optimizePaths = true,
+    unit = 'px',
   } = options;
+  const size = (n: number) => Number(n.toFixed(3));
+  const [width, height] = [size(result.width), size(result.height)];
+  const physical = (n: number) => (unit === 'px' ? `${size(n)}` : `${size(fromPixels(n, unit))}${unit}`);
 
-  const paths = result.lines
-    .map((line) => lineToPath(line, precision, optimizePaths))
-    .filter((path) => path.length > 0);
+  // Styles are resolved across every line so attribute ranges are shared by all layers
+  const groups = layers ?? [{ lines: result.lines }];
+  const lineStyles = options.styles
+    ? styleLines(groups.flatMap((group) => group.lines), options.styles)
+    : [];
+  let styleIndex = 0;
+  let pathIndex = 0;
 
   const backgroundRect = includeBackground
-    ? `  <rect width="${result.width}" height="${result.height}" fill="${backgroundColor}"/>\n`
+    ? `  <rect width="${width}" height="${height}" fill="${backgroundColor}"/>\n`
     : '';
 
-  const pathElements = paths
-    .map(
-      (d) =>
-        `  <path d="${d}" fill="none" stroke="${strokeColor}" stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round"/>`
-    )
-    .join('\n');
+  const attributes = (style: LineStyle) => {
+    const opacity = style.opacity !== undefined ? ` stroke-opacity="${style.opacity}"` : '';
+    return `fill="none" stroke="${style.stroke ?? strokeColor}" stroke-width="${size(style.strokeWidth ?? strokeWidth)}"${opacity} stroke-linecap="round" stroke-linejoin="round"`;
+  };
+  const groupElements = groups.map((group, layer) => {
+    const pen = layers?.[layer].pen;
+    const pathElements = group.lines
+      .map((line) => {
+        const style = { ...lineStyles[styleIndex++] };
+        if (pen) {
+          style.stroke = pen.color;
+          style.strokeWidth = pen.width ?? style.strokeWidth;
+        }
+        return { d: lineToPath(line, precision, optimizePaths), style };
+      })
+      .filter((path) => path.d.length > 0)
+      .map(({ d, style }) => renderPath(d, attributes(style), pathIndex++))
+      .join('\n');
+
+    if (!pen) {
+      return pathElements;
+    }
+    const label = escapeAttribute(pen.name ?? `Pen ${layer + 1}`);
+    const indented = pathElements.replace(/^(?=.)/gm, '  ');
+    return `  <g inkscape:groupmode="layer" inkscape:label="${label}" id="layer${layer + 1}">\n` +
+      `${indented}${indented ? '\n' : ''}  </g>`;
+  });
+
+  const namespaces = layers ? ' xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"' : '';
+  const metadata = options.generationOptions
+    ? renderSVGMetadata(options.generationOptions, result.seed, options)
+    : '';
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" width="${result.width}" height="${result.height}" viewBox="0 0 ${result.width} ${result.height}">
-${backgroundRect}${pathElements}
+<svg xmlns="http://www.w3.org/2000/svg"${namespaces} width="${physical(result.width)}" height="${physical(result.height)}" viewBox="0 0 ${width} ${height}">
+${metadata}${head}${backgroundRect}${groupElements.join('\n')}
 </svg>`;
 }
 
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
 /**
  * Convert a flow line to an SVG path data string
  */
@@ -82,9 +215,10 @@ function lineToPath(line: FlowLine, precision: number, optimize: boolean): strin
 }
 
 /**
- * Reduce points using Ramer-Douglas-Peucker algorithm
+ * Reduce points using Ramer-Douglas-Peucker algorithm, dropping points
+ * within `epsilon` of the simplified line. Shared by the plotter formats.
  */
-function optimizePoints(points: Point[], epsilon: number): Point[] {
+export function optimizePoints(points: Point[], epsilon: number): Point[] {
   if (points.length < 3) {
     return points;
   }
@@ -150,5 +284,6 @@ export function parseSVGOptions(args: Record<string, unknown>): SVGOptions {
     includeBackground: typeof args.includeBackground === 'boolean' ? args.includeBackground : undefined,
     precision: typeof args.precision === 'number' ? args.precision : undefined,
     optimizePaths: typeof args.optimizePaths === 'boolean' ? args.optimizePaths : undefined,
+    unit: UNITS.includes(args.unit as Unit) ? (args.unit as Unit) : undefined,
   };
 }
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { LineMonitor } from './termination.js';
+import type { Point } from './flow-lines.js';
+
+/**
+ * Feed a path to the forward end of a monitor, returning the first stop
+ * and the index of the point it refused
+ */
+function run(monitor: LineMonitor, points: Point[]) {
+  for (let i = 1; i < points.length; i++) {
+    const reason = monitor.step(0, points[i - 1], points[i]);
+    if (reason) return { reason, at: i };
+  }
+  return null;
+}
+
+const straight = Array.from({ length: 50 }, (_, i) => ({ x: i, y: 0 }));
+
+describe('LineMonitor', () => {
+  it('should let any path through without rules', () => {
+    expect(run(new LineMonitor({}, straight[0]), straight)).toBeNull();
+  });
+
+  it('should stop at the length limit', () => {
+    expect(run(new LineMonitor({ maxLength: 10.5 }, straight[0]), straight)).toEqual({
+      reason: 'max-length',
+      at: 11,
+    });
+  });
+
+  it('should share the length limit between both ends', () => {
+    const monitor = new LineMonitor({ maxLength: 3 }, { x: 0, y: 0 });
+
+    expect(monitor.step(0, { x: 0, y: 0 }, { x: 1, y: 0 })).toBeNull();
+    expect(monitor.step(1, { x: 0, y: 0 }, { x: -1, y: 0 })).toBeNull();
+    expect(monitor.step(0, { x: 1, y: 0 }, { x: 2, y: 0 })).toBeNull();
+    expect(monitor.step(1, { x: -1, y: 0 }, { x: -2, y: 0 })).toBe('max-length');
+  });
+
+  it('should stop at a sharp turn', () => {
+    const corner = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0.1 }, { x: 2, y: 1.1 }];
+
+    expect(run(new LineMonitor({ maxTurnAngle: Math.PI / 4 }, corner[0]), corner)).toEqual({
+      reason: 'turn-angle',
+      at: 3,
+    });
+  });
+
+  it('should stop when the line stops getting anywhere', () => {
+    // Back and forth between two points
+    const jitter = Array.from({ length: 40 }, (_, i) => ({ x: i % 2, y: 0 }));
+
+    expect(run(new LineMonitor({ stagnationDistance: 2, stagnationSteps: 10 }, jitter[0]), jitter))
+      .toEqual({ reason: 'stagnation', at: 10 });
+    expect(run(new LineMonitor({ stagnationDistance: 2, stagnationSteps: 10 }, straight[0]), straight))
+      .toBeNull();
+  });
+
+  it('should stop a line closing in on itself, but not on its recent points', () => {
+    const loop = Array.from({ length: 80 }, (_, i) => ({
+      x: 20 * Math.cos((i / 40) * 2 * Math.PI),
+      y: 20 * Math.sin((i / 40) * 2 * Math.PI),
+    }));
+
+    expect(run(new LineMonitor({ selfIntersectionDistance: 2 }, straight[0]), straight)).toBeNull();
+    expect(run(new LineMonitor({ selfIntersectionDistance: 2 }, loop[0]), loop)?.reason)
+      .toBe('self-intersection');
+  });
+});
@@ -0,0 +1,159 @@
+import type { Point } from './flow-lines.js';
+import { SpatialHash } from './spatial-hash.js';
+
+/**
+ * Why tracing of a line ended
+ * - max-steps: the line used up its step budget
+ * - max-length: the line reached `maxLength`
+ * - bounds: the next step left the canvas inside the margin
+ * - clip: the next step left the clip shape
+ * - obstacle: the next step entered an obstacle
+ * - collision: the next step came too close to another line
+ * - self-intersection: the next step came too close to the line itself
+ * - turn-angle: the next step turned more sharply than `maxTurnAngle`
+ * - stagnation: the line barely moved over the last `stagnationSteps`
+ */
+export type StopReason =
+  | 'max-steps'
+  | 'max-length'
+  | 'bounds'
+  | 'clip'
+  | 'obstacle'
+  | 'collision'
+  | 'self-intersection'
+  | 'turn-angle'
+  | 'stagnation';
+
+export const STOP_REASONS: readonly StopReason[] = [
+  'max-steps',
+  'max-length',
+  'bounds',
+  'clip',
+  'obstacle',
+  'collision',
+  'self-intersection',
+  'turn-angle',
+  'stagnation',
+];
+
+/**
+ * Optional rules ending a line before its step budget runs out
+ */
+export interface TerminationRules {
+  /**
+   * Stop a line coming within this distance of its own earlier points,
+   * e.g. when spiralling into a sink
+   */
+  selfIntersectionDistance?: number;
+  /** Longest line allowed, in canvas units along the line */
+  maxLength?: number;
+  /** Sharpest turn allowed between consecutive steps, in radians */
+  maxTurnAngle?: number;
+  /** Stop a line that moved less than this over the last `stagnationSteps` */
+  stagnationDistance?: number;
+  /** Window for the stagnation rule (default 20) */
+  stagnationSteps?: number;
+  /**
+   * Fraction (0-1) by which each line's `maxSteps` and `maxLength` may be
+   * randomly cut, drawn per line from the seed, to break up uniform lengths
+   */
+  lengthJitter?: number;
+}
+
+/**
+ * One growing end of a line, forward or backward
+ */
+interface End {
+  direction?: Point;
+  /** The last `stagnationSteps` positions, ending at the end itself */
+  recent: Point[];
+  /** Points not yet in the self-intersection hash, with the end's arc length at each */
+  pending: { point: Point; at: number }[];
+  length: number;
+}
+
+/**
+ * Applies the termination rules to one line as its ends grow
+ */
+export class LineMonitor {
+  private rules: TerminationRules;
+  private maxLength: number;
+  private ends: [End, End];
+  private length = 0;
+  private own?: SpatialHash;
+
+  constructor(rules: TerminationRules, start: Point, maxLength = rules.maxLength ?? Infinity) {
+    this.rules = rules;
+    this.maxLength = maxLength;
+    this.ends = [
+      { recent: [start], pending: [{ point: start, at: 0 }], length: 0 },
+      { recent: [start], pending: [], length: 0 },
+    ];
+    if (rules.selfIntersectionDistance !== undefined && rules.selfIntersectionDistance > 0) {
+      this.own = new SpatialHash(rules.selfIntersectionDistance);
+    }
+  }
+
+  /**
+   * Check a step of the forward (0) or backward (1) end from `from` to
+   * `to`, recording it when no rule stops it. `onCanvas` is `to` as
+   * placed on the canvas, which differs from it for wrapped lines.
+   */
+  step(end: 0 | 1, from: Point, to: Point, onCanvas: Point = to): StopReason | null {
+    const state = this.ends[end];
+    const { maxTurnAngle, stagnationDistance, stagnationSteps = 20 } = this.rules;
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const distance = Math.hypot(dx, dy);
+
+    if (this.length + distance > this.maxLength) {
+      return 'max-length';
+    }
+
+    const direction = { x: dx, y: dy };
+    if (maxTurnAngle !== undefined && state.direction && distance > 0) {
+      const { x: px, y: py } = state.direction;
+      const turn = Math.abs(Math.atan2(px * dy - py * dx, px * dx + py * dy));
+      if (turn > maxTurnAngle) {
+        return 'turn-angle';
+      }
+    }
+
+    if (stagnationDistance !== undefined && state.recent.length >= stagnationSteps) {
+      const past = state.recent[0];
+      if (Math.hypot(to.x - past.x, to.y - past.y) < stagnationDistance) {
+        return 'stagnation';
+      }
+    }
+
+    const own = this.own;
+    if (own) {
+      // Points just behind the end are always close, so they join the
+      // hash only once the end is twice the distance further along
+      const lag = 2 * own.cellSize;
+      while (state.pending.length > 0 && state.length + distance - state.pending[0].at > lag) {
+        own.insert(state.pending.shift()!.point);
+      }
+      if (own.hasPointWithin(onCanvas.x, onCanvas.y, own.cellSize)) {
+        return 'self-intersection';
+      }
+    }
+
+    this.length += distance;
+    state.length += distance;
+    if (distance > 0) {
+      state.direction = direction;
+    }
+    if (stagnationDistance !== undefined) {
+      state.recent.push(to);
+      if (state.recent.length > stagnationSteps) {
+        state.recent.shift();
+      }
+    }
+    if (own) {
+      state.pending.push({ point: onCanvas, at: state.length });
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { TimeSliceNoise } from './time-noise.js';
+import { SimplexNoise } from './noise.js';
+
+describe('TimeSliceNoise', () => {
+  it('should slice 3D noise at the given time', () => {
+    const base = new SimplexNoise(42);
+
+    expect(new TimeSliceNoise(base, 0.4).noise2D(1.5, 2.5)).toBe(base.noise3D(1.5, 2.5, 0.4));
+  });
+
+  it('should scale time with each fbm octave', () => {
+    const base = new SimplexNoise(42);
+    const expected = (base.noise3D(1.5, 2.5, 0.4) + 0.5 * base.noise3D(3, 5, 0.8)) / 1.5;
+
+    expect(new TimeSliceNoise(base, 0.4).fbm(1.5, 2.5, 2)).toBeCloseTo(expected, 12);
+  });
+
+  it('should change smoothly over time', () => {
+    const base = new SimplexNoise(42);
+    const a = new TimeSliceNoise(base, 1).fbm(0.3, 0.6);
+    const b = new TimeSliceNoise(base, 1.01).fbm(0.3, 0.6);
+
+    expect(a).not.toBe(b);
+    expect(Math.abs(a - b)).toBeLessThan(0.05);
+  });
+
+  it('should repeat after the loop duration', () => {
+    const base = new SimplexNoise(42);
+    const start = new TimeSliceNoise(base, 0.25, 2).fbm(0.3, 0.6);
+    const later = new TimeSliceNoise(base, 2.25, 2).fbm(0.3, 0.6);
+    const between = new TimeSliceNoise(base, 1.25, 2).fbm(0.3, 0.6);
+
+    expect(later).toBeCloseTo(start, 12);
+    expect(between).not.toBeCloseTo(start, 3);
+  });
+});
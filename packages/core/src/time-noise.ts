@@ -0,0 +1,41 @@
+import { NoiseBase } from './noise-base.js';
+import type { SimplexNoise } from './noise.js';
+
+/**
+ * A 2D slice through 3D simplex noise at a moment in time. With a loop
+ * duration, time instead runs around a circle in 4D noise so the slice
+ * at `time + loopDuration` matches the one at `time`.
+ */
+export class TimeSliceNoise extends NoiseBase {
+  readonly base: SimplexNoise;
+  readonly time: number;
+  readonly loopDuration?: number;
+
+  constructor(base: SimplexNoise, time: number, loopDuration?: number) {
+    super();
+    this.base = base;
+    this.time = time;
+    this.loopDuration = loopDuration;
+  }
+
+  noise2D(x: number, y: number): number {
+    return this.octave(x, y, 1);
+  }
+
+  protected octave(x: number, y: number, frequency: number): number {
+    if (!this.loopDuration) {
+      return this.base.noise3D(x, y, this.time * frequency);
+    }
+
+    // A circle whose circumference is the loop duration, so time moves
+    // through the noise at the same speed as without looping
+    const radius = this.loopDuration / (Math.PI * 2);
+    const angle = (this.time / this.loopDuration) * Math.PI * 2;
+    return this.base.noise4D(
+      x,
+      y,
+      Math.cos(angle) * radius * frequency,
+      Math.sin(angle) * radius * frequency
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { TorusNoise } from './torus-noise.js';
+import { SimplexNoise } from './noise.js';
+
+describe('TorusNoise', () => {
+  const noise = new TorusNoise(new SimplexNoise(42), 3, 2);
+
+  it('should repeat along both axes', () => {
+    expect(noise.noise2D(0.4 + 3, 1.1)).toBeCloseTo(noise.noise2D(0.4, 1.1), 12);
+    expect(noise.noise2D(0.4, 1.1 - 2)).toBeCloseTo(noise.noise2D(0.4, 1.1), 12);
+  });
+
+  it('should repeat for every fbm octave', () => {
+    expect(noise.fbm(0.4 + 3, 1.1 + 2, 4, 0.5, 2.3)).toBeCloseTo(noise.fbm(0.4, 1.1, 4, 0.5, 2.3), 12);
+  });
+
+  it('should vary within a period', () => {
+    expect(noise.noise2D(1.5, 1.1)).not.toBeCloseTo(noise.noise2D(0, 1.1), 3);
+  });
+
+  it('should be deterministic with seed', () => {
+    expect(new TorusNoise(new SimplexNoise(7), 3, 2).noise2D(0.2, 0.3))
+      .toBe(new TorusNoise(new SimplexNoise(7), 3, 2).noise2D(0.2, 0.3));
+  });
+});
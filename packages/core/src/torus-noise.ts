@@ -0,0 +1,40 @@
+import { NoiseBase } from './noise-base.js';
+import type { SimplexNoise } from './noise.js';
+
+/**
+ * 2D noise that repeats every `periodX` along x and `periodY` along y.
+ * Each axis is bent into a circle in 4D simplex noise, so the plane is
+ * sampled on a torus and opposite edges match exactly. The circles'
+ * circumferences equal the periods, which keeps the noise's scale.
+ */
+export class TorusNoise extends NoiseBase {
+  readonly base: SimplexNoise;
+  readonly periodX: number;
+  readonly periodY: number;
+
+  constructor(base: SimplexNoise, periodX: number, periodY: number) {
+    super();
+    this.base = base;
+    this.periodX = periodX;
+    this.periodY = periodY;
+  }
+
+  noise2D(x: number, y: number): number {
+    return this.octave(x, y, 1);
+  }
+
+  // At higher fbm octaves the circles grow with the frequency, so every
+  // octave still repeats over the same canvas period
+  protected octave(x: number, y: number, frequency: number): number {
+    const ax = (x / (this.periodX * frequency)) * Math.PI * 2;
+    const ay = (y / (this.periodY * frequency)) * Math.PI * 2;
+    const rx = (this.periodX * frequency) / (Math.PI * 2);
+    const ry = (this.periodY * frequency) / (Math.PI * 2);
+    return this.base.noise4D(
+      Math.cos(ax) * rx,
+      Math.sin(ax) * rx,
+      Math.cos(ay) * ry,
+      Math.sin(ay) * ry
+    );
+  }
+}
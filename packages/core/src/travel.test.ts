@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { optimizeTravel, optimizeLayers, penUpDistance } from './travel.js';
+import { generateFlowLines, type FlowLine } from './flow-lines.js';
+
+const segment = (x1: number, y1: number, x2: number, y2: number): FlowLine => ({
+  points: [{ x: x1, y: y1 }, { x: x2, y: y2 }],
+});
+
+// Horizontal dashes along a row, listed out of order and alternating direction
+const dashes = [
+  segment(40, 0, 50, 0),
+  segment(30, 0, 20, 0),
+  segment(60, 0, 70, 0),
+  segment(10, 0, 0, 0),
+];
+
+describe('penUpDistance', () => {
+  it('should sum the gaps between lines from the start point', () => {
+    expect(penUpDistance([segment(0, 0, 10, 0), segment(10, 5, 0, 5)])).toBe(5);
+    expect(penUpDistance([segment(0, 0, 10, 0)], { x: 0, y: 10 })).toBe(10);
+  });
+});
+
+describe('optimizeTravel', () => {
+  it('should order and reverse lines into a single sweep', () => {
+    const { lines, before, after } = optimizeTravel(dashes);
+
+    expect(lines.map((line) => line.points[0].x)).toEqual([0, 20, 40, 60]);
+    expect(before).toBe(penUpDistance(dashes));
+    expect(after).toBe(30);
+  });
+
+  it('should keep line directions when reversing is off', () => {
+    const { lines, after } = optimizeTravel(dashes, { reverse: false });
+
+    for (const line of lines) {
+      expect(dashes).toContain(line);
+    }
+    expect(after).toBeLessThan(penUpDistance(dashes));
+  });
+
+  it('should join lines meeting within the tolerance', () => {
+    const withMetadata = dashes.map((line, seedIndex) => ({
+      ...line,
+      metadata: { seedIndex, startAngle: 0, length: 10, curvature: 0, noise: 0 },
+    }));
+    const { lines, after } = optimizeTravel(withMetadata, { joinTolerance: 10 });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].points).toHaveLength(8);
+    expect(lines[0].metadata?.length).toBe(70);
+    expect(after).toBe(0);
+  });
+
+  it('should shorten travel for generated lines and keep every point', () => {
+    const result = generateFlowLines({ width: 400, height: 400, lineCount: 150, seed: 9 });
+    const { lines, before, after } = optimizeTravel(result.lines);
+
+    expect(after).toBeLessThan(before / 2);
+    const count = (all: FlowLine[]) => all.reduce((sum, line) => sum + line.points.length, 0);
+    expect(lines).toHaveLength(result.lines.length);
+    expect(count(lines)).toBe(count(result.lines));
+  });
+});
+
+describe('optimizeLayers', () => {
+  it('should optimize each layer on its own and total the distances', () => {
+    const pen = { color: 'black' };
+    const { layers, before, after } = optimizeLayers([
+      { pen, lines: dashes },
+      { pen, lines: [segment(0, 10, 5, 10)] },
+    ]);
+
+    expect(layers[1].lines).toHaveLength(1);
+    expect(before).toBe(penUpDistance(dashes) + 10);
+    expect(after).toBe(40);
+  });
+});
@@ -0,0 +1,340 @@
+import type { FlowLine, Point } from './flow-lines.js';
+import type { PenLayer } from './pens.js';
+import { measureLine } from './line-metadata.js';
+
+export interface TravelOptions {
+  /** Where the pen starts, e.g. the plotter's home position (default 0,0) */
+  start?: Point;
+  /** Allow drawing a line end to start when that shortens travel (default true) */
+  reverse?: boolean;
+  /**
+   * Join consecutive lines whose ends are at most this far apart into one
+   * path, so the pen stays down across the gap. Joining is off when unset.
+   */
+  joinTolerance?: number;
+  /** Most 2-opt improvement passes over the whole order (default 50) */
+  maxPasses?: number;
+}
+
+/**
+ * Lines in drawing order, with the pen-up distance before and after
+ */
+export interface OptimizedLines {
+  lines: FlowLine[];
+  before: number;
+  after: number;
+}
+
+export interface OptimizedLayers {
+  layers: PenLayer[];
+  before: number;
+  after: number;
+}
+
+/**
+ * A line as drawn: forwards, or from its last point back to its first
+ */
+interface Stroke {
+  line: FlowLine;
+  reversed: boolean;
+}
+
+const ORIGIN: Point = { x: 0, y: 0 };
+
+/** Lines tried as the new first line of a reversed run, per connection */
+const NEIGHBOURS = 10;
+
+/**
+ * Distance travelled with the pen up drawing `lines` in order, starting
+ * from `start`
+ */
+export function penUpDistance(lines: FlowLine[], start: Point = ORIGIN): number {
+  let total = 0;
+  let position = start;
+
+  for (const { points } of lines) {
+    if (points.length === 0) continue;
+    total += distance(position, points[0]);
+    position = points[points.length - 1];
+  }
+
+  return total;
+}
+
+/**
+ * Reorder lines to cut pen-up travel: a nearest-neighbour tour improved by
+ * 2-opt, reversing lines where allowed and optionally joining lines that
+ * end where the next begins
+ */
+export function optimizeTravel(lines: FlowLine[], options: TravelOptions = {}): OptimizedLines {
+  const { start = ORIGIN, reverse = true, joinTolerance, maxPasses = 50 } = options;
+  const drawable = lines.filter((line) => line.points.length > 0);
+
+  const tour = nearestNeighbour(drawable, start, reverse);
+  twoOpt(tour, start, reverse, maxPasses);
+
+  const strokes = tour.map(orient);
+  const optimized = joinTolerance === undefined ? strokes : joinLines(strokes, joinTolerance);
+
+  return {
+    lines: optimized,
+    before: penUpDistance(drawable, start),
+    after: penUpDistance(optimized, start),
+  };
+}
+
+/**
+ * Optimize each pen's lines separately, as each pen is plotted in its own
+ * pass. The distances are totals over all layers.
+ */
+export function optimizeLayers(layers: PenLayer[], options: TravelOptions = {}): OptimizedLayers {
+  let before = 0;
+  let after = 0;
+
+  const optimized = layers.map((layer) => {
+    const result = optimizeTravel(layer.lines, options);
+    before += result.before;
+    after += result.after;
+    return { ...layer, lines: result.lines };
+  });
+
+  return { layers: optimized, before, after };
+}
+
+function nearestNeighbour(lines: FlowLine[], start: Point, reverse: boolean): Stroke[] {
+  const remaining = [...lines];
+  const tour: Stroke[] = [];
+  let position = start;
+
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestReversed = false;
+    let bestDistance = Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const { points } = remaining[i];
+      const toStart = squaredDistance(position, points[0]);
+      if (toStart < bestDistance) {
+        best = i;
+        bestReversed = false;
+        bestDistance = toStart;
+      }
+      if (reverse) {
+        const toEnd = squaredDistance(position, points[points.length - 1]);
+        if (toEnd < bestDistance) {
+          best = i;
+          bestReversed = true;
+          bestDistance = toEnd;
+        }
+      }
+    }
+
+    const stroke = { line: remaining[best], reversed: bestReversed };
+    remaining[best] = remaining[remaining.length - 1];
+    remaining.pop();
+    tour.push(stroke);
+    position = exit(stroke);
+  }
+
+  return tour;
+}
+
+/**
+ * Reverse runs of the tour while that shortens it. Reversing a run also
+ * flips each line in it when lines may be reversed, so only the two
+ * connections at the run's ends change; otherwise the connections inside
+ * the run change as well. Only runs whose new first line lies among the
+ * nearest lines to the connection before are tried, which keeps a pass
+ * close to linear in the number of lines.
+ */
+function twoOpt(tour: Stroke[], start: Point, reverse: boolean, maxPasses: number): void {
+  const n = tour.length;
+  const lines = tour.map((stroke) => stroke.line);
+  const ends = indexEnds(lines);
+  const neighbours = new Map(
+    lines.map((line) => [
+      line,
+      nearestLines(ends, [line.points[0], line.points[line.points.length - 1]], NEIGHBOURS, line),
+    ])
+  );
+  const fromStart = nearestLines(ends, [start], NEIGHBOURS);
+  const position = new Map(tour.map((stroke, i) => [stroke.line, i]));
+  // Without reversing lines, turned[j] - turned[i] is how much the
+  // connections from i to j lengthen when that run is drawn backwards
+  let turned = reverse ? [] : turnedCosts(tour);
+
+  for (let pass = 0, improved = true; improved && pass < maxPasses; pass++) {
+    improved = false;
+
+    for (let i = 0; i < n; i++) {
+      const before = i === 0 ? start : exit(tour[i - 1]);
+      const candidates = (i === 0 ? fromStart : neighbours.get(tour[i - 1].line)!)
+        .map((line) => position.get(line)!)
+        .filter((j) => (reverse ? j >= i : j > i));
+      if (reverse) {
+        candidates.push(i);
+      }
+
+      for (const j of candidates) {
+        const after = j + 1 < n ? entry(tour[j + 1]) : null;
+        const first = reverse ? exit(tour[j]) : entry(tour[j]);
+        const last = reverse ? entry(tour[i]) : exit(tour[i]);
+
+        const inside = reverse ? 0 : turned[j] - turned[i];
+
+        const current = distance(before, entry(tour[i])) + (after ? distance(exit(tour[j]), after) : 0);
+        const swapped = distance(before, first) + (after ? distance(last, after) : 0) + inside;
+
+        if (swapped < current - 1e-9) {
+          reverseRun(tour, i, j, reverse);
+          for (let k = i; k <= j; k++) {
+            position.set(tour[k].line, k);
+          }
+          if (!reverse) {
+            turned = turnedCosts(tour);
+          }
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+}
+
+function turnedCosts(tour: Stroke[]): number[] {
+  const costs = [0];
+  for (let k = 1; k < tour.length; k++) {
+    const backward = distance(exit(tour[k]), entry(tour[k - 1]));
+    const forward = distance(exit(tour[k - 1]), entry(tour[k]));
+    costs.push(costs[k - 1] + backward - forward);
+  }
+  return costs;
+}
+
+/**
+ * Line ends sorted by x, for nearest-line queries
+ */
+interface LineEnd {
+  point: Point;
+  line: FlowLine;
+}
+
+function indexEnds(lines: FlowLine[]): LineEnd[] {
+  return lines
+    .flatMap((line) => [
+      { point: line.points[0], line },
+      { point: line.points[line.points.length - 1], line },
+    ])
+    .sort((a, b) => a.point.x - b.point.x);
+}
+
+/**
+ * The `count` lines, other than `exclude`, with an end nearest any of
+ * `points`, nearest first
+ */
+function nearestLines(ends: LineEnd[], points: Point[], count: number, exclude?: FlowLine): FlowLine[] {
+  const scores = new Map<FlowLine, number>();
+
+  for (const point of points) {
+    // Both ends of a line may be among the nearest, so keeping twice as
+    // many ends guarantees `count` different lines
+    const nearest: number[] = [];
+    const bound = () => (nearest.length < 2 * count ? Infinity : nearest[nearest.length - 1]);
+    const visit = (end: LineEnd) => {
+      if (end.line === exclude) return;
+      const score = squaredDistance(point, end.point);
+      if (score >= bound()) return;
+
+      const k = nearest.findIndex((s) => s > score);
+      nearest.splice(k < 0 ? nearest.length : k, 0, score);
+      nearest.length = Math.min(nearest.length, 2 * count);
+      scores.set(end.line, Math.min(score, scores.get(end.line) ?? Infinity));
+    };
+
+    const middle = lowerBound(ends, point.x);
+    for (let i = middle; i < ends.length && (ends[i].point.x - point.x) ** 2 < bound(); i++) {
+      visit(ends[i]);
+    }
+    for (let i = middle - 1; i >= 0 && (point.x - ends[i].point.x) ** 2 < bound(); i--) {
+      visit(ends[i]);
+    }
+  }
+
+  return [...scores]
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, count)
+    .map(([line]) => line);
+}
+
+/**
+ * Index of the first end at or right of `x`
+ */
+function lowerBound(ends: LineEnd[], x: number): number {
+  let low = 0;
+  let high = ends.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ends[mid].point.x < x) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function reverseRun(tour: Stroke[], i: number, j: number, flip: boolean): void {
+  const run = tour.slice(i, j + 1).reverse();
+  run.forEach((stroke, k) => {
+    tour[i + k] = flip ? { line: stroke.line, reversed: !stroke.reversed } : stroke;
+  });
+}
+
+/**
+ * Merge each line into the one before when its start is within
+ * `tolerance` of that line's end. Merged lines keep the first line's
+ * stop reason and seed metadata, with length and curvature remeasured.
+ */
+function joinLines(lines: FlowLine[], tolerance: number): FlowLine[] {
+  const joined: FlowLine[] = [];
+
+  for (const line of lines) {
+    const previous = joined[joined.length - 1] as FlowLine | undefined;
+    const end = previous?.points[previous.points.length - 1];
+
+    if (!previous || !end || distance(end, line.points[0]) > tolerance) {
+      joined.push(line);
+      continue;
+    }
+
+    const [first, ...rest] = line.points;
+    const points = [...previous.points, ...(first.x === end.x && first.y === end.y ? rest : line.points)];
+    joined[joined.length - 1] = {
+      ...previous,
+      points,
+      ...(previous.metadata && { metadata: { ...previous.metadata, ...measureLine(points) } }),
+    };
+  }
+
+  return joined;
+}
+
+function orient(stroke: Stroke): FlowLine {
+  return stroke.reversed ? { ...stroke.line, points: [...stroke.line.points].reverse() } : stroke.line;
+}
+
+function entry({ line, reversed }: Stroke): Point {
+  return reversed ? line.points[line.points.length - 1] : line.points[0];
+}
+
+function exit({ line, reversed }: Stroke): Point {
+  return reversed ? line.points[0] : line.points[line.points.length - 1];
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function squaredDistance(a: Point, b: Point): number {
+  return (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { ValueNoise } from './value-noise.js';
+
+describe('ValueNoise', () => {
+  it('should create deterministic noise with seed', () => {
+    const noise1 = new ValueNoise(12345);
+    const noise2 = new ValueNoise(12345);
+
+    expect(noise1.noise2D(0.3, 0.7)).toBe(noise2.noise2D(0.3, 0.7));
+  });
+
+  it('should return values in range [-1, 1]', () => {
+    const noise = new ValueNoise(42);
+
+    for (let i = 0; i < 200; i++) {
+      const value = noise.noise2D(i * 0.37, i * 0.71);
+      expect(value).toBeGreaterThanOrEqual(-1);
+      expect(value).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should be continuous across lattice cells', () => {
+    const noise = new ValueNoise(42);
+
+    expect(noise.noise2D(2 - 1e-9, 5.5)).toBeCloseTo(noise.noise2D(2, 5.5), 6);
+  });
+
+  it('should produce different values for different seeds', () => {
+    expect(new ValueNoise(111).noise2D(0.5, 0.5)).not.toBe(new ValueNoise(222).noise2D(0.5, 0.5));
+  });
+});
@@ -0,0 +1,33 @@
+import { NoiseBase, seededPermutation, fade, lerp } from './noise-base.js';
+
+/**
+ * Value noise: random values on the integer lattice, smoothly interpolated
+ */
+export class ValueNoise extends NoiseBase {
+  private perm: number[];
+
+  constructor(seed: number = Math.random() * 65536) {
+    super();
+    this.perm = seededPermutation(seed);
+  }
+
+  private lattice(X: number, Y: number): number {
+    return (this.perm[this.perm[X & 255] + (Y & 255)] / 255) * 2 - 1;
+  }
+
+  /**
+   * 2D value noise
+   */
+  noise2D(x: number, y: number): number {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const u = fade(x - xi);
+    const v = fade(y - yi);
+
+    return lerp(
+      lerp(this.lattice(xi, yi), this.lattice(xi + 1, yi), u),
+      lerp(this.lattice(xi, yi + 1), this.lattice(xi + 1, yi + 1), u),
+      v
+    );
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Version of the library, as in package.json
+ */
+export const VERSION = '0.1.0';
+
+/**
+ * Versions of the generation algorithms: noise, seeding and line tracing.
+ * The same options and seed draw the same lines under a version in every
+ * release. Anything changing what a seed draws ships as a new version,
+ * with the earlier ones kept selectable, so past drawings can be reprinted.
+ */
+export type AlgorithmVersion = 1;
+
+export const ALGORITHM_VERSIONS: readonly AlgorithmVersion[] = [1];
+
+/** Version drawn with when none is given */
+export const LATEST_ALGORITHM_VERSION: AlgorithmVersion = 1;
+
+/**
+ * The algorithm version to draw with, throwing for one this release
+ * doesn't have
+ */
+export function resolveAlgorithmVersion(version: number = LATEST_ALGORITHM_VERSION): AlgorithmVersion {
+  if (!ALGORITHM_VERSIONS.includes(version as AlgorithmVersion)) {
+    throw new Error(`Unknown algorithm version ${version}; this release has ${ALGORITHM_VERSIONS.join(', ')}`);
+  }
+  return version as AlgorithmVersion;
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { WorleyNoise } from './worley-noise.js';
+
+describe('WorleyNoise', () => {
+  it('should create deterministic noise with seed', () => {
+    const noise1 = new WorleyNoise(12345);
+    const noise2 = new WorleyNoise(12345);
+
+    expect(noise1.noise2D(0.3, 0.7)).toBe(noise2.noise2D(0.3, 0.7));
+  });
+
+  it('should order F1 before F2', () => {
+    const noise = new WorleyNoise(42);
+
+    for (let i = 0; i < 50; i++) {
+      const [f1, f2] = noise.distances(i * 0.37, i * 0.71);
+      expect(f1).toBeLessThanOrEqual(f2);
+    }
+  });
+
+  it('should return values in range [-1, 1] for every mode', () => {
+    for (const mode of ['f1', 'f2', 'f2-f1'] as const) {
+      const noise = new WorleyNoise(42, mode);
+
+      for (let i = 0; i < 100; i++) {
+        const value = noise.noise2D(i * 0.37, i * 0.71);
+        expect(value).toBeGreaterThanOrEqual(-1);
+        expect(value).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it('should combine the distances per mode', () => {
+    const [f1, f2] = new WorleyNoise(42).distances(1.3, 2.6);
+
+    expect(new WorleyNoise(42, 'f1').noise2D(1.3, 2.6)).toBeCloseTo(Math.min(1, f1) * 2 - 1);
+    expect(new WorleyNoise(42, 'f2-f1').noise2D(1.3, 2.6)).toBeCloseTo(Math.min(1, f2 - f1) * 2 - 1);
+  });
+});
@@ -0,0 +1,70 @@
+import { NoiseBase, seededPermutation } from './noise-base.js';
+
+/**
+ * Which feature distance Worley noise returns
+ * - f1: distance to the closest feature point (cells)
+ * - f2: distance to the second closest
+ * - f2-f1: their difference, bright along cell borders
+ */
+export type WorleyMode = 'f1' | 'f2' | 'f2-f1';
+
+export const WORLEY_MODES: readonly WorleyMode[] = ['f1', 'f2', 'f2-f1'];
+
+// Typical largest distance for each mode with one feature point per cell
+const MAX_DISTANCE: Record<WorleyMode, number> = {
+  f1: 1,
+  f2: 1.5,
+  'f2-f1': 1,
+};
+
+/**
+ * Worley (cellular) noise with one seeded feature point per lattice cell
+ */
+export class WorleyNoise extends NoiseBase {
+  readonly mode: WorleyMode;
+
+  private perm: number[];
+
+  constructor(seed: number = Math.random() * 65536, mode: WorleyMode = 'f1') {
+    super();
+    this.perm = seededPermutation(seed);
+    this.mode = mode;
+  }
+
+  /**
+   * Distances to the closest and second closest feature points
+   */
+  distances(x: number, y: number): [number, number] {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    let f1 = Infinity;
+    let f2 = Infinity;
+
+    for (let j = yi - 1; j <= yi + 1; j++) {
+      for (let i = xi - 1; i <= xi + 1; i++) {
+        const hash = this.perm[this.perm[i & 255] + (j & 255)];
+        const fx = i + this.perm[hash] / 256;
+        const fy = j + this.perm[hash + 1] / 256;
+        const d = Math.hypot(fx - x, fy - y);
+
+        if (d < f1) {
+          f2 = f1;
+          f1 = d;
+        } else if (d < f2) {
+          f2 = d;
+        }
+      }
+    }
+
+    return [f1, f2];
+  }
+
+  /**
+   * 2D Worley noise, mapped from distance to [-1, 1]
+   */
+  noise2D(x: number, y: number): number {
+    const [f1, f2] = this.distances(x, y);
+    const distance = this.mode === 'f1' ? f1 : this.mode === 'f2' ? f2 : f2 - f1;
+    return Math.min(1, distance / MAX_DISTANCE[this.mode]) * 2 - 1;
+  }
+}
@@ -1,50 +1,172 @@
-import { useState, useCallback, useMemo } from 'react';
-import { generateFlowLines, toSVG, type FlowLinesOptions, type SVGOptions, type Point } from '@flow-lines/core';
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  generateFlowLines,
+  toSVG,
+  toAnimatedSVG,
+  toLayeredSVG,
+  toHPGL,
+  toLayeredHPGL,
+  plotStats,
+  layeredPlotStats,
+  assignPens,
+  optimizeTravel,
+  optimizeLayers,
+  presetShape,
+  paperSize,
+  parseHexColor,
+  parseSVGMetadata,
+  canvasSize,
+  VERSION,
+  LATEST_ALGORITHM_VERSION,
+  PAPER_SIZES,
+  ORIENTATIONS,
+  SHAPE_PRESETS,
+  type FlowLinesOptions,
+  type SVGMetadata,
+  type SVGOptions,
+  type PlotSettings,
+  type Point,
+  type SamplingMode,
+  type SeedingStrategy,
+  type NoiseType,
+  type WorleyMode,
+  type Influence,
+  type Guide,
+  type RasterImage,
+  type DirectionMapMode,
+  type ShapePreset,
+  type LineAttribute,
+  type LineStyles,
+  type PenStrategy,
+  type PaperSize,
+  type Orientation,
+  type AlgorithmVersion,
+} from '@flow-lines/core';
 import { Controls } from './components/Controls';
 import { Preview } from './components/Preview';
 
+export type PaintTool = 'seeds' | 'attractor' | 'repeller' | 'direction';
+
 export interface AppState {
+  /** Canvas size in pixels, set from the paper when one is chosen */
   width: number;
   height: number;
+  paper: PaperSize | 'none';
+  orientation: Orientation;
   lineCount: number;
+  /** Pinned by restoring an SVG, so it redraws as it was saved */
+  algorithmVersion: AlgorithmVersion;
+  seeding: SeedingStrategy;
+  /** 0 derives the spacing from the line count */
+  seedSpacing: number;
   seed: number;
   stepLength: number;
   maxSteps: number;
   margin: number;
+  clipShape: ShapePreset | 'none';
+  splitAtClip: boolean;
   minLineLength: number;
+  separation: number;
+  bidirectional: boolean;
   noiseScale: number;
   octaves: number;
   persistence: number;
   lacunarity: number;
+  noiseType: NoiseType;
+  worleyMode: WorleyMode;
+  evolve: boolean;
+  tileable: boolean;
+  time: number;
+  playing: boolean;
+  warpStrength: number;
+  warpScale: number;
+  warpIterations: number;
+  sampling: SamplingMode;
+  directionMap: RasterImage | null;
+  directionMode: DirectionMapMode;
+  directionStrength: number;
+  densityMap: RasterImage | null;
+  invertDensity: boolean;
   strokeColor: string;
   strokeWidth: number;
+  /** Blend from the stroke color to `gradientColor` along this line attribute */
+  colorBy: LineAttribute | 'none';
+  gradientColor: string;
+  /** Scale stroke widths from half to double along this line attribute */
+  widthBy: LineAttribute | 'none';
+  /** One Inkscape layer per color; empty draws a single unlayered pen */
+  penColors: string[];
+  penStrategy: PenStrategy;
+  /** Reorder and reverse lines in the export to cut pen-up travel */
+  optimizePenTravel: boolean;
   paintMode: boolean;
+  paintTool: PaintTool;
   paintedPoints: Point[];
+  influences: Influence[];
+  guides: Guide[];
+  brushRadius: number;
+  brushStrength: number;
   showDots: boolean;
 }
 
 const defaultState: AppState = {
   width: 600,
   height: 600,
+  paper: 'none',
+  orientation: 'portrait',
   lineCount: 100,
+  algorithmVersion: LATEST_ALGORITHM_VERSION,
+  seeding: 'random',
+  seedSpacing: 0,
   seed: Math.floor(Math.random() * 1000000),
   stepLength: 2,
   maxSteps: 500,
   margin: 20,
+  clipShape: 'none',
+  splitAtClip: false,
   minLineLength: 10,
+  separation: 0,
+  bidirectional: false,
   noiseScale: 0.005,
   octaves: 4,
   persistence: 0.5,
   lacunarity: 2,
+  noiseType: 'simplex',
+  worleyMode: 'f1',
+  evolve: false,
+  tileable: false,
+  time: 0,
+  playing: false,
+  warpStrength: 0,
+  warpScale: 1,
+  warpIterations: 1,
+  sampling: 'nearest',
+  directionMap: null,
+  directionMode: 'contour',
+  directionStrength: 1,
+  densityMap: null,
+  invertDensity: false,
   strokeColor: '#000000',
   strokeWidth: 1,
+  colorBy: 'none',
+  gradientColor: '#3366ff',
+  widthBy: 'none',
+  penColors: [],
+  penStrategy: 'round-robin',
+  optimizePenTravel: false,
   paintMode: false,
+  paintTool: 'seeds',
   paintedPoints: [],
+  influences: [],
+  guides: [],
+  brushRadius: 80,
+  brushStrength: 0.6,
   showDots: true,
 };
 
 export function App() {
   const [state, setState] = useState<AppState>(defaultState);
+  const [restoreNote, setRestoreNote] = useState<string | null>(null);
 
   const updateState = useCallback((updates: Partial<AppState>) => {
     setState((prev) => ({ ...prev, ...updates }));
@@ -69,46 +191,158 @@ export function App() {
     }));
   }, []);
 
-  const svgContent = useMemo(() => {
-    const usePaintedPoints = state.paintMode && state.paintedPoints.length > 0;
-
-    const flowOptions: FlowLinesOptions = {
-      width: state.width,
-      height: state.height,
-      lineCount: usePaintedPoints ? state.paintedPoints.length : state.lineCount,
-      seed: state.seed,
-      stepLength: state.stepLength,
-      maxSteps: state.maxSteps,
-      margin: state.margin,
-      minLineLength: state.minLineLength,
-      noiseScale: state.noiseScale,
-      octaves: state.octaves,
-      persistence: state.persistence,
-      lacunarity: state.lacunarity,
-      ...(usePaintedPoints && { startPoints: state.paintedPoints }),
-    };
+  const clearInfluences = useCallback(() => {
+    updateState({ influences: [] });
+  }, [updateState]);
 
-    const svgOptions: SVGOptions = {
-      strokeColor: state.strokeColor,
-      strokeWidth: state.strokeWidth,
-    };
+  const clearGuides = useCallback(() => {
+    updateState({ guides: [] });
+  }, [updateState]);
+
+  // Start a new influence or guide, depending on the tool, at the brush position
+  const startStroke = useCallback((point: Point) => {
+    setState((prev) => {
+      if (prev.paintTool === 'direction') {
+        const guide: Guide = {
+          points: [point],
+          falloffDistance: prev.brushRadius,
+          strength: prev.brushStrength,
+        };
+        return { ...prev, guides: [...prev.guides, guide] };
+      }
+      if (prev.paintTool === 'seeds') return prev;
+      const influence: Influence = {
+        type: prev.paintTool,
+        points: [point],
+        radius: prev.brushRadius,
+        strength: prev.brushStrength,
+      };
+      return { ...prev, influences: [...prev.influences, influence] };
+    });
+  }, []);
+
+  // Extend the most recent stroke into a polyline as the brush drags
+  const extendStroke = useCallback((point: Point) => {
+    setState((prev) => {
+      if (prev.paintTool === 'direction') {
+        const last = prev.guides[prev.guides.length - 1];
+        if (!last) return prev;
+        const extended = { ...last, points: [...last.points, point] };
+        return { ...prev, guides: [...prev.guides.slice(0, -1), extended] };
+      }
+      const last = prev.influences[prev.influences.length - 1];
+      if (!last) return prev;
+      const extended = { ...last, points: [...last.points, point] };
+      return { ...prev, influences: [...prev.influences.slice(0, -1), extended] };
+    });
+  }, []);
+
+  // Translate an influence so its handle (first point) sits at `point`
+  const moveInfluence = useCallback((index: number, point: Point) => {
+    setState((prev) => {
+      const influence = prev.influences[index];
+      if (!influence) return prev;
+      const dx = point.x - influence.points[0].x;
+      const dy = point.y - influence.points[0].y;
+      const moved = {
+        ...influence,
+        points: influence.points.map((p) => ({ x: p.x + dx, y: p.y + dy })),
+      };
+      return {
+        ...prev,
+        influences: prev.influences.map((existing, i) => (i === index ? moved : existing)),
+      };
+    });
+  }, []);
+
+  const { canEvolve } = fieldModes(state);
+
+  // Advance the field time once per animation frame while playing
+  useEffect(() => {
+    if (!canEvolve || !state.playing) return;
+
+    let frame = requestAnimationFrame(function tick() {
+      setState((prev) => ({ ...prev, time: Number((prev.time + 0.005).toFixed(3)) }));
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [canEvolve, state.playing]);
+
+  const flowOptions = useMemo(() => flowOptionsOf(state), [state]);
+
+  const result = useMemo(() => generateFlowLines(flowOptions), [flowOptions]);
+
+  const { strokeColor, strokeWidth, colorBy, gradientColor, widthBy, paper } = state;
+  const { penColors, penStrategy, optimizePenTravel } = state;
+  const plotSettings = useMemo(
+    () => plotSettingsOf({ penColors, penStrategy, optimizePenTravel }),
+    [penColors, penStrategy, optimizePenTravel]
+  );
+
+  const svgOptions = useMemo(
+    () => svgOptionsOf({ strokeColor, strokeWidth, colorBy, gradientColor, widthBy, paper }, flowOptions, plotSettings),
+    [strokeColor, strokeWidth, colorBy, gradientColor, widthBy, paper, flowOptions, plotSettings]
+  );
+
+  // The lines shared out between any pens and, when optimizing, in drawing order
+  const plot = useMemo(() => {
+    const { pens, assignment, travel: travelOptions } = plotSettings;
+    const layers = pens ? assignPens(result, pens, assignment) : undefined;
+
+    if (!travelOptions) {
+      return { result, layers };
+    }
+    if (layers) {
+      const { layers: ordered, ...travel } = optimizeLayers(layers, travelOptions);
+      return { result: { ...result, lines: ordered.flatMap((layer) => layer.lines) }, layers: ordered, travel };
+    }
+    const { lines, ...travel } = optimizeTravel(result.lines, travelOptions);
+    return { result: { ...result, lines }, travel };
+  }, [result, plotSettings]);
 
-    const result = generateFlowLines(flowOptions);
-    return toSVG(result, svgOptions);
-  }, [state]);
+  const stats = useMemo(() => (plot.layers ? layeredPlotStats(plot.layers) : plotStats(plot.result)), [plot]);
+
+  const svgContent = useMemo(
+    () => (plot.layers ? toLayeredSVG(plot.result, plot.layers, svgOptions) : toSVG(plot.result, svgOptions)),
+    [plot, svgOptions]
+  );
 
   const downloadSVG = useCallback(() => {
-    const blob = new Blob([svgContent], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `flow-lines-${state.seed}.svg`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    download(svgContent, `flow-lines-${state.seed}.svg`);
   }, [svgContent, state.seed]);
 
+  const downloadAnimatedSVG = useCallback(() => {
+    download(toAnimatedSVG(plot.result, svgOptions), `flow-lines-${state.seed}-drawing.svg`);
+  }, [plot, svgOptions, state.seed]);
+
+  const downloadHPGL = useCallback(() => {
+    const hpgl = plot.layers ? toLayeredHPGL(plot.result, plot.layers) : toHPGL(plot.result);
+    download(hpgl, `flow-lines-${state.seed}.hpgl`, 'application/vnd.hp-hpgl');
+  }, [plot, state.seed]);
+
+  // Restore the settings embedded in an SVG exported from here or the CLI
+  const openSVG = useCallback((svg: string) => {
+    try {
+      const metadata = parseSVGMetadata(svg);
+      const restored = restoredState(metadata);
+      // Restored states set every setting the drawing depends on
+      const next = { ...defaultState, ...restored };
+      // Embedded settings are unchecked and a throw while rendering blanks the page, so draw them once here
+      generateFlowLines(flowOptionsOf(next));
+      setState((prev) => ({ ...prev, ...restored }));
+
+      const dropped = droppedSettings(metadata, next);
+      const notes = [
+        metadata.version !== VERSION && `Saved by version ${metadata.version}, so the drawing may differ.`,
+        metadata.omitted.length > 0 && `Not saved in the SVG: ${metadata.omitted.join(', ')}.`,
+        dropped.length > 0 && `Not restored here: ${dropped.join(', ')}.`,
+      ].filter(Boolean);
+      setRestoreNote(notes.length > 0 ? notes.join(' ') : null);
+    } catch (e) {
+      setRestoreNote(`Could not restore settings: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, []);
+
   return (
     <div className="app">
       <aside className="sidebar">
@@ -117,11 +351,19 @@ export function App() {
 
         <Controls
           state={state}
+          travel={plot.travel}
+          stats={stats}
           updateState={updateState}
           randomizeSeed={randomizeSeed}
           downloadSVG={downloadSVG}
+          downloadAnimatedSVG={downloadAnimatedSVG}
+          downloadHPGL={downloadHPGL}
+          openSVG={openSVG}
+          restoreNote={restoreNote}
           togglePaintMode={togglePaintMode}
           clearPaintedPoints={clearPaintedPoints}
+          clearInfluences={clearInfluences}
+          clearGuides={clearGuides}
         />
       </aside>
 
@@ -131,11 +373,325 @@ export function App() {
           width={state.width}
           height={state.height}
           paintMode={state.paintMode}
+          paintTool={state.paintTool}
           paintedPoints={state.paintedPoints}
+          influences={state.influences}
+          guides={state.guides}
           showDots={state.showDots}
           onPaint={addPaintedPoint}
+          onStrokeStart={startStroke}
+          onStrokeExtend={extendStroke}
+          onMoveInfluence={moveInfluence}
         />
       </main>
     </div>
   );
 }
+
+function isHexColor(color: string): boolean {
+  try {
+    parseHexColor(color);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether the field evolves in time or tiles. Only simplex noise, and curl
+ * noise over it, can do either.
+ */
+function fieldModes({ noiseType, evolve, tileable }: AppState): { canEvolve: boolean; canTile: boolean } {
+  const hasExtraDimensions = noiseType === 'simplex' || noiseType === 'curl';
+  const canEvolve = evolve && hasExtraDimensions;
+  return { canEvolve, canTile: tileable && hasExtraDimensions && !canEvolve };
+}
+
+/**
+ * The generation options the app state draws with
+ */
+function flowOptionsOf(state: AppState): FlowLinesOptions {
+  const { canEvolve, canTile } = fieldModes(state);
+  const usePaintedPoints = state.paintMode && state.paintedPoints.length > 0;
+
+  return {
+    width: state.width,
+    height: state.height,
+    lineCount: usePaintedPoints ? state.paintedPoints.length : state.lineCount,
+    seed: state.seed,
+    algorithmVersion: state.algorithmVersion,
+    stepLength: state.stepLength,
+    maxSteps: state.maxSteps,
+    margin: state.margin,
+    ...(state.clipShape !== 'none' && {
+      clip: presetShape(state.clipShape, state.width, state.height, state.margin),
+      clipMode: state.splitAtClip ? 'split' : 'stop',
+    }),
+    minLineLength: state.minLineLength,
+    separation: state.separation > 0 ? state.separation : undefined,
+    bidirectional: state.bidirectional,
+    influences: state.influences,
+    guides: state.guides,
+    ...(state.directionMap && {
+      directionMap: {
+        image: state.directionMap,
+        mode: state.directionMode,
+        strength: state.directionStrength,
+      },
+    }),
+    ...(state.densityMap && {
+      densityMap: { image: state.densityMap, invert: state.invertDensity },
+    }),
+    noiseScale: state.noiseScale,
+    octaves: state.octaves,
+    persistence: state.persistence,
+    lacunarity: state.lacunarity,
+    noiseType: state.noiseType,
+    worleyMode: state.worleyMode,
+    ...(canEvolve && { time: state.time }),
+    ...(canTile && { tileable: true }),
+    ...(state.warpStrength > 0 && {
+      warp: {
+        strength: state.warpStrength,
+        scale: state.warpScale,
+        iterations: state.warpIterations,
+      },
+    }),
+    sampling: state.sampling,
+    seeding: {
+      strategy: state.seeding,
+      spacing: state.seedSpacing > 0 ? state.seedSpacing : undefined,
+    },
+    ...(usePaintedPoints && { startPoints: state.paintedPoints }),
+  };
+}
+
+/**
+ * The SVG options the app state exports with, embedding the settings
+ * behind the drawing
+ */
+function svgOptionsOf(
+  state: Pick<AppState, 'strokeColor' | 'strokeWidth' | 'colorBy' | 'gradientColor' | 'widthBy' | 'paper'>,
+  generationOptions: FlowLinesOptions,
+  plotSettings: PlotSettings
+): SVGOptions {
+  const styles: LineStyles = {};
+  // Gradients need hex colors; skip coloring while one is half typed
+  if (state.colorBy !== 'none' && isHexColor(state.strokeColor) && isHexColor(state.gradientColor)) {
+    styles.color = {
+      attribute: state.colorBy,
+      colors: [state.strokeColor, state.gradientColor],
+      mode: 'gradient',
+    };
+  }
+  if (state.widthBy !== 'none') {
+    styles.width = {
+      attribute: state.widthBy,
+      range: [state.strokeWidth / 2, state.strokeWidth * 2],
+    };
+  }
+  return {
+    strokeColor: state.strokeColor,
+    strokeWidth: state.strokeWidth,
+    styles,
+    unit: state.paper === 'none' ? undefined : paperSize(state.paper).unit,
+    generationOptions,
+    plotSettings,
+  };
+}
+
+/**
+ * The pens and travel optimization the app state plots with
+ */
+function plotSettingsOf(state: Pick<AppState, 'penColors' | 'penStrategy' | 'optimizePenTravel'>): PlotSettings {
+  return {
+    ...(state.penColors.length > 0 && {
+      pens: state.penColors.map((color) => ({ color })),
+      assignment: { strategy: state.penStrategy },
+    }),
+    ...(state.optimizePenTravel && { travel: {} }),
+  };
+}
+
+/**
+ * The app state drawing the settings embedded in an SVG. Settings without
+ * a control here are dropped and images are cleared.
+ */
+function restoredState({ options, svg, plot }: SVGMetadata): Partial<AppState> {
+  const { width, height, margin = defaultState.margin } = options;
+  const unit = svg.unit ?? 'px';
+  const paper = PAPER_SIZES.flatMap((size) => ORIENTATIONS.map((orientation) => ({ size, orientation }))).find(
+    ({ size, orientation }) => {
+      const canvas = canvasSize(paperSize(size, orientation));
+      return unit !== 'px' && Math.abs(canvas.width - width) < 0.01 && Math.abs(canvas.height - height) < 0.01;
+    }
+  );
+  // Clip shapes are stored resolved; match them back to the preset drawing them
+  const clip = JSON.stringify(options.clip);
+  const clipShape = SHAPE_PRESETS.find(
+    (preset) => clip === JSON.stringify(presetShape(preset, width, height, margin))
+  );
+  const seeding = typeof options.seeding === 'object' ? options.seeding : undefined;
+  const { color, width: widthBy } = svg.styles ?? {};
+
+  return {
+    width,
+    height,
+    paper: paper?.size ?? 'none',
+    orientation: paper?.orientation ?? defaultState.orientation,
+    lineCount: options.lineCount,
+    algorithmVersion: options.algorithmVersion ?? LATEST_ALGORITHM_VERSION,
+    // Polyline seeding has no control here for its points
+    seeding: seeding && seeding.strategy !== 'polyline' ? seeding.strategy : defaultState.seeding,
+    seedSpacing: seeding?.spacing ?? 0,
+    seed: options.seed ?? defaultState.seed,
+    stepLength: options.stepLength ?? defaultState.stepLength,
+    maxSteps: options.maxSteps ?? defaultState.maxSteps,
+    margin,
+    clipShape: clipShape ?? 'none',
+    splitAtClip: options.clipMode === 'split',
+    minLineLength: options.minLineLength ?? defaultState.minLineLength,
+    separation: options.separation ?? 0,
+    bidirectional: options.bidirectional ?? false,
+    noiseScale: options.noiseScale ?? defaultState.noiseScale,
+    octaves: options.octaves ?? defaultState.octaves,
+    persistence: options.persistence ?? defaultState.persistence,
+    lacunarity: options.lacunarity ?? defaultState.lacunarity,
+    noiseType: options.noiseType ?? defaultState.noiseType,
+    worleyMode: options.worleyMode ?? defaultState.worleyMode,
+    evolve: options.time !== undefined,
+    time: options.time ?? 0,
+    playing: false,
+    tileable: options.tileable ?? false,
+    warpStrength: options.warp ? options.warp.strength ?? 1 : 0,
+    warpScale: options.warp?.scale ?? defaultState.warpScale,
+    warpIterations: options.warp?.iterations ?? defaultState.warpIterations,
+    sampling: options.sampling ?? defaultState.sampling,
+    directionMap: null,
+    densityMap: null,
+    strokeColor: svg.strokeColor ?? defaultState.strokeColor,
+    strokeWidth: svg.strokeWidth ?? defaultState.strokeWidth,
+    colorBy: color?.mode === 'gradient' ? color.attribute : 'none',
+    gradientColor: color?.mode === 'gradient' ? color.colors[color.colors.length - 1] : defaultState.gradientColor,
+    widthBy: widthBy?.attribute ?? 'none',
+    penColors: plot.pens?.map((pen) => pen.color) ?? [],
+    // Pen mappings have no control here
+    penStrategy:
+      plot.assignment && plot.assignment.strategy !== 'mapping' ? plot.assignment.strategy : defaultState.penStrategy,
+    optimizePenTravel: plot.travel !== undefined,
+    paintMode: options.startPoints !== undefined,
+    paintedPoints: options.startPoints ?? [],
+    influences: options.influences ?? [],
+    guides: options.guides ?? [],
+  };
+}
+
+// Core defaults, filled in before comparing so unset and default values match
+const OPTION_DEFAULTS: Partial<Record<keyof FlowLinesOptions, unknown>> = {
+  algorithmVersion: LATEST_ALGORITHM_VERSION,
+  stepLength: 2,
+  maxSteps: 500,
+  margin: 20,
+  minLineLength: 10,
+  fieldResolution: 10,
+  separation: 0,
+  testDistance: 0.5,
+  bidirectional: false,
+  integrator: 'euler',
+  tolerance: 0.05,
+  tileable: false,
+  clipMode: 'stop',
+  lengthJitter: 0,
+  noiseScale: 0.005,
+  octaves: 4,
+  persistence: 0.5,
+  lacunarity: 2,
+  noiseType: 'simplex',
+  worleyMode: 'f1',
+  curlBase: 'simplex',
+  sampling: 'nearest',
+  influences: [],
+  guides: [],
+  obstacles: [],
+};
+
+const SVG_DEFAULTS: Partial<Record<keyof SVGOptions, unknown>> = {
+  strokeColor: '#000000',
+  strokeWidth: 1,
+  backgroundColor: '#ffffff',
+  includeBackground: false,
+  precision: 2,
+  optimizePaths: true,
+  unit: 'px',
+};
+
+/**
+ * Embedded settings the restored app state draws differently, such as
+ * ones without a control here. Styles are listed per style.
+ */
+function droppedSettings({ options, svg, plot }: SVGMetadata, restored: AppState): string[] {
+  const { styles = {}, ...svgRest } = svg;
+  const generationOptions = flowOptionsOf(restored);
+  const plotSettings = plotSettingsOf(restored);
+  const { styles: restoredStyles = {}, ...restoredSVG } = svgOptionsOf(restored, generationOptions, plotSettings);
+  delete restoredSVG.generationOptions;
+  delete restoredSVG.plotSettings;
+
+  return [
+    ...changedKeys(normalizedOptions(options), normalizedOptions(generationOptions), OPTION_DEFAULTS),
+    ...changedKeys(svgRest, restoredSVG, SVG_DEFAULTS),
+    ...changedKeys(styles, restoredStyles, {}).map((key) => `styles.${key}`),
+    ...changedKeys(normalizedPlot(plot), normalizedPlot(plotSettings), {}),
+  ];
+}
+
+function normalizedOptions(options: FlowLinesOptions): FlowLinesOptions {
+  const { warp, seeding } = options;
+  return {
+    ...options,
+    wrap: options.wrap ?? options.tileable ?? false,
+    ...(warp && { warp: { strength: 1, scale: 1, iterations: 1, ...warp } }),
+    ...(typeof seeding !== 'function' && { seeding: { jitter: 1, ...(seeding ?? { strategy: 'random' }) } }),
+  };
+}
+
+function normalizedPlot(plot: PlotSettings): PlotSettings {
+  const { assignment, travel } = plot;
+  return {
+    ...plot,
+    ...(plot.pens && { assignment: assignment ?? { strategy: 'round-robin' } }),
+    ...(travel && { travel: { start: { x: 0, y: 0 }, reverse: true, maxPasses: 50, ...travel } }),
+  };
+}
+
+/**
+ * Keys whose values differ between two settings objects, treating a
+ * missing value as its default
+ */
+function changedKeys(saved: object, restored: object, defaults: Record<string, unknown>): string[] {
+  const a = saved as Record<string, unknown>;
+  const b = restored as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+  return keys.filter((key) => canonicalJSON(a[key] ?? defaults[key]) !== canonicalJSON(b[key] ?? defaults[key]));
+}
+
+// JSON with object keys sorted, so equal settings compare equal whatever their key order
+function canonicalJSON(value: unknown): string | undefined {
+  return JSON.stringify(value, (_key, inner: unknown) =>
+    inner && typeof inner === 'object' && !Array.isArray(inner)
+      ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : inner
+  );
+}
+
+function download(content: string, filename: string, type = 'image/svg+xml') {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -1,28 +1,129 @@
-import type { AppState } from '../App';
+import { useRef } from 'react';
+import {
+  SAMPLING_MODES,
+  SEEDING_STRATEGIES,
+  NOISE_TYPES,
+  WORLEY_MODES,
+  DIRECTION_MAP_MODES,
+  SHAPE_PRESETS,
+  LINE_ATTRIBUTES,
+  PEN_STRATEGIES,
+  PAPER_SIZES,
+  ORIENTATIONS,
+  paperSize,
+  canvasSize,
+  fromPixels,
+  formatDuration,
+  type SamplingMode,
+  type SeedingStrategy,
+  type NoiseType,
+  type WorleyMode,
+  type DirectionMapMode,
+  type ShapePreset,
+  type LineAttribute,
+  type PenStrategy,
+  type PaperSize,
+  type Orientation,
+  type PlotStats,
+} from '@flow-lines/core';
+import type { AppState, PaintTool } from '../App';
+import { ImageDrop } from './ImageDrop';
+
+// Mapping needs a pen per line, which there is no control for
+const penStrategies = PEN_STRATEGIES.filter((strategy) => strategy !== 'mapping');
+
+const paintTools: { tool: PaintTool; label: string }[] = [
+  { tool: 'seeds', label: 'Seeds' },
+  { tool: 'attractor', label: 'Attract' },
+  { tool: 'repeller', label: 'Repel' },
+  { tool: 'direction', label: 'Direct' },
+];
 
 interface ControlsProps {
   state: AppState;
+  /** Pen-up distance before and after optimizing, when optimizing */
+  travel?: { before: number; after: number };
+  /** Figures for plotting the drawing as exported */
+  stats: PlotStats;
   updateState: (updates: Partial<AppState>) => void;
   randomizeSeed: () => void;
   downloadSVG: () => void;
+  downloadAnimatedSVG: () => void;
+  downloadHPGL: () => void;
+  /** Restore the settings embedded in an exported SVG */
+  openSVG: (svg: string) => void;
+  /** What restoring the last opened SVG left out, or why it failed */
+  restoreNote: string | null;
   togglePaintMode: () => void;
   clearPaintedPoints: () => void;
+  clearInfluences: () => void;
+  clearGuides: () => void;
 }
 
 export function Controls({
   state,
+  travel,
+  stats,
   updateState,
   randomizeSeed,
   downloadSVG,
+  downloadAnimatedSVG,
+  downloadHPGL,
+  openSVG,
+  restoreNote,
   togglePaintMode,
   clearPaintedPoints,
+  clearInfluences,
+  clearGuides,
 }: ControlsProps) {
+  const svgInputRef = useRef<HTMLInputElement>(null);
+  const paintingSeeds = state.paintTool === 'seeds';
+  const paintingGuides = state.paintTool === 'direction';
+  const paintedCount = paintingSeeds
+    ? state.paintedPoints.length
+    : paintingGuides
+      ? state.guides.length
+      : state.influences.length;
+  const clearPainted = paintingSeeds
+    ? clearPaintedPoints
+    : paintingGuides
+      ? clearGuides
+      : clearInfluences;
+  // Only simplex noise, and curl noise over it, can evolve in time or tile
+  const hasExtraDimensions = state.noiseType === 'simplex' || state.noiseType === 'curl';
+  const hasPaint =
+    state.paintedPoints.length > 0 || state.influences.length > 0 || state.guides.length > 0;
+  const paperUnit = state.paper === 'none' ? null : paperSize(state.paper).unit;
+  // Pixel sizes also shown in the paper's unit, e.g. "20px (5.29mm)"
+  const onPaper = (pixels: number) =>
+    paperUnit ? ` (${Number(fromPixels(pixels, paperUnit).toFixed(2))}${paperUnit})` : '';
+  const setPaper = (paper: PaperSize | 'none', orientation: Orientation) =>
+    updateState({
+      paper,
+      orientation,
+      ...(paper !== 'none' && canvasSize(paperSize(paper, orientation))),
+    });
+  const setPenColor = (index: number, color: string) =>
+    updateState({ penColors: state.penColors.map((c, i) => (i === index ? color : c)) });
+
   return (
     <div className="controls">
       <div className="paint-section">
         <h3 className="section-title">Paint Mode</h3>
 
         <div className="control-group">
+          <div className="paint-controls">
+            {paintTools.map(({ tool, label }) => (
+              <button
+                key={tool}
+                type="button"
+                className={state.paintTool === tool ? 'secondary selected' : 'secondary'}
+                onClick={() => updateState({ paintTool: tool })}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
           <div className="paint-controls">
             <button
               type="button"
@@ -31,61 +132,134 @@ export function Controls({
             >
               {state.paintMode ? 'Stop Painting' : 'Start Painting'}
             </button>
-            {state.paintedPoints.length > 0 && (
-              <button type="button" className="secondary" onClick={clearPaintedPoints}>
-                Clear ({state.paintedPoints.length})
+            {paintedCount > 0 && (
+              <button type="button" className="secondary" onClick={clearPainted}>
+                Clear ({paintedCount})
               </button>
             )}
           </div>
-          {state.paintedPoints.length > 0 && (
+          {hasPaint && (
             <label className="checkbox-label">
               <input
                 type="checkbox"
                 checked={state.showDots}
                 onChange={(e) => updateState({ showDots: e.target.checked })}
               />
-              Show seed points
+              Show paint overlay
             </label>
           )}
           <p className="paint-hint">
-            {state.paintMode
-              ? 'Click or drag on canvas to place flow line seeds'
-              : state.paintedPoints.length > 0
-                ? `${state.paintedPoints.length} points placed. Lines flow from your painted points.`
-                : 'Paint your own starting points for flow lines instead of random placement'}
+            {paintingSeeds
+              ? state.paintMode
+                ? 'Click or drag on canvas to place flow line seeds'
+                : state.paintedPoints.length > 0
+                  ? `${state.paintedPoints.length} points placed. Lines flow from your painted points.`
+                  : 'Paint your own starting points for flow lines instead of random placement'
+              : paintingGuides
+                ? state.paintMode
+                  ? 'Drag across the canvas to steer the flow along your stroke'
+                  : `${state.guides.length} strokes steer the field near them.`
+                : state.paintMode
+                  ? `Click to place or drag to brush ${state.paintTool}s. Drag a handle to move one.`
+                  : `${state.influences.length} attractors and repellers bend the field around them.`}
           </p>
         </div>
+
+        {!paintingSeeds && (
+          <>
+            <div className="control-group">
+              <label>
+                {paintingGuides ? 'Falloff Distance' : 'Brush Radius'} <span>{state.brushRadius}px</span>
+              </label>
+              <input
+                type="range"
+                min="10"
+                max="300"
+                step="10"
+                value={state.brushRadius}
+                onChange={(e) => updateState({ brushRadius: parseInt(e.target.value, 10) })}
+              />
+            </div>
+
+            <div className="control-group">
+              <label>
+                Brush Strength <span>{state.brushStrength.toFixed(2)}</span>
+              </label>
+              <input
+                type="range"
+                min="0.05"
+                max="1"
+                step="0.05"
+                value={state.brushStrength}
+                onChange={(e) => updateState({ brushStrength: parseFloat(e.target.value) })}
+              />
+            </div>
+          </>
+        )}
       </div>
 
       <h3 className="section-title">Canvas</h3>
 
       <div className="control-group">
-        <label>
-          Width <span>{state.width}px</span>
-        </label>
-        <input
-          type="range"
-          min="200"
-          max="1200"
-          step="50"
-          value={state.width}
-          onChange={(e) => updateState({ width: parseInt(e.target.value, 10) })}
-        />
+        <label>Paper</label>
+        <select
+          value={state.paper}
+          onChange={(e) => setPaper(e.target.value as PaperSize | 'none', state.orientation)}
+        >
+          <option value="none">none (pixels)</option>
+          {PAPER_SIZES.map((paper) => (
+            <option key={paper} value={paper}>
+              {paper}
+            </option>
+          ))}
+        </select>
       </div>
 
-      <div className="control-group">
-        <label>
-          Height <span>{state.height}px</span>
-        </label>
-        <input
-          type="range"
-          min="200"
-          max="1200"
-          step="50"
-          value={state.height}
-          onChange={(e) => updateState({ height: parseInt(e.target.value, 10) })}
-        />
-      </div>
+      {state.paper !== 'none' ? (
+        <div className="control-group">
+          <label>Orientation</label>
+          <select
+            value={state.orientation}
+            onChange={(e) => setPaper(state.paper, e.target.value as Orientation)}
+          >
+            {ORIENTATIONS.map((orientation) => (
+              <option key={orientation} value={orientation}>
+                {orientation}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <>
+          <div className="control-group">
+            <label>
+              Width <span>{state.width}px</span>
+            </label>
+            <input
+              type="range"
+              min="200"
+              max="1200"
+              step="50"
+              value={state.width}
+              onChange={(e) => updateState({ width: parseInt(e.target.value, 10) })}
+            />
+          </div>
+
+          <div className="control-group">
+            <label>
+              Height <span>{state.height}px</span>
+            </label>
+            <input
+              type="range"
+              min="200"
+              max="1200"
+              step="50"
+              value={state.height}
+              onChange={(e) => updateState({ height: parseInt(e.target.value, 10) })}
+            />
+          </div>
+        </>
+      )}
 
       <h3 className="section-title">Lines</h3>
 
@@ -103,6 +277,37 @@ export function Controls({
         />
       </div>
 
+      <div className="control-group">
+        <label>Seeding</label>
+        <select
+          value={state.seeding}
+          onChange={(e) => updateState({ seeding: e.target.value as SeedingStrategy })}
+        >
+          {/* Polyline seeding needs a path, which the web app has no way to draw yet */}
+          {SEEDING_STRATEGIES.filter((strategy) => strategy !== 'polyline').map((strategy) => (
+            <option key={strategy} value={strategy}>
+              {strategy}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {state.seeding !== 'random' && (
+        <div className="control-group">
+          <label>
+            Seed Spacing <span>{state.seedSpacing > 0 ? state.seedSpacing : 'auto'}</span>
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="2"
+            value={state.seedSpacing}
+            onChange={(e) => updateState({ seedSpacing: parseInt(e.target.value, 10) })}
+          />
+        </div>
+      )}
+
       <div className="control-group">
         <label>
           Step Length <span>{state.stepLength}</span>
@@ -133,7 +338,32 @@ export function Controls({
 
       <div className="control-group">
         <label>
-          Margin <span>{state.margin}px</span>
+          Separation <span>{state.separation > 0 ? `${state.separation}px` : 'off'}</span>
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="40"
+          step="1"
+          value={state.separation}
+          onChange={(e) => updateState({ separation: parseInt(e.target.value, 10) })}
+        />
+      </div>
+
+      <div className="control-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={state.bidirectional}
+            onChange={(e) => updateState({ bidirectional: e.target.checked })}
+          />
+          Trace both directions
+        </label>
+      </div>
+
+      <div className="control-group">
+        <label>
+          Margin <span>{state.margin}px{onPaper(state.margin)}</span>
         </label>
         <input
           type="range"
@@ -145,8 +375,66 @@ export function Controls({
         />
       </div>
 
+      <div className="control-group">
+        <label>Clip Shape</label>
+        <select
+          value={state.clipShape}
+          onChange={(e) => updateState({ clipShape: e.target.value as ShapePreset | 'none' })}
+        >
+          <option value="none">none</option>
+          {SHAPE_PRESETS.map((shape) => (
+            <option key={shape} value={shape}>
+              {shape}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {state.clipShape !== 'none' && (
+        <div className="control-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={state.splitAtClip}
+              onChange={(e) => updateState({ splitAtClip: e.target.checked })}
+            />
+            Split lines at the shape edge
+          </label>
+        </div>
+      )}
+
       <h3 className="section-title">Noise Field</h3>
 
+      <div className="control-group">
+        <label>Noise Type</label>
+        <select
+          value={state.noiseType}
+          onChange={(e) => updateState({ noiseType: e.target.value as NoiseType })}
+        >
+          {NOISE_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {state.noiseType === 'worley' && (
+        <div className="control-group">
+          <label>Worley Distance</label>
+          <select
+            value={state.worleyMode}
+            onChange={(e) => updateState({ worleyMode: e.target.value as WorleyMode })}
+          >
+            {WORLEY_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {mode}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div className="control-group">
         <label>
           Noise Scale <span>{state.noiseScale.toFixed(4)}</span>
@@ -203,11 +491,187 @@ export function Controls({
         />
       </div>
 
+      {hasExtraDimensions && (
+        <div className="control-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={state.evolve}
+              onChange={(e) =>
+                updateState({ evolve: e.target.checked, playing: false, tileable: false })
+              }
+            />
+            Evolve over time
+          </label>
+        </div>
+      )}
+
+      {hasExtraDimensions && (
+        <div className="control-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={state.tileable}
+              onChange={(e) =>
+                updateState({ tileable: e.target.checked, evolve: false, playing: false })
+              }
+            />
+            Tileable (wrap lines at edges)
+          </label>
+        </div>
+      )}
+
+      {hasExtraDimensions && state.evolve && (
+        <div className="control-group">
+          <label>
+            Time <span>{state.time.toFixed(3)}</span>
+          </label>
+          <div className="seed-input">
+            <input
+              type="range"
+              min="0"
+              max="10"
+              step="0.005"
+              value={state.time}
+              onChange={(e) => updateState({ time: parseFloat(e.target.value) })}
+            />
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => updateState({ playing: !state.playing })}
+            >
+              {state.playing ? '⏸' : '▶'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="control-group">
+        <label>
+          Warp Strength <span>{state.warpStrength.toFixed(1)}</span>
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="4"
+          step="0.1"
+          value={state.warpStrength}
+          onChange={(e) => updateState({ warpStrength: parseFloat(e.target.value) })}
+        />
+      </div>
+
+      {state.warpStrength > 0 && (
+        <>
+          <div className="control-group">
+            <label>
+              Warp Scale <span>{state.warpScale.toFixed(1)}</span>
+            </label>
+            <input
+              type="range"
+              min="0.1"
+              max="4"
+              step="0.1"
+              value={state.warpScale}
+              onChange={(e) => updateState({ warpScale: parseFloat(e.target.value) })}
+            />
+          </div>
+
+          <div className="control-group">
+            <label>
+              Warp Iterations <span>{state.warpIterations}</span>
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="3"
+              step="1"
+              value={state.warpIterations}
+              onChange={(e) => updateState({ warpIterations: parseInt(e.target.value, 10) })}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="control-group">
+        <label>Sampling</label>
+        <select
+          value={state.sampling}
+          onChange={(e) => updateState({ sampling: e.target.value as SamplingMode })}
+        >
+          {SAMPLING_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {mode}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <h3 className="section-title">Image Maps</h3>
+
+      <ImageDrop
+        label="Direction Map"
+        image={state.directionMap}
+        onLoad={(image) => updateState({ directionMap: image })}
+        onClear={() => updateState({ directionMap: null })}
+      />
+
+      {state.directionMap && (
+        <>
+          <div className="control-group">
+            <label>Direction From</label>
+            <select
+              value={state.directionMode}
+              onChange={(e) => updateState({ directionMode: e.target.value as DirectionMapMode })}
+            >
+              {DIRECTION_MAP_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="control-group">
+            <label>
+              Direction Strength <span>{state.directionStrength.toFixed(2)}</span>
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={state.directionStrength}
+              onChange={(e) => updateState({ directionStrength: parseFloat(e.target.value) })}
+            />
+          </div>
+        </>
+      )}
+
+      <ImageDrop
+        label="Density Map"
+        image={state.densityMap}
+        onLoad={(image) => updateState({ densityMap: image })}
+        onClear={() => updateState({ densityMap: null })}
+      />
+
+      {state.densityMap && (
+        <div className="control-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={state.invertDensity}
+              onChange={(e) => updateState({ invertDensity: e.target.checked })}
+            />
+            Light areas are dense
+          </label>
+        </div>
+      )}
+
       <h3 className="section-title">Style</h3>
 
       <div className="control-group">
         <label>
-          Stroke Width <span>{state.strokeWidth}px</span>
+          Stroke Width <span>{state.strokeWidth}px{onPaper(state.strokeWidth)}</span>
         </label>
         <input
           type="range"
@@ -228,6 +692,108 @@ export function Controls({
         />
       </div>
 
+      <div className="control-group">
+        <label>Color By</label>
+        <select
+          value={state.colorBy}
+          onChange={(e) => updateState({ colorBy: e.target.value as LineAttribute | 'none' })}
+        >
+          <option value="none">none</option>
+          {LINE_ATTRIBUTES.map((attribute) => (
+            <option key={attribute} value={attribute}>
+              {attribute}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {state.colorBy !== 'none' && (
+        <div className="control-group">
+          <label>Gradient To</label>
+          <input
+            type="text"
+            value={state.gradientColor}
+            onChange={(e) => updateState({ gradientColor: e.target.value })}
+          />
+        </div>
+      )}
+
+      <div className="control-group">
+        <label>Width By</label>
+        <select
+          value={state.widthBy}
+          onChange={(e) => updateState({ widthBy: e.target.value as LineAttribute | 'none' })}
+        >
+          <option value="none">none</option>
+          {LINE_ATTRIBUTES.map((attribute) => (
+            <option key={attribute} value={attribute}>
+              {attribute}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <h3 className="section-title">Pens</h3>
+
+      {state.penColors.map((color, index) => (
+        <div className="control-group" key={index}>
+          <label>Pen {index + 1}</label>
+          <div className="seed-input">
+            <input type="text" value={color} onChange={(e) => setPenColor(index, e.target.value)} />
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => updateState({ penColors: state.penColors.filter((_, i) => i !== index) })}
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="control-group">
+        <button
+          type="button"
+          className="secondary"
+          onClick={() => updateState({ penColors: [...state.penColors, state.strokeColor] })}
+        >
+          Add Pen
+        </button>
+      </div>
+
+      {state.penColors.length > 1 && (
+        <div className="control-group">
+          <label>Pen Assignment</label>
+          <select
+            value={state.penStrategy}
+            onChange={(e) => updateState({ penStrategy: e.target.value as PenStrategy })}
+          >
+            {penStrategies.map((strategy) => (
+              <option key={strategy} value={strategy}>
+                {strategy}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="control-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={state.optimizePenTravel}
+            onChange={(e) => updateState({ optimizePenTravel: e.target.checked })}
+          />
+          Optimize pen travel
+        </label>
+        {travel && (
+          <p className="paint-hint">
+            Pen-up travel {fromPixels(travel.before, 'mm').toFixed(0)}mm →{' '}
+            {fromPixels(travel.after, 'mm').toFixed(0)}mm
+          </p>
+        )}
+      </div>
+
       <h3 className="section-title">Seed</h3>
 
       <div className="control-group">
@@ -247,7 +813,61 @@ export function Controls({
         <button type="button" className="primary" onClick={downloadSVG}>
           Download SVG
         </button>
+        <button type="button" className="secondary" onClick={downloadAnimatedSVG}>
+          Download Animated
+        </button>
+        <button type="button" className="secondary" onClick={downloadHPGL}>
+          Download HPGL
+        </button>
       </div>
+
+      <div className="control-group">
+        <button type="button" className="secondary" onClick={() => svgInputRef.current?.click()}>
+          Open SVG to Restore Settings
+        </button>
+        <input
+          ref={svgInputRef}
+          type="file"
+          accept=".svg,image/svg+xml"
+          hidden
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) openSVG(await file.text());
+          }}
+        />
+        {restoreNote && <p className="paint-hint">{restoreNote}</p>}
+      </div>
+
+      <dl className="plot-stats">
+        <dt>Paths</dt>
+        <dd>
+          {stats.paths} ({stats.points} points)
+        </dd>
+        <dt>Pen lifts</dt>
+        <dd>{stats.penLifts}</dd>
+        {stats.penChanges > 0 && (
+          <>
+            <dt>Pen changes</dt>
+            <dd>{stats.penChanges}</dd>
+          </>
+        )}
+        <dt>Pen down</dt>
+        <dd>{stats.penDownLength.toFixed(0)}mm</dd>
+        <dt>Pen up</dt>
+        <dd>{stats.penUpDistance.toFixed(0)}mm</dd>
+        {stats.bounds && (
+          <>
+            <dt>Bounds</dt>
+            <dd>
+              {stats.bounds.minX.toFixed(0)},{stats.bounds.minY.toFixed(0)} to {stats.bounds.maxX.toFixed(0)},
+              {stats.bounds.maxY.toFixed(0)}mm
+            </dd>
+          </>
+        )}
+        <dt>Plot time</dt>
+        <dd>~{formatDuration(stats.duration)}</dd>
+      </dl>
     </div>
   );
 }
@@ -0,0 +1,101 @@
+import { useCallback, useRef, useState } from 'react';
+import { decodePNM, type RasterImage } from '@flow-lines/core';
+
+interface ImageDropProps {
+  label: string;
+  image: RasterImage | null;
+  onLoad: (image: RasterImage) => void;
+  onClear: () => void;
+}
+
+// Larger images are scaled down; the field never needs more detail than this
+const maxImageSize = 1024;
+
+/**
+ * Decode an image file into RGBA pixels. PGM/PPM go through the core
+ * decoder since browsers can't read them; everything else uses the browser.
+ */
+async function loadImageFile(file: File): Promise<RasterImage> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (bytes[0] === 0x50 && bytes[1] >= 0x32 && bytes[1] <= 0x36) {
+    return decodePNM(bytes);
+  }
+
+  const bitmap = await createImageBitmap(new Blob([bytes], { type: file.type }));
+  const scale = Math.min(1, maxImageSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+export function ImageDrop({ label, image, onLoad, onClear }: ImageDropProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = useCallback(
+    async (file: File | undefined) => {
+      if (!file) return;
+      try {
+        onLoad(await loadImageFile(file));
+        setError(null);
+      } catch (e) {
+        setError(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    },
+    [onLoad]
+  );
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      handleFile(e.dataTransfer.files[0]);
+    },
+    [handleFile]
+  );
+
+  return (
+    <div className="control-group">
+      <label>{label}</label>
+      <div
+        className={`image-drop ${isDragging ? 'dragging' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+      >
+        {image ? `${image.width}×${image.height} image loaded` : 'Drop an image or click to browse'}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*,.pgm,.ppm"
+          hidden
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {image && (
+        <button type="button" className="secondary" onClick={onClear}>
+          Remove
+        </button>
+      )}
+      {error && <p className="paint-hint">{error}</p>}
+    </div>
+  );
+}
@@ -1,27 +1,52 @@
 import { useRef, useCallback, useState, useEffect } from 'react';
-import type { Point } from '@flow-lines/core';
+import type { Guide, Influence, Point } from '@flow-lines/core';
+import type { PaintTool } from '../App';
 
 interface PreviewProps {
   svgContent: string;
   width: number;
   height: number;
   paintMode: boolean;
+  paintTool: PaintTool;
   paintedPoints: Point[];
+  influences: Influence[];
+  guides: Guide[];
   showDots: boolean;
   onPaint: (point: Point) => void;
+  onStrokeStart: (point: Point) => void;
+  onStrokeExtend: (point: Point) => void;
+  onMoveInfluence: (index: number, point: Point) => void;
 }
 
+const influenceColors = {
+  attractor: '72, 149, 239',
+  repeller: '245, 166, 35',
+};
+
+const guideColor = '155, 89, 182';
+
+// Minimum canvas distance between recorded points of a brush stroke
+const strokeSpacing = 8;
+
 export function Preview({
   svgContent,
   width,
   height,
   paintMode,
+  paintTool,
   paintedPoints,
+  influences,
+  guides,
   showDots,
   onPaint,
+  onStrokeStart,
+  onStrokeExtend,
+  onMoveInfluence,
 }: PreviewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isPainting, setIsPainting] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const lastStrokePoint = useRef<Point | null>(null);
 
   // Calculate max dimensions to fit in viewport while maintaining aspect ratio
   const maxWidth = Math.min(width, 800);
@@ -30,6 +55,8 @@ export function Preview({
   const displayWidth = width * scale;
   const displayHeight = height * scale;
 
+  const paintingInfluences = paintMode && (paintTool === 'attractor' || paintTool === 'repeller');
+
   const getCanvasPoint = useCallback(
     (clientX: number, clientY: number): Point | null => {
       if (!containerRef.current) return null;
@@ -56,38 +83,149 @@ export function Preview({
       setIsPainting(true);
 
       const point = getCanvasPoint(e.clientX, e.clientY);
-      if (point) {
+      if (!point) return;
+
+      if (paintTool === 'seeds') {
         onPaint(point);
+      } else {
+        onStrokeStart(point);
+        lastStrokePoint.current = point;
       }
     },
-    [paintMode, getCanvasPoint, onPaint]
+    [paintMode, paintTool, getCanvasPoint, onPaint, onStrokeStart]
   );
 
   const handlePointerMove = useCallback(
     (e: React.PointerEvent) => {
-      if (!paintMode || !isPainting) return;
+      if (!paintMode) return;
 
       const point = getCanvasPoint(e.clientX, e.clientY);
-      if (point) {
+      if (!point) return;
+
+      if (dragIndex !== null) {
+        onMoveInfluence(dragIndex, point);
+        return;
+      }
+
+      if (!isPainting) return;
+
+      if (paintTool === 'seeds') {
         onPaint(point);
+        return;
+      }
+
+      const last = lastStrokePoint.current;
+      if (last && Math.hypot(point.x - last.x, point.y - last.y) >= strokeSpacing) {
+        onStrokeExtend(point);
+        lastStrokePoint.current = point;
       }
     },
-    [paintMode, isPainting, getCanvasPoint, onPaint]
+    [paintMode, paintTool, isPainting, dragIndex, getCanvasPoint, onPaint, onStrokeExtend, onMoveInfluence]
   );
 
   const handlePointerUp = useCallback(() => {
     setIsPainting(false);
+    setDragIndex(null);
+    lastStrokePoint.current = null;
   }, []);
 
+  const handleHandlePointerDown = useCallback(
+    (e: React.PointerEvent, index: number) => {
+      if (!paintingInfluences) return;
+
+      // Keep the canvas from starting a new brush stroke under the handle
+      e.preventDefault();
+      e.stopPropagation();
+      setDragIndex(index);
+    },
+    [paintingInfluences]
+  );
+
   // Clean up painting state when pointer leaves or mode changes
   useEffect(() => {
-    const handleGlobalPointerUp = () => setIsPainting(false);
+    const handleGlobalPointerUp = () => {
+      setIsPainting(false);
+      setDragIndex(null);
+    };
     window.addEventListener('pointerup', handleGlobalPointerUp);
     return () => window.removeEventListener('pointerup', handleGlobalPointerUp);
   }, []);
 
-  // Generate paint dots overlay - controlled by showDots toggle
-  const paintDotsOverlay = showDots && paintedPoints.length > 0 ? (
+  const influenceShapes = influences.map((influence, i) => {
+    const color = influenceColors[influence.type];
+    const [first] = influence.points;
+
+    return (
+      <g key={`influence-${i}`}>
+        {influence.points.length === 1 ? (
+          <circle
+            cx={first.x}
+            cy={first.y}
+            r={influence.radius}
+            fill={`rgba(${color}, 0.12)`}
+            stroke={`rgba(${color}, 0.6)`}
+            strokeWidth={1}
+            strokeDasharray="4 4"
+          />
+        ) : (
+          <polyline
+            points={influence.points.map((p) => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke={`rgba(${color}, 0.12)`}
+            strokeWidth={influence.radius * 2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+        <circle
+          cx={first.x}
+          cy={first.y}
+          r={6}
+          fill={`rgba(${color}, 0.9)`}
+          stroke="white"
+          strokeWidth={1.5}
+          style={{
+            pointerEvents: paintingInfluences ? 'all' : 'none',
+            cursor: 'move',
+          }}
+          onPointerDown={(e) => handleHandlePointerDown(e, i)}
+        />
+      </g>
+    );
+  });
+
+  const guideShapes = guides.map((guide, i) => {
+    const points = guide.points.map((p) => `${p.x},${p.y}`).join(' ');
+
+    return (
+      <g key={`guide-${i}`}>
+        <polyline
+          points={points}
+          fill="none"
+          stroke={`rgba(${guideColor}, 0.1)`}
+          strokeWidth={guide.falloffDistance * 2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+        <polyline
+          points={points}
+          fill="none"
+          stroke={`rgba(${guideColor}, 0.8)`}
+          strokeWidth={2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          markerEnd="url(#guide-arrow)"
+        />
+      </g>
+    );
+  });
+
+  // Generate paint overlay - controlled by showDots toggle, but always
+  // shown while painting influences so their handles can be dragged
+  const showOverlay = (showDots || paintingInfluences) &&
+    (paintedPoints.length > 0 || influences.length > 0 || guides.length > 0);
+
+  const paintOverlay = showOverlay ? (
     <svg
       className="paint-overlay"
       viewBox={`0 0 ${width} ${height}`}
@@ -100,6 +238,21 @@ export function Preview({
         pointerEvents: 'none',
       }}
     >
+      <defs>
+        <marker
+          id="guide-arrow"
+          viewBox="0 0 10 10"
+          refX="5"
+          refY="5"
+          markerWidth="4"
+          markerHeight="4"
+          orient="auto-start-reverse"
+        >
+          <path d="M0,0 L10,5 L0,10 z" fill={`rgba(${guideColor}, 0.8)`} />
+        </marker>
+      </defs>
+      {guideShapes}
+      {influenceShapes}
       {paintedPoints.map((point, i) => (
         <circle
           key={i}
@@ -131,7 +284,7 @@ export function Preview({
       onPointerLeave={handlePointerUp}
     >
       <div dangerouslySetInnerHTML={{ __html: svgContent }} />
-      {paintDotsOverlay}
+      {paintOverlay}
     </div>
   );
 }